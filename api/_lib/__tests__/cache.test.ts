@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCached, setCached } from '../cache'
+
+const MAX_ENTRIES = 500
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2024-01-05T12:00:00Z'))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('response cache', () => {
+  it('returns a stored response until it expires', () => {
+    setCached('hit', 200, { price: 1 }, 30)
+
+    expect(getCached('hit')).toMatchObject({ status: 200, body: { price: 1 } })
+    vi.advanceTimersByTime(29 * 1000)
+    expect(getCached('hit')).not.toBeNull()
+    vi.advanceTimersByTime(1000)
+    expect(getCached('hit')).toBeNull()
+  })
+
+  it('misses keys that were never stored', () => {
+    expect(getCached('missing')).toBeNull()
+  })
+
+  it('evicts the least recently used entry when full', () => {
+    for (let i = 0; i < MAX_ENTRIES; i++) setCached(`lru:${i}`, 200, i, 60)
+
+    // Reading the oldest entry makes lru:1 the least recently used
+    expect(getCached('lru:0')).not.toBeNull()
+    setCached('lru:new', 200, 'new', 60)
+
+    expect(getCached('lru:1')).toBeNull()
+    expect(getCached('lru:0')?.body).toBe(0)
+    expect(getCached('lru:2')?.body).toBe(2)
+    expect(getCached('lru:new')?.body).toBe('new')
+  })
+
+  it('replaces an entry stored again under the same key', () => {
+    setCached('replace', 200, 'old', 60)
+    setCached('replace', 200, 'new', 60)
+
+    expect(getCached('replace')?.body).toBe('new')
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import yahooPrice from '../../yahoo-price'
+import { createHandler } from '../handler'
+import { ApiError } from '../errors'
+import { jsonResponse, mockRequest, mockResponse } from './http'
+
+const CHART = { chart: { result: [{ meta: { regularMarketPrice: 185.5 } }] } }
+
+const fetchMock = vi.fn<typeof fetch>()
+vi.stubGlobal('fetch', fetchMock)
+
+// Each test gets its own client, so rate limits don't carry over
+let ip = 0
+const nextIp = () => `192.0.2.${++ip}`
+
+beforeEach(() => {
+  fetchMock.mockResolvedValue(jsonResponse(CHART))
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.useRealTimers()
+})
+
+async function call(
+  handler: ReturnType<typeof createHandler>,
+  query: Record<string, string>,
+  options: { method?: string; ip?: string; url?: string } = {}
+) {
+  const { res, sent } = mockResponse()
+  await handler(mockRequest(query, { ip: nextIp(), url: '/api/yahoo-price', ...options }), res)
+  return sent
+}
+
+describe('createHandler', () => {
+  it('answers preflight requests with CORS headers', async () => {
+    const sent = await call(yahooPrice, {}, { method: 'OPTIONS' })
+
+    expect(sent.statusCode).toBe(204)
+    expect(sent.headers['access-control-allow-origin']).toBe('*')
+  })
+
+  it('rejects other methods than GET with 405', async () => {
+    const sent = await call(yahooPrice, { symbol: 'AAPL' }, { method: 'POST' })
+
+    expect(sent.statusCode).toBe(405)
+    expect(sent.headers['allow']).toBe('GET, OPTIONS')
+    expect(sent.body).toMatchObject({ error: { code: 'METHOD_NOT_ALLOWED' } })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [{ symbol: 'AAPL', range: '2w' }, 'range'],
+    [{ symbol: 'AAPL', interval: '3m' }, 'interval'],
+    [{ symbol: 'AAPL', period1: 'yesterday' }, 'period1'],
+    [{ symbol: 'AAPL; DROP' }, 'symbol'],
+    [{}, 'symbol'],
+  ])('rejects %o with 400', async (query, param) => {
+    const sent = await call(yahooPrice, query)
+
+    expect(sent.statusCode).toBe(400)
+    expect(sent.headers['cache-control']).toBe('no-store')
+    expect(sent.body).toMatchObject({ error: { code: 'BAD_REQUEST', details: [{ param }] } })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('answers 429 with Retry-After once a client is over its limit', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const handler = createHandler({ query: z.object({}), maxAge: 0, run: async () => ({ body: { ok: true } }) })
+    const client = nextIp()
+
+    for (let i = 0; i < 60; i++) {
+      expect((await call(handler, {}, { ip: client })).statusCode).toBe(200)
+    }
+    const sent = await call(handler, {}, { ip: client })
+
+    expect(sent.statusCode).toBe(429)
+    expect(sent.headers['retry-after']).toBe('1')
+    expect(sent.body).toMatchObject({ error: { code: 'RATE_LIMITED' } })
+    expect((await call(handler, {})).statusCode).toBe(200)
+  })
+
+  it('maps an upstream 404 to a 404 response', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 404))
+
+    const sent = await call(yahooPrice, { symbol: 'NOPE' })
+
+    expect(sent.statusCode).toBe(404)
+    expect(sent.body).toMatchObject({ error: { code: 'NOT_FOUND' } })
+  })
+
+  it('serves repeated requests from the cache, keyed by validated params', async () => {
+    const first = await call(yahooPrice, { symbol: 'MSFT', range: '1mo' })
+    const second = await call(yahooPrice, { symbol: 'msft', range: '1mo' })
+
+    expect(first.headers['x-cache']).toBe('MISS')
+    expect(first.headers['cache-control']).toBe('s-maxage=300, stale-while-revalidate=600')
+    expect(second.headers['x-cache']).toBe('HIT')
+    expect(second.body).toEqual(CHART)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't cache error responses", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 404))
+
+    expect((await call(yahooPrice, { symbol: 'AMZN' })).statusCode).toBe(404)
+    expect((await call(yahooPrice, { symbol: 'AMZN' })).statusCode).toBe(200)
+  })
+
+  it('answers ApiErrors with their status and anything else with 500', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const notFound = createHandler({
+      query: z.object({}),
+      maxAge: 0,
+      run: async () => { throw new ApiError(404, 'NOT_FOUND', 'Nothing here') },
+    })
+    const broken = createHandler({
+      query: z.object({}),
+      maxAge: 0,
+      run: async () => { throw new Error('boom') },
+    })
+
+    expect(await call(notFound, {})).toMatchObject({
+      statusCode: 404,
+      body: { error: { code: 'NOT_FOUND', message: 'Nothing here' } },
+    })
+    expect(await call(broken, {})).toMatchObject({
+      statusCode: 500,
+      body: { error: { code: 'INTERNAL', message: 'Internal error' } },
+    })
+  })
+})
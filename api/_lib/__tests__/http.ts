@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+export interface MockResponse {
+  statusCode: number
+  headers: Record<string, string>
+  body: unknown
+  ended: boolean
+}
+
+interface RequestOptions {
+  method?: string
+  url?: string
+  ip?: string
+}
+
+/**
+ * Just enough of a VercelRequest for the api/ handlers
+ */
+export function mockRequest(query: Record<string, string | string[]> = {}, options: RequestOptions = {}) {
+  const { method = 'GET', url = '/api/test', ip = '203.0.113.1' } = options
+  return {
+    method,
+    url: `${url}?${new URLSearchParams(query as Record<string, string>)}`,
+    query,
+    headers: { 'x-forwarded-for': ip },
+    socket: {},
+  } as unknown as VercelRequest
+}
+
+/**
+ * A VercelResponse that records what the handler sent
+ */
+export function mockResponse() {
+  const sent: MockResponse = { statusCode: 200, headers: {}, body: undefined, ended: false }
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name.toLowerCase()] = value
+      return res
+    },
+    status(code: number) {
+      sent.statusCode = code
+      return res
+    },
+    json(body: unknown) {
+      sent.body = body
+      sent.ended = true
+      return res
+    },
+    end() {
+      sent.ended = true
+      return res
+    },
+  }
+  return { res: res as unknown as VercelResponse, sent }
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
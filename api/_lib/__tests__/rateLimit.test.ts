@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { takeToken } from '../rateLimit'
+
+const BUCKET_SIZE = 60
+const NOW = Date.parse('2024-01-05T12:00:00Z')
+
+describe('takeToken', () => {
+  it('allows a burst of a full bucket, then asks to wait', () => {
+    for (let i = 0; i < BUCKET_SIZE; i++) {
+      expect(takeToken('198.51.100.1', NOW)).toBe(0)
+    }
+    expect(takeToken('198.51.100.1', NOW)).toBe(1)
+  })
+
+  it('refills one token a second', () => {
+    for (let i = 0; i < BUCKET_SIZE; i++) takeToken('198.51.100.2', NOW)
+
+    expect(takeToken('198.51.100.2', NOW + 500)).toBe(1)
+    expect(takeToken('198.51.100.2', NOW + 1000)).toBe(0)
+    expect(takeToken('198.51.100.2', NOW + 1000)).toBe(1)
+  })
+
+  it('keeps a bucket per client', () => {
+    for (let i = 0; i < BUCKET_SIZE; i++) takeToken('198.51.100.3', NOW)
+
+    expect(takeToken('198.51.100.3', NOW)).toBeGreaterThan(0)
+    expect(takeToken('198.51.100.4', NOW)).toBe(0)
+  })
+})
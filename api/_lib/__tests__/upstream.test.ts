@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ApiError } from '../errors'
+import { fetchUpstream } from '../upstream'
+import { jsonResponse } from './http'
+
+const UPSTREAM_URL = 'https://upstream.test/data'
+
+const fetchMock = vi.fn<typeof fetch>()
+vi.stubGlobal('fetch', fetchMock)
+
+afterEach(() => {
+  fetchMock.mockReset()
+})
+
+describe('fetchUpstream', () => {
+  it('returns the JSON body', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).resolves.toEqual({ ok: true })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('retries once after a 5xx', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).resolves.toEqual({ ok: true })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails with UPSTREAM_ERROR when the retry fails too', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 500))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).rejects.toMatchObject({ status: 502, code: 'UPSTREAM_ERROR' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries a timeout and reports UPSTREAM_TIMEOUT', async () => {
+    fetchMock.mockRejectedValue(new DOMException('The operation timed out', 'TimeoutError'))
+
+    const error = await fetchUpstream(UPSTREAM_URL).catch(e => e)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 504, code: 'UPSTREAM_TIMEOUT' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('recovers from a network error on the retry', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).resolves.toEqual({ ok: true })
+  })
+
+  it('maps an upstream 404 to NOT_FOUND without retrying', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 404))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).rejects.toMatchObject({ status: 404, code: 'NOT_FOUND' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't retry other 4xx responses", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 400))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).rejects.toMatchObject({ status: 502, message: 'Upstream responded 400' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects a body that is not JSON', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>', { status: 200 }))
+
+    await expect(fetchUpstream(UPSTREAM_URL)).rejects.toMatchObject({ status: 502, message: 'Upstream sent invalid JSON' })
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * In-memory LRU cache of API responses. It lives as long as the function
+ * instance, so it only saves upstream calls on warm invocations.
+ */
+
+const MAX_ENTRIES = 500
+
+export interface CachedResponse {
+  status: number
+  body: unknown
+  expiresAt: number
+}
+
+// Map keeps insertion order: the first key is the least recently used
+const entries = new Map<string, CachedResponse>()
+
+export function getCached(key: string): CachedResponse | null {
+  const entry = entries.get(key)
+  if (!entry) return null
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key)
+    return null
+  }
+
+  entries.delete(key)
+  entries.set(key, entry)
+  return entry
+}
+
+export function setCached(key: string, status: number, body: unknown, ttlSeconds: number) {
+  entries.delete(key)
+  entries.set(key, { status, body, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value
+    if (oldest === undefined) break
+    entries.delete(oldest)
+  }
+}
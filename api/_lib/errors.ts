@@ -0,0 +1,38 @@
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL'
+
+/**
+ * Body of every error response
+ */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: unknown
+  }
+}
+
+/**
+ * An error with the status and code to answer it with
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: { code: this.code, message: this.message, details: this.details } }
+  }
+}
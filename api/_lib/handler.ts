@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { z } from 'zod'
+import { ApiError } from './errors'
+import { getCached, setCached } from './cache'
+import { takeToken } from './rateLimit'
+
+export interface ApiResult {
+  body: unknown
+  status?: number
+  // Seconds the response may be cached (here and by the CDN); 0 disables caching
+  maxAge?: number
+}
+
+interface HandlerOptions<S extends z.ZodTypeAny> {
+  // Validates and converts req.query
+  query: S
+  // Default for results that don't set their own
+  maxAge: number
+  run: (params: z.infer<S>) => Promise<ApiResult>
+}
+
+function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim()
+  return first || req.socket?.remoteAddress || 'unknown'
+}
+
+export function sendError(res: VercelResponse, error: ApiError) {
+  res.setHeader('Cache-Control', 'no-store')
+  res.status(error.status).json(error.toBody())
+}
+
+/**
+ * CORS headers, then answer preflights, other methods than GET and clients
+ * over their rate limit. False when the request has been answered.
+ */
+export function acceptRequest(req: VercelRequest, res: VercelResponse): boolean {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return false
+  }
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, OPTIONS')
+    sendError(res, new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not allowed`))
+    return false
+  }
+
+  const retryAfter = takeToken(getClientIp(req))
+  if (retryAfter > 0) {
+    res.setHeader('Retry-After', String(retryAfter))
+    sendError(res, new ApiError(429, 'RATE_LIMITED', 'Too many requests'))
+    return false
+  }
+  return true
+}
+
+/**
+ * Validated req.query, or null after answering 400 with the issues
+ */
+export function parseQuery<S extends z.ZodTypeAny>(
+  schema: S,
+  req: VercelRequest,
+  res: VercelResponse
+): z.infer<S> | null {
+  const parsed = schema.safeParse(req.query)
+  if (parsed.success) return parsed.data
+
+  const issues = parsed.error.issues.map(issue => ({ param: issue.path.join('.'), message: issue.message }))
+  sendError(res, new ApiError(400, 'BAD_REQUEST', issues[0]?.message || 'Invalid query', issues))
+  return null
+}
+
+/**
+ * Wrap an api/ route: CORS, GET only, per-IP rate limiting, query validation,
+ * an in-memory response cache and JSON error responses
+ * ({ error: { code, message } }) for anything that throws.
+ */
+export function createHandler<S extends z.ZodTypeAny>({ query, maxAge, run }: HandlerOptions<S>) {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    if (!acceptRequest(req, res)) return
+
+    const params = parseQuery(query, req, res)
+    if (params === null) return
+
+    // Keyed by the validated params, so "aapl" and "AAPL" share an entry
+    const cacheKey = `${req.url?.split('?')[0]}?${JSON.stringify(params)}`
+    const cached = getCached(cacheKey)
+    if (cached) {
+      res.setHeader('Cache-Control', `s-maxage=${Math.ceil((cached.expiresAt - Date.now()) / 1000)}`)
+      res.setHeader('X-Cache', 'HIT')
+      return res.status(cached.status).json(cached.body)
+    }
+
+    try {
+      const result = await run(params)
+      const status = result.status ?? 200
+      const seconds = result.maxAge ?? maxAge
+
+      if (status === 200 && seconds > 0) {
+        setCached(cacheKey, status, result.body, seconds)
+        res.setHeader('Cache-Control', `s-maxage=${seconds}, stale-while-revalidate=${seconds * 2}`)
+      } else {
+        res.setHeader('Cache-Control', 'no-store')
+      }
+      res.setHeader('X-Cache', 'MISS')
+      res.status(status).json(result.body)
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return sendError(res, error)
+      }
+      console.error('API handler failed:', error)
+      sendError(res, new ApiError(500, 'INTERNAL', 'Internal error'))
+    }
+  }
+}
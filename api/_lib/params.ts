@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+// The ranges and intervals the app's chart configs ask for (HistoryRange and
+// HistoryInterval in src/services/marketData/provider)
+export const RANGES = ['1d', '5d', '1mo', '3mo', '6mo', 'ytd', '1y', '2y', '5y', '10y', 'max'] as const
+export const INTERVALS = ['5m', '15m', '1d', '1wk', '1mo'] as const
+
+// Yahoo symbols: tickers with exchange suffixes, share classes, indices and FX pairs
+export const SYMBOL_PATTERN = /^[A-Z0-9^][A-Z0-9.\-=^]{0,19}$/
+
+// Query values arrive as string | string[]; repeated params keep the first
+const single = (value: unknown) => Array.isArray(value) ? value[0] : value
+
+export const symbolParam = z.preprocess(
+  single,
+  z.string({ required_error: 'Missing symbol' })
+    .trim()
+    .toUpperCase()
+    .regex(SYMBOL_PATTERN, 'Invalid symbol')
+)
+
+export const rangeParam = z.preprocess(single, z.enum(RANGES))
+
+export const intervalParam = z.preprocess(single, z.enum(INTERVALS))
+
+// Unix seconds
+export const periodParam = z.preprocess(single, z.coerce.number().int().nonnegative())
+
+// Comma-separated symbols, uppercased and deduplicated. Invalid ones are kept
+// so a route can report them per symbol.
+export const symbolListParam = (max: number) => z.preprocess(
+  value => Array.isArray(value) ? value.join(',') : value,
+  z.string({ required_error: 'Missing symbols' })
+    .transform(value => [...new Set(value.split(',').map(s => s.trim().toUpperCase()).filter(Boolean))])
+    .refine(list => list.length > 0, 'Missing symbols')
+    .refine(list => list.length <= max, `At most ${max} symbols per request`)
+)
@@ -0,0 +1,40 @@
+/**
+ * Per-IP token bucket: each client gets BUCKET_SIZE requests at once and
+ * REFILL_PER_SECOND more every second. Buckets live in the function
+ * instance, so limits are per instance rather than global.
+ */
+
+const BUCKET_SIZE = 60
+const REFILL_PER_SECOND = 1
+const MAX_BUCKETS = 10000
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+const buckets = new Map<string, Bucket>()
+
+/**
+ * Take a token for a client. Returns 0 when the request may go ahead, or the
+ * seconds to wait before the next token.
+ */
+export function takeToken(ip: string, now = Date.now()): number {
+  const bucket = buckets.get(ip) || { tokens: BUCKET_SIZE, updatedAt: now }
+  bucket.tokens = Math.min(BUCKET_SIZE, bucket.tokens + ((now - bucket.updatedAt) / 1000) * REFILL_PER_SECOND)
+  bucket.updatedAt = now
+
+  buckets.delete(ip)
+  buckets.set(ip, bucket)
+  if (buckets.size > MAX_BUCKETS) {
+    // Forget the least recently seen client (a full bucket again)
+    const oldest = buckets.keys().next().value
+    if (oldest !== undefined) buckets.delete(oldest)
+  }
+
+  if (bucket.tokens < 1) {
+    return Math.ceil((1 - bucket.tokens) / REFILL_PER_SECOND)
+  }
+  bucket.tokens -= 1
+  return 0
+}
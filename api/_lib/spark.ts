@@ -0,0 +1,96 @@
+import type { LivePrice } from '../../src/types/portfolio'
+import { fetchUpstream } from './upstream'
+import { SYMBOL_PATTERN } from './params'
+
+// Yahoo's spark endpoint prices up to 20 symbols per call
+const SPARK_URL = 'https://query1.finance.yahoo.com/v7/finance/spark'
+const SPARK_BATCH_SIZE = 20
+
+export interface QuoteError {
+  symbol: string
+  error: string
+}
+
+interface SparkResult {
+  symbol?: string
+  response?: {
+    meta?: {
+      regularMarketPrice?: number
+      chartPreviousClose?: number
+      previousClose?: number
+      regularMarketTime?: number
+      currency?: string
+    }
+  }[]
+}
+
+/**
+ * Latest prices for up to 20 symbols in one upstream call, keyed by symbol
+ * (an error message for symbols without a price)
+ */
+async function fetchSpark(symbols: string[]): Promise<Map<string, LivePrice | string>> {
+  const url = `${SPARK_URL}?symbols=${encodeURIComponent(symbols.join(','))}&range=1d&interval=1d`
+  const data = await fetchUpstream(url) as { spark?: { result?: SparkResult[] } }
+  const results = data?.spark?.result || []
+  const prices = new Map<string, LivePrice | string>()
+
+  for (const result of results) {
+    const meta = result?.response?.[0]?.meta
+    const price = meta?.regularMarketPrice
+    if (!result?.symbol) continue
+    if (!meta || !price) {
+      prices.set(result.symbol, 'No price data')
+      continue
+    }
+
+    const previousClose = meta.chartPreviousClose ?? meta.previousClose
+    prices.set(result.symbol, {
+      ticker: result.symbol,
+      price,
+      previousClose,
+      change: previousClose ? price - previousClose : undefined,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : undefined,
+      currency: meta.currency,
+      timestamp: meta.regularMarketTime ? meta.regularMarketTime * 1000 : Date.now(),
+      source: 'yahoo',
+    })
+  }
+  return prices
+}
+
+/**
+ * Latest prices for a symbol list in batches of 20. Symbols that are invalid,
+ * unknown or in a failed batch are listed in errors; `failed` is set when
+ * an upstream call failed, so the result shouldn't be cached.
+ */
+export async function fetchQuotes(symbols: string[]): Promise<{
+  quotes: LivePrice[]
+  errors: QuoteError[]
+  failed: boolean
+}> {
+  const valid = symbols.filter(s => SYMBOL_PATTERN.test(s))
+  const quotes: LivePrice[] = []
+  const errors: QuoteError[] = symbols
+    .filter(s => !SYMBOL_PATTERN.test(s))
+    .map(symbol => ({ symbol, error: 'Invalid symbol' }))
+
+  const batches: string[][] = []
+  for (let i = 0; i < valid.length; i += SPARK_BATCH_SIZE) {
+    batches.push(valid.slice(i, i + SPARK_BATCH_SIZE))
+  }
+
+  const settled = await Promise.allSettled(batches.map(fetchSpark))
+  settled.forEach((outcome, i) => {
+    for (const symbol of batches[i]) {
+      const result = outcome.status === 'fulfilled' ? outcome.value.get(symbol) : undefined
+      if (typeof result === 'object') {
+        quotes.push(result)
+      } else {
+        const error = outcome.status === 'rejected' ? String(outcome.reason?.message || outcome.reason) : result
+        errors.push({ symbol, error: error || 'Unknown symbol' })
+      }
+    }
+  })
+
+  return { quotes, errors, failed: settled.some(outcome => outcome.status === 'rejected') }
+}
@@ -0,0 +1,52 @@
+import { ApiError } from './errors'
+
+const UPSTREAM_TIMEOUT = 4000
+const RETRIES = 1
+const RETRY_DELAY = 300
+
+const isRetryable = (status: number) => status === 429 || status >= 500
+
+/**
+ * GET JSON from an upstream API with a timeout, retrying once on network
+ * errors, timeouts, 429 and 5xx. Upstream failures become ApiErrors: 404
+ * stays NOT_FOUND, timeouts are UPSTREAM_TIMEOUT and anything else is
+ * UPSTREAM_ERROR.
+ */
+export async function fetchUpstream(url: string): Promise<unknown> {
+  let lastError: ApiError = new ApiError(502, 'UPSTREAM_ERROR', 'Upstream request failed')
+
+  for (let attempt = 0; attempt <= RETRIES; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * attempt))
+    }
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: { 'Accept': 'application/json', 'User-Agent': 'Mozilla/5.0' },
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+      })
+    } catch (error) {
+      lastError = error instanceof Error && error.name === 'TimeoutError'
+        ? new ApiError(504, 'UPSTREAM_TIMEOUT', 'Upstream request timed out')
+        : new ApiError(502, 'UPSTREAM_ERROR', 'Upstream request failed')
+      continue
+    }
+
+    if (response.ok) {
+      try {
+        return await response.json()
+      } catch {
+        throw new ApiError(502, 'UPSTREAM_ERROR', 'Upstream sent invalid JSON')
+      }
+    }
+    if (response.status === 404) {
+      throw new ApiError(404, 'NOT_FOUND', 'Symbol not found')
+    }
+
+    lastError = new ApiError(502, 'UPSTREAM_ERROR', `Upstream responded ${response.status}`)
+    if (!isRetryable(response.status)) break
+  }
+
+  throw lastError
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod'
+import { createHandler } from './_lib/handler'
+import { symbolListParam } from './_lib/params'
+import { fetchQuotes } from './_lib/spark'
+
+const MAX_SYMBOLS = 100
+
+/**
+ * GET /api/quotes?symbols=AAPL,VOD.L
+ * Responds { quotes: LivePrice[], errors: { symbol, error }[] }; a symbol
+ * that can't be priced is listed in errors instead of failing the request.
+ */
+export default createHandler({
+  query: z.object({ symbols: symbolListParam(MAX_SYMBOLS) }),
+  maxAge: 30,
+  run: async ({ symbols }) => {
+    const { quotes, errors, failed } = await fetchQuotes(symbols)
+
+    // Don't let a cache keep an upstream outage
+    if (failed) {
+      return { status: quotes.length > 0 ? 200 : 502, body: { quotes, errors }, maxAge: 0 }
+    }
+    return { body: { quotes, errors } }
+  },
+})
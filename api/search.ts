@@ -0,0 +1,66 @@
+import { z } from 'zod'
+import { createHandler } from './_lib/handler'
+import { fetchUpstream } from './_lib/upstream'
+
+const YAHOO_SEARCH_URL = 'https://query1.finance.yahoo.com/v1/finance/search'
+const MAX_RESULTS = 10
+
+// types= values and the Yahoo quote types they match
+const SEARCH_TYPES = {
+  equity: 'EQUITY',
+  etf: 'ETF',
+  fund: 'MUTUALFUND',
+  index: 'INDEX',
+} as const
+
+type SearchType = keyof typeof SEARCH_TYPES
+
+interface YahooSearchQuote {
+  symbol?: string
+  longname?: string
+  shortname?: string
+  quoteType?: string
+  exchange?: string
+  exchDisp?: string
+}
+
+/**
+ * GET /api/search?q=apple&types=equity,etf
+ * Stocks, ETFs, funds and indices matching a ticker or company name:
+ * { results: { symbol, name, type, exchange, exchangeCode }[] }. types
+ * defaults to all four.
+ */
+export default createHandler({
+  query: z.object({
+    q: z.preprocess(
+      value => Array.isArray(value) ? value[0] : value,
+      z.string({ required_error: 'Missing q' }).trim().min(1, 'Missing q').max(64, 'q is too long')
+    ),
+    types: z.preprocess(
+      value => Array.isArray(value) ? value.join(',') : value,
+      z.string()
+        .transform(value => value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))
+        .pipe(z.array(z.enum(Object.keys(SEARCH_TYPES) as [SearchType, ...SearchType[]])).min(1, 'Missing types'))
+        .optional()
+    ),
+  }),
+  maxAge: 600,
+  run: async ({ q, types }) => {
+    const wanted = new Set<string>((types || Object.keys(SEARCH_TYPES) as SearchType[]).map(t => SEARCH_TYPES[t]))
+    const params = new URLSearchParams({ q, quotesCount: String(MAX_RESULTS * 2), newsCount: '0' })
+    const data = await fetchUpstream(`${YAHOO_SEARCH_URL}?${params}`) as { quotes?: YahooSearchQuote[] }
+
+    const results = (Array.isArray(data?.quotes) ? data.quotes : [])
+      .filter(quote => quote.symbol && quote.quoteType && wanted.has(quote.quoteType))
+      .slice(0, MAX_RESULTS)
+      .map(quote => ({
+        symbol: quote.symbol,
+        name: quote.longname || quote.shortname || quote.symbol,
+        type: quote.quoteType,
+        exchange: quote.exchDisp || quote.exchange || '',
+        exchangeCode: quote.exchange || '',
+      }))
+
+    return { body: { results } }
+  },
+})
@@ -0,0 +1,84 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { z } from 'zod'
+import type { LivePrice } from '../src/types/portfolio'
+import { acceptRequest, parseQuery } from './_lib/handler'
+import { getCached, setCached } from './_lib/cache'
+import { symbolListParam } from './_lib/params'
+import { fetchQuotes } from './_lib/spark'
+
+const MAX_SYMBOLS = 100
+const TICK_INTERVAL = 5000
+// Functions can't stay open for long: end the stream before maxDuration and
+// let the browser's EventSource reconnect
+const STREAM_DURATION = 50 * 1000
+const RECONNECT_DELAY = 1000
+
+export const config = { maxDuration: 60 }
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Latest prices, shared between streams on this instance for one tick
+ */
+async function getTick(symbols: string[]) {
+  const key = `stream:${symbols.join(',')}`
+  const cached = getCached(key)
+  if (cached) return cached.body as Awaited<ReturnType<typeof fetchQuotes>>
+
+  const tick = await fetchQuotes(symbols)
+  if (!tick.failed) setCached(key, 200, tick, TICK_INTERVAL / 1000)
+  return tick
+}
+
+/**
+ * GET /api/stream?symbols=AAPL,VOD.L
+ * Server-sent events: a `price` event with a LivePrice whenever a symbol's
+ * price changes (every symbol on connect), and `quote-error` events for
+ * symbols that can't be priced. The stream ends after about a minute;
+ * EventSource reconnects on its own.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!acceptRequest(req, res)) return
+
+  const params = parseQuery(z.object({ symbols: symbolListParam(MAX_SYMBOLS) }), req, res)
+  if (params === null) return
+  const { symbols } = params
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+  res.write(`retry: ${RECONNECT_DELAY}\n\n`)
+
+  let closed = false
+  req.on('close', () => { closed = true })
+
+  const sent = new Map<string, number>()
+  const reported = new Set<string>()
+  const endAt = Date.now() + STREAM_DURATION
+
+  while (!closed && Date.now() < endAt) {
+    try {
+      const { quotes, errors } = await getTick(symbols)
+      const changed = quotes.filter((quote: LivePrice) => sent.get(quote.ticker) !== quote.price)
+
+      for (const quote of changed) {
+        sent.set(quote.ticker, quote.price)
+        res.write(`event: price\ndata: ${JSON.stringify(quote)}\n\n`)
+      }
+      for (const error of errors.filter(e => !reported.has(e.symbol))) {
+        reported.add(error.symbol)
+        res.write(`event: quote-error\ndata: ${JSON.stringify(error)}\n\n`)
+      }
+      // Comment line, so proxies don't close a quiet connection
+      if (changed.length === 0) res.write(': keep-alive\n\n')
+    } catch (error) {
+      console.error('Price stream tick failed:', error)
+    }
+    await sleep(TICK_INTERVAL)
+  }
+
+  res.end()
+}
@@ -1,19 +1,21 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { z } from 'zod'
+import { createHandler } from './_lib/handler'
+import { fetchUpstream } from './_lib/upstream'
+import { symbolParam } from './_lib/params'
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  const { symbol } = req.query
+const YAHOO_SEARCH_URL = 'https://query1.finance.yahoo.com/v1/finance/search'
 
-  if (!symbol) {
-    return res.status(400).json({ error: 'Missing symbol' })
-  }
-
-  const url = `https://query1.finance.yahoo.com/v1/finance/search?q=${symbol}&newsCount=5`
-  const r = await fetch(url)
-  const data = await r.json()
-
-  res.setHeader('Cache-Control', 's-maxage=300')
-  res.status(200).json(data.news || [])
-}
+/**
+ * GET /api/yahoo-news?symbol=AAPL
+ * Yahoo's news items for a symbol (an empty list when it has none)
+ */
+export default createHandler({
+  query: z.object({ symbol: symbolParam }),
+  maxAge: 300,
+  run: async ({ symbol }) => {
+    const data = await fetchUpstream(`${YAHOO_SEARCH_URL}?q=${encodeURIComponent(symbol)}&newsCount=5`) as {
+      news?: unknown
+    }
+    return { body: Array.isArray(data?.news) ? data.news : [] }
+  },
+})
@@ -1,19 +1,39 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { z } from 'zod'
+import { createHandler } from './_lib/handler'
+import { ApiError } from './_lib/errors'
+import { fetchUpstream } from './_lib/upstream'
+import { intervalParam, periodParam, rangeParam, symbolParam } from './_lib/params'
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  const { symbol, range = '1y', interval = '1d' } = req.query
+const YAHOO_CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart'
 
-  if (!symbol) {
-    return res.status(400).json({ error: 'Missing symbol' })
-  }
+/**
+ * GET /api/yahoo-price?symbol=AAPL&range=1y&interval=1d
+ * Yahoo chart JSON. period1 (and period2, unix seconds) take the place of range.
+ */
+export default createHandler({
+  query: z.object({
+    symbol: symbolParam,
+    range: rangeParam.optional(),
+    interval: intervalParam.optional(),
+    period1: periodParam.optional(),
+    period2: periodParam.optional(),
+  }),
+  maxAge: 300,
+  run: async ({ symbol, range = '1y', interval = '1d', period1, period2 }) => {
+    const params = new URLSearchParams({ interval })
+    if (period1 !== undefined) {
+      params.set('period1', String(period1))
+      params.set('period2', String(period2 ?? Math.floor(Date.now() / 1000)))
+    } else {
+      params.set('range', range)
+    }
 
-  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=${range}&interval=${interval}`
-  const r = await fetch(url)
-  const data = await r.json()
-
-  res.setHeader('Cache-Control', 's-maxage=300')
-  res.status(200).json(data)
-}
+    const data = await fetchUpstream(`${YAHOO_CHART_URL}/${encodeURIComponent(symbol)}?${params}`) as {
+      chart?: { result?: unknown[] | null }
+    }
+    if (!data?.chart?.result?.length) {
+      throw new ApiError(404, 'NOT_FOUND', `No price data for ${symbol}`)
+    }
+    return { body: data }
+  },
+})
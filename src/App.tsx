@@ -4,10 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { PreferencesProvider } from "@/hooks/use-preferences";
+import { PortfoliosProvider } from "@/hooks/use-portfolios";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Holdings from "./pages/Holdings";
 import Settings from "./pages/Settings";
 import AssetDetail from "./pages/AssetDetail";
+import Dividends from "./pages/Dividends";
+import Fees from "./pages/Fees";
+import Reconcile from "./pages/Reconcile";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -16,32 +21,51 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={
-              <ProtectedRoute>
-                <Holdings />
-              </ProtectedRoute>
-            } />
-            <Route path="/settings" element={
-              <ProtectedRoute>
-                <Settings />
-              </ProtectedRoute>
-            } />
-            <Route path="/asset/:symbol" element={
-              <ProtectedRoute>
-                <AssetDetail />
-              </ProtectedRoute>
-            } />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <PreferencesProvider>
+        <PortfoliosProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/" element={
+                  <ProtectedRoute>
+                    <Holdings />
+                  </ProtectedRoute>
+                } />
+                <Route path="/settings" element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                } />
+                <Route path="/dividends" element={
+                  <ProtectedRoute>
+                    <Dividends />
+                  </ProtectedRoute>
+                } />
+                <Route path="/fees" element={
+                  <ProtectedRoute>
+                    <Fees />
+                  </ProtectedRoute>
+                } />
+                <Route path="/reconcile" element={
+                  <ProtectedRoute>
+                    <Reconcile />
+                  </ProtectedRoute>
+                } />
+                <Route path="/asset/:symbol" element={
+                  <ProtectedRoute>
+                    <AssetDetail />
+                  </ProtectedRoute>
+                } />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </PortfoliosProvider>
+      </PreferencesProvider>
     </ThemeProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { ChevronDown, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { GradientCard } from '@/components/GradientCard';
+import { formatCurrency, formatPercent } from '@/lib/calculations';
+import { calculateCashFlows } from '@/lib/history';
+import { cn } from '@/lib/utils';
+import { useBenchmark } from '@/hooks/use-benchmark';
+import { usePortfolioHistory } from '@/hooks/use-portfolio-history';
+import { usePreferences } from '@/hooks/use-preferences';
+import type {
+  BenchmarkMetrics,
+  CashEvent,
+  ChartRange,
+  CorporateAction,
+  FxConverter,
+  Trade,
+} from '@/types/portfolio';
+
+const BENCHMARK_PRESETS = [
+  { symbol: 'SPY', label: 'S&P 500 (SPY)' },
+  { symbol: 'QQQ', label: 'Nasdaq 100 (QQQ)' },
+  { symbol: 'VWCE.DE', label: 'FTSE All-World (VWCE)' },
+];
+
+/**
+ * Dropdown for the benchmark symbol, stored in preferences
+ */
+export function BenchmarkSelector() {
+  const { preferences, updatePreferences } = usePreferences();
+  const [custom, setCustom] = useState('');
+  const current = preferences.benchmark;
+
+  const select = (symbol: string) => updatePreferences({ benchmark: symbol });
+
+  const handleCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = custom.trim().toUpperCase();
+    if (!symbol) return;
+    select(symbol);
+    setCustom('');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 text-xs rounded-lg text-muted-foreground hover:text-foreground hover:bg-primary/10">
+          vs {current || 'None'} <ChevronDown className="w-3 h-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="glass-strong border-border/30 w-56">
+        <DropdownMenuItem onClick={() => select('')}>
+          No benchmark
+          {!current && <Check className="w-3.5 h-3.5 ml-auto" />}
+        </DropdownMenuItem>
+        {BENCHMARK_PRESETS.map(preset => (
+          <DropdownMenuItem key={preset.symbol} onClick={() => select(preset.symbol)}>
+            {preset.label}
+            {current === preset.symbol && <Check className="w-3.5 h-3.5 ml-auto" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <form onSubmit={handleCustom} className="p-1">
+          <Input
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder="Other symbol, e.g. IWDA.AS"
+            className="h-8 text-xs rounded-lg uppercase"
+          />
+        </form>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/**
+ * Benchmark return, excess return, tracking difference and alpha
+ */
+export function BenchmarkStats({ metrics }: { metrics: BenchmarkMetrics }) {
+  const stats = [
+    { label: metrics.symbol, value: metrics.benchmarkReturn, hint: 'Benchmark return' },
+    { label: 'Excess', value: metrics.excessReturn, hint: 'Your value vs same cash in benchmark' },
+    { label: 'Tracking diff.', value: metrics.trackingDifference, hint: 'Time-weighted return difference' },
+    { label: 'Alpha', value: metrics.alpha, hint: metrics.beta === null ? 'Not enough data' : `Beta ${metrics.beta.toFixed(2)}` },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {stats.map(stat => (
+        <div key={stat.label} title={stat.hint}>
+          <p className="text-[10px] text-muted-foreground font-semibold uppercase tracking-wider">{stat.label}</p>
+          <p className={cn(
+            "text-sm font-bold",
+            stat.value === null ? "text-muted-foreground" : stat.value >= 0 ? "text-profit" : "text-loss"
+          )}>
+            {stat.value === null ? '—' : formatPercent(stat.value)}
+          </p>
+          <p className="text-[10px] text-muted-foreground truncate">{stat.hint}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface BenchmarkComparisonProps {
+  trades: Trade[];
+  corporateActions?: CorporateAction[];
+  cashEvents?: CashEvent[];
+  fx: FxConverter;
+  range: ChartRange;
+}
+
+/**
+ * Value of the given trades against the same cash flows invested in the benchmark
+ */
+export function BenchmarkComparison({
+  trades,
+  corporateActions = [],
+  cashEvents = [],
+  fx,
+  range,
+}: BenchmarkComparisonProps) {
+  const { preferences } = usePreferences();
+  const history = usePortfolioHistory(trades, range, fx, corporateActions);
+
+  const flows = useMemo(() => {
+    return calculateCashFlows(trades, fx, corporateActions, cashEvents);
+  }, [trades, fx, corporateActions, cashEvents]);
+
+  const benchmark = useBenchmark(preferences.benchmark, range, history.points, flows, fx, history.since);
+
+  const chartData = useMemo(() => {
+    return history.points.map((point, i) => ({
+      time: point.time,
+      value: point.value,
+      benchmark: benchmark.series[i]?.value,
+      label: new Date(point.time).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    }));
+  }, [history.points, benchmark.series]);
+
+  const isLoading = history.isLoading || benchmark.isLoading;
+
+  return (
+    <GradientCard className="p-4 space-y-3" glowOnHover>
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">vs Benchmark</h3>
+        <BenchmarkSelector />
+      </div>
+
+      {!preferences.benchmark ? (
+        <p className="text-sm text-muted-foreground">Pick a benchmark to compare against</p>
+      ) : isLoading && chartData.length === 0 ? (
+        <Skeleton className="h-40 w-full rounded-xl" />
+      ) : chartData.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No price history for this range</p>
+      ) : (
+        <>
+          <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 4, right: 4, left: 0, bottom: 0 }}>
+                <XAxis
+                  dataKey="label"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 9 }}
+                  interval="preserveStartEnd"
+                />
+                <YAxis hide domain={['auto', 'auto']} />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const data = payload[0].payload;
+                      return (
+                        <div className="bg-card border border-border/50 rounded-xl px-3 py-2 shadow-soft-lg text-xs space-y-0.5">
+                          <p className="font-semibold">You: {formatCurrency(data.value, fx.baseCurrency)}</p>
+                          {data.benchmark !== undefined && (
+                            <p className="text-muted-foreground">
+                              {preferences.benchmark}: {formatCurrency(data.benchmark, fx.baseCurrency)}
+                            </p>
+                          )}
+                          <p className="text-muted-foreground">{data.label}</p>
+                        </div>
+                      );
+                    }
+                    return null;
+                  }}
+                />
+                <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                <Line
+                  type="monotone"
+                  dataKey="benchmark"
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          {benchmark.metrics && <BenchmarkStats metrics={benchmark.metrics} />}
+        </>
+      )}
+    </GradientCard>
+  );
+}
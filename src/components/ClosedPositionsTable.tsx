@@ -0,0 +1,137 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { RealizedPosition, GainTerm } from '@/types/portfolio';
+import { formatCurrency, formatPercent } from '@/lib/calculations';
+import { cn } from '@/lib/utils';
+import { AssetLogo } from '@/components/AssetLogo';
+
+interface ClosedPositionsTableProps {
+  positions: RealizedPosition[];
+  baseCurrency?: string;
+}
+
+const TERM_LABELS: Record<GainTerm, string> = {
+  short: 'Short-term',
+  long: 'Long-term',
+  mixed: 'Mixed',
+};
+
+export function ClosedPositionsTable({ positions, baseCurrency = 'USD' }: ClosedPositionsTableProps) {
+  const navigate = useNavigate();
+
+  // Most recently closed first
+  const sortedPositions = useMemo(() => {
+    return [...positions].sort((a, b) => b.closedAt.localeCompare(a.closedAt));
+  }, [positions]);
+
+  const totalRealized = positions.reduce((sum, p) => sum + p.realizedGain, 0);
+
+  if (positions.length === 0) return null;
+
+  return (
+    <div className="glass rounded-2xl overflow-hidden">
+      {/* Header with count and total */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border/30">
+        <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+          {positions.length} Closed Position{positions.length > 1 ? 's' : ''}
+        </span>
+        <span className={cn("text-xs font-semibold", totalRealized >= 0 ? "text-profit" : "text-loss")}>
+          {totalRealized >= 0 ? '+' : ''}{formatCurrency(totalRealized, baseCurrency)} realized
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[600px]">
+          {/* Table Header Row */}
+          <div className="grid grid-cols-[minmax(180px,2fr)_repeat(5,1fr)] bg-secondary/30">
+            <div className="py-2.5 px-4 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Security
+            </div>
+            <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Proceeds
+            </div>
+            <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Cost
+            </div>
+            <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Realized
+            </div>
+            <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Held
+            </div>
+            <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Term
+            </div>
+          </div>
+
+          {/* Table Body */}
+          <div className="divide-y divide-border/20">
+            {sortedPositions.map((position) => (
+              <div
+                key={position.ticker}
+                onClick={() => navigate(`/asset/${position.ticker}`)}
+                className="grid grid-cols-[minmax(180px,2fr)_repeat(5,1fr)] cursor-pointer group hover:bg-primary/5 transition-all duration-300"
+              >
+                {/* Security Cell */}
+                <div className="py-3.5 px-4">
+                  <div className="flex items-center gap-3">
+                    <AssetLogo ticker={position.ticker} name={position.name} size="sm" />
+                    <div className="min-w-0 flex-1">
+                      <p className="font-semibold text-sm truncate leading-tight group-hover:text-primary transition-colors">
+                        {position.name}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground truncate font-medium">
+                        {position.ticker} · closed {new Date(position.closedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Proceeds */}
+                <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                  <p className="text-sm font-medium">{formatCurrency(position.proceeds, baseCurrency)}</p>
+                </div>
+
+                {/* Cost */}
+                <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                  <p className="text-sm text-muted-foreground">{formatCurrency(position.costBasis, baseCurrency)}</p>
+                </div>
+
+                {/* Realized Gain */}
+                <div className="py-3.5 px-2 text-center flex flex-col items-center justify-center">
+                  <p className={cn(
+                    "text-sm font-semibold",
+                    position.realizedGain >= 0 ? "text-profit" : "text-loss"
+                  )}>
+                    {position.realizedGain >= 0 ? '+' : ''}{formatCurrency(position.realizedGain, baseCurrency)}
+                  </p>
+                  <p className={cn(
+                    "text-[10px] font-medium",
+                    position.realizedGainPercent >= 0 ? "text-profit/80" : "text-loss/80"
+                  )}>
+                    {formatPercent(position.realizedGainPercent)}
+                  </p>
+                </div>
+
+                {/* Holding Period */}
+                <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                  <p className="text-sm text-muted-foreground">{position.holdingPeriodDays}d</p>
+                </div>
+
+                {/* Term */}
+                <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                  <span className={cn(
+                    "px-2 py-0.5 rounded-full text-[10px] font-semibold",
+                    position.term === 'long' ? "bg-primary/15 text-primary" : "bg-secondary text-muted-foreground"
+                  )}>
+                    {TERM_LABELS[position.term]}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
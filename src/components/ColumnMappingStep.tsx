@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { BookmarkCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ColumnField, ColumnMapping } from '@/services/importService';
+import { saveColumnTemplate, type ColumnTemplate } from '@/services/columnTemplateService';
+
+// Select value for a field without a column
+const NONE_VALUE = 'none';
+
+const FIELD_LABELS: Record<ColumnField, string> = {
+  action: 'Action',
+  ticker: 'Ticker',
+  name: 'Name',
+  isin: 'ISIN',
+  shares: 'Shares',
+  pricePerShare: 'Price per share',
+  priceCurrency: 'Price currency',
+  total: 'Total',
+  totalCurrency: 'Total currency',
+  withholdingTax: 'Withholding tax',
+  withholdingTaxCurrency: 'Withholding tax currency',
+  exchangeRate: 'Exchange rate',
+  exchange: 'Exchange',
+  time: 'Date / time',
+  id: 'Transaction ID',
+};
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  samples: string[][];
+  initialMapping: ColumnMapping;
+  template: ColumnTemplate | null;    // Saved template for these headers, if one was applied
+  onBack: () => void;
+  onConfirm: (mapping: ColumnMapping) => void;
+}
+
+/**
+ * Shows which column each field was matched to and lets the user reassign
+ * them, optionally saving the result as a template for files with the same headers
+ */
+export function ColumnMappingStep({ headers, samples, initialMapping, template, onBack, onConfirm }: ColumnMappingStepProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [templateName, setTemplateName] = useState(template?.name || '');
+
+  const setField = (field: ColumnField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === NONE_VALUE ? null : Number(value) }));
+  };
+
+  // A few non-empty values so similar columns can be told apart
+  const getSamples = (index: number) => {
+    return samples.map(row => row[index]).filter(Boolean).slice(0, 2).join(', ');
+  };
+
+  const handleConfirm = () => {
+    if (templateName.trim()) {
+      saveColumnTemplate(templateName, headers, mapping);
+    }
+    onConfirm(mapping);
+  };
+
+  return (
+    <div className="space-y-4">
+      {template && (
+        <div className="flex items-center gap-2 p-2 rounded bg-primary/10 border border-primary/20 text-xs">
+          <BookmarkCheck className="h-4 w-4 text-primary flex-shrink-0" />
+          <span>Using saved template "{template.name}"</span>
+        </div>
+      )}
+
+      <div className="max-h-[45vh] overflow-y-auto space-y-2 pr-1">
+        {(Object.keys(FIELD_LABELS) as ColumnField[]).map((field) => (
+          <div key={field} className="grid grid-cols-[120px_1fr] items-center gap-2">
+            <Label className="text-xs">{FIELD_LABELS[field]}</Label>
+            <Select
+              value={mapping[field] !== null ? String(mapping[field]) : NONE_VALUE}
+              onValueChange={(value) => setField(field, value)}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE_VALUE}>Not in file</SelectItem>
+                {headers.map((header, i) => (
+                  <SelectItem key={i} value={String(i)}>
+                    {header || `Column ${i + 1}`}
+                    {getSamples(i) && (
+                      <span className="text-muted-foreground"> · {getSamples(i)}</span>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="template-name" className="text-xs">Save as template (optional)</Label>
+        <Input
+          id="template-name"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="e.g. My broker export"
+          className="h-8 text-xs"
+        />
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={onBack}>
+          Back
+        </Button>
+        <Button onClick={handleConfirm}>
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import { Plus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toLocalDate } from '@/lib/locale';
+import type { CorporateAction, CorporateActionType } from '@/types/portfolio';
+
+type NewCorporateAction = Omit<CorporateAction, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
+
+interface CorporateActionDialogProps {
+  ticker: string;
+  onSave: (action: NewCorporateAction) => Promise<void>;
+}
+
+const ACTION_TYPES: { value: CorporateActionType; label: string; description: string }[] = [
+  { value: 'SPLIT', label: 'Stock split', description: 'Forward or reverse split' },
+  { value: 'TICKER_CHANGE', label: 'Ticker change', description: 'Same security, new symbol' },
+  { value: 'SPINOFF', label: 'Spinoff', description: 'New shares split off from this company' },
+  { value: 'MERGER', label: 'Merger', description: 'Acquired for stock or cash' },
+];
+
+const today = () => toLocalDate(new Date());
+
+export function CorporateActionDialog({ ticker, onSave }: CorporateActionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [type, setType] = useState<CorporateActionType>('SPLIT');
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [newShares, setNewShares] = useState('');
+  const [oldShares, setOldShares] = useState('1');
+  const [newTicker, setNewTicker] = useState('');
+  const [newName, setNewName] = useState('');
+  const [costAllocation, setCostAllocation] = useState('');
+  const [consideration, setConsideration] = useState<'stock' | 'cash'>('stock');
+  const [cashPerShare, setCashPerShare] = useState('');
+  const [currency, setCurrency] = useState('USD');
+
+  const resetForm = () => {
+    setType('SPLIT');
+    setEffectiveDate(today());
+    setNewShares('');
+    setOldShares('1');
+    setNewTicker('');
+    setNewName('');
+    setCostAllocation('');
+    setConsideration('stock');
+    setCashPerShare('');
+    setCurrency('USD');
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) setTimeout(resetForm, 200);
+  };
+
+  /**
+   * Validate the form for the selected type and build the action
+   */
+  const buildAction = (): NewCorporateAction | string => {
+    const date = new Date(`${effectiveDate}T00:00:00`);
+    if (isNaN(date.getTime())) return 'Enter a valid effective date';
+
+    const base = {
+      brokerTransactionId: '',
+      type,
+      effectiveDate: date.toISOString(),
+      ticker,
+      ratio: 1,
+      source: 'manual' as const,
+    };
+    const ratio = parseFloat(newShares) / parseFloat(oldShares);
+    const target = newTicker.trim().toUpperCase();
+
+    switch (type) {
+      case 'SPLIT':
+        if (!(ratio > 0)) return 'Enter the number of new and old shares';
+        return { ...base, ratio };
+
+      case 'TICKER_CHANGE':
+        if (!target || target === ticker) return 'Enter the new ticker';
+        return { ...base, newTicker: target, newName: newName.trim() || undefined };
+
+      case 'SPINOFF': {
+        const allocation = parseFloat(costAllocation);
+        if (!target) return 'Enter the ticker of the spun-off company';
+        if (!(ratio > 0)) return 'Enter how many new shares you received';
+        if (isNaN(allocation) || allocation < 0 || allocation > 100) {
+          return 'Cost allocation must be between 0 and 100%';
+        }
+        return {
+          ...base,
+          ratio,
+          newTicker: target,
+          newName: newName.trim() || undefined,
+          costAllocation: allocation / 100,
+        };
+      }
+
+      case 'MERGER': {
+        if (consideration === 'cash') {
+          const cash = parseFloat(cashPerShare);
+          if (!(cash >= 0)) return 'Enter the cash paid per share';
+          return { ...base, ratio: 0, cashPerShare: cash, currency: currency.trim().toUpperCase() || undefined };
+        }
+        if (!target) return 'Enter the acquirer ticker';
+        if (!(ratio > 0)) return 'Enter the exchange ratio';
+        return { ...base, ratio, newTicker: target, newName: newName.trim() || undefined };
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const action = buildAction();
+    if (typeof action === 'string') {
+      setError(action);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(action);
+      handleOpenChange(false);
+    } catch (err) {
+      console.error('Error saving corporate action:', err);
+      setError('Could not save the corporate action');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const needsRatio = type === 'SPLIT' || type === 'SPINOFF' || (type === 'MERGER' && consideration === 'stock');
+  const needsTarget = type !== 'SPLIT' && !(type === 'MERGER' && consideration === 'cash');
+  const ratioLabels = {
+    SPLIT: ['New shares', 'Old shares'],
+    SPINOFF: ['New shares received', 'Per parent shares'],
+    MERGER: ['Acquirer shares', `Per ${ticker} shares`],
+    TICKER_CHANGE: ['', ''],
+  }[type];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 rounded-lg text-xs hover:bg-primary/10">
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Corporate Action · {ticker}</DialogTitle>
+          <DialogDescription>
+            Record a split, ticker change, spinoff or merger your broker export doesn't include.
+            Your trades are left unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as CorporateActionType)}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTION_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="ca-date" className="text-xs">Effective date</Label>
+              <Input
+                id="ca-date"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            {ACTION_TYPES.find(option => option.value === type)?.description}
+          </p>
+
+          {type === 'MERGER' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Paid in</Label>
+              <Select value={consideration} onValueChange={(value) => setConsideration(value as 'stock' | 'cash')}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stock">Acquirer stock</SelectItem>
+                  <SelectItem value="cash">Cash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {needsTarget && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-ticker" className="text-xs">
+                  {type === 'MERGER' ? 'Acquirer ticker' : 'New ticker'}
+                </Label>
+                <Input
+                  id="ca-ticker"
+                  value={newTicker}
+                  onChange={(e) => setNewTicker(e.target.value)}
+                  className="rounded-xl uppercase"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-name" className="text-xs">Name (optional)</Label>
+                <Input
+                  id="ca-name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+            </div>
+          )}
+
+          {needsRatio && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-new" className="text-xs">{ratioLabels[0]}</Label>
+                <Input
+                  id="ca-new"
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={newShares}
+                  onChange={(e) => setNewShares(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-old" className="text-xs">{ratioLabels[1]}</Label>
+                <Input
+                  id="ca-old"
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={oldShares}
+                  onChange={(e) => setOldShares(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'SPINOFF' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="ca-allocation" className="text-xs">Cost basis moved to new shares (%)</Label>
+              <Input
+                id="ca-allocation"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                max="100"
+                step="any"
+                value={costAllocation}
+                onChange={(e) => setCostAllocation(e.target.value)}
+                className="rounded-xl"
+              />
+              <p className="text-[10px] text-muted-foreground">
+                Usually published by the company (e.g. in an IRS Form 8937)
+              </p>
+            </div>
+          )}
+
+          {type === 'MERGER' && consideration === 'cash' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-cash" className="text-xs">Cash per share</Label>
+                <Input
+                  id="ca-cash"
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={cashPerShare}
+                  onChange={(e) => setCashPerShare(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="ca-currency" className="text-xs">Currency</Label>
+                <Input
+                  id="ca-currency"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="rounded-xl uppercase"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
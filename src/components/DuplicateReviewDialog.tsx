@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCurrency, formatQuantity } from '@/lib/calculations';
+import { getSourceName } from '@/services/brokers';
+import type { LikelyDuplicate } from '@/services/importService';
+import { cn } from '@/lib/utils';
+
+interface DuplicateReviewDialogProps {
+  duplicates: LikelyDuplicate[] | null;   // Open while set
+  onConfirm: (acceptedIds: Set<string>) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user decide, per trade, whether an imported trade that looks like
+ * one already saved from another source is imported anyway. Skipped by default.
+ */
+export function DuplicateReviewDialog({ duplicates, onConfirm, onCancel }: DuplicateReviewDialogProps) {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setAccepted(new Set());
+  }, [duplicates]);
+
+  const toggle = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(accepted);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!duplicates} onOpenChange={(open) => !open && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            These trades match trades you already have from another source. Tick the ones to import anyway.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {duplicates?.map(({ trade, existing }) => {
+            const id = trade.brokerTransactionId;
+            return (
+              <label
+                key={id}
+                className={cn(
+                  "flex items-start gap-3 p-3 rounded-xl border border-border/30 cursor-pointer",
+                  accepted.has(id) && "bg-primary/5 border-primary/30"
+                )}
+              >
+                <Checkbox checked={accepted.has(id)} onCheckedChange={() => toggle(id)} className="mt-0.5" />
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-semibold">
+                    <span className={trade.action === 'BUY' ? 'text-profit' : 'text-loss'}>{trade.action}</span>
+                    {' '}{formatQuantity(trade.shares)} {trade.ticker} @ {formatCurrency(trade.pricePerShare, trade.priceCurrency)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    In file: {new Date(trade.timestamp).toLocaleString()}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Saved from {getSourceName(existing.source)}: {new Date(existing.timestamp).toLocaleString()}
+                    {' '}@ {formatCurrency(existing.pricePerShare, existing.priceCurrency)}
+                  </p>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel import
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {accepted.size > 0 ? `with ${accepted.size}` : 'without these'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Holding } from '@/types/portfolio';
+import type { Holding, LivePrice } from '@/types/portfolio';
 import { formatCurrency, formatPercent, formatQuantity } from '@/lib/calculations';
 import { cn } from '@/lib/utils';
 import { ArrowUpDown, ArrowUp, ArrowDown, Trash2, ChevronRight } from 'lucide-react';
@@ -24,15 +24,50 @@ type SortDirection = 'asc' | 'desc';
 interface HoldingsTableProps {
   holdings: Holding[];
   isLoading?: boolean;
+  baseCurrency?: string;
+  prices?: Map<string, LivePrice>;      // Live prices, to flash rows whose price changes
   onDeleteHoldings?: (tickers: string[]) => void;
 }
 
-export function HoldingsTable({ holdings, isLoading, onDeleteHoldings }: HoldingsTableProps) {
+interface PriceFlash {
+  direction: 'up' | 'down';
+  key: number;                          // New for each change, so the animation restarts
+}
+
+export function HoldingsTable({ holdings, isLoading, baseCurrency = 'USD', prices, onDeleteHoldings }: HoldingsTableProps) {
   const navigate = useNavigate();
   const [sortField, setSortField] = useState<SortField>('allocation');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedTickers, setSelectedTickers] = useState<Set<string>>(new Set());
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [flashes, setFlashes] = useState<Map<string, PriceFlash>>(new Map());
+  const previousPrices = useRef<Map<string, LivePrice> | undefined>(undefined);
+
+  // Flash rows whose live price moved (not the switch from placeholder prices)
+  useEffect(() => {
+    if (!prices) return;
+
+    const changed = new Map<string, PriceFlash>();
+    prices.forEach((price, ticker) => {
+      const previous = previousPrices.current?.get(ticker);
+      if (previous && previous.source !== 'mock' && previous.price !== price.price) {
+        changed.set(ticker, { direction: price.price > previous.price ? 'up' : 'down', key: price.timestamp });
+      }
+    });
+    previousPrices.current = prices;
+
+    if (changed.size > 0) {
+      setFlashes(prev => new Map([...prev, ...changed]));
+    }
+  }, [prices]);
+
+  const clearFlash = (ticker: string) => {
+    setFlashes(prev => {
+      const next = new Map(prev);
+      next.delete(ticker);
+      return next;
+    });
+  };
 
   const isEditMode = selectedTickers.size > 0;
 
@@ -245,6 +280,18 @@ export function HoldingsTable({ holdings, isLoading, onDeleteHoldings }: Holding
                 )}
                 style={{ animationDelay: `${index * 40}ms` }}
               >
+                {flashes.has(holding.ticker) && (
+                  <div
+                    key={flashes.get(holding.ticker)?.key}
+                    className={cn(
+                      "absolute inset-0 pointer-events-none animate-price-flash",
+                      flashes.get(holding.ticker)?.direction === 'up' ? "bg-profit/15" : "bg-loss/15"
+                    )}
+                    onAnimationEnd={() => clearFlash(holding.ticker)}
+                    aria-hidden="true"
+                  />
+                )}
+
                 {/* LIQUID ALLOCATION BACKGROUND - Gradient version */}
                 <div 
                   className="absolute inset-y-1 left-1 rounded-full liquid-allocation pointer-events-none transition-all duration-500"
@@ -305,12 +352,12 @@ export function HoldingsTable({ holdings, isLoading, onDeleteHoldings }: Holding
 
                 {/* Avg Cost */}
                 <div className="py-3.5 px-2 text-center flex items-center justify-center relative z-10">
-                  <p className="text-sm text-muted-foreground">{formatCurrency(holding.averageBuyPrice)}</p>
+                  <p className="text-sm text-muted-foreground">{formatCurrency(holding.averageBuyPrice, holding.currency)}</p>
                 </div>
 
                 {/* Current Value */}
                 <div className="py-3.5 px-2 text-center flex items-center justify-center relative z-10">
-                  <p className="text-sm font-semibold">{formatCurrency(holding.currentValue)}</p>
+                  <p className="text-sm font-semibold">{formatCurrency(holding.currentValue, baseCurrency)}</p>
                 </div>
 
                 {/* P/L */}
@@ -319,7 +366,7 @@ export function HoldingsTable({ holdings, isLoading, onDeleteHoldings }: Holding
                     "text-sm font-semibold",
                     holding.unrealizedPL >= 0 ? "text-profit" : "text-loss"
                   )}>
-                    {holding.unrealizedPL >= 0 ? '+' : ''}{formatCurrency(holding.unrealizedPL)}
+                    {holding.unrealizedPL >= 0 ? '+' : ''}{formatCurrency(holding.unrealizedPL, baseCurrency)}
                   </p>
                   <p className={cn(
                     "text-[10px] font-medium",
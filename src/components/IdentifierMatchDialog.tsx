@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { sanitizeSymbol } from '@/services/yahooService';
+import type { IdentifierMatch } from '@/services/identifierService';
+
+// Select value for importing under the identifier itself
+const KEEP_VALUE = '__keep__';
+
+interface IdentifierMatchDialogProps {
+  matches: IdentifierMatch[] | null;    // Open while set
+  onConfirm: (symbols: Map<string, string>) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user pick the listing for identifiers that matched several (or no) symbols
+ */
+export function IdentifierMatchDialog({ matches, onConfirm, onCancel }: IdentifierMatchDialogProps) {
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Preselect the first listing for each identifier
+  useEffect(() => {
+    if (!matches) return;
+    setChoices(Object.fromEntries(
+      matches.map(m => [m.identifier, m.candidates[0]?.symbol || ''])
+    ));
+  }, [matches]);
+
+  const setChoice = (identifier: string, value: string) => {
+    setChoices(prev => ({ ...prev, [identifier]: value }));
+  };
+
+  const handleConfirm = async () => {
+    const symbols = new Map<string, string>();
+    for (const [identifier, choice] of Object.entries(choices)) {
+      const symbol = choice === KEEP_VALUE ? null : sanitizeSymbol(choice);
+      if (symbol) symbols.set(identifier, symbol);
+    }
+
+    setIsSaving(true);
+    try {
+      await onConfirm(symbols);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!matches} onOpenChange={(open) => !open && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Confirm Securities</DialogTitle>
+          <DialogDescription>
+            These securities have no ticker in the file. Pick the listing you hold so they can be priced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {matches?.map((match) => (
+            <div key={match.identifier} className="space-y-1.5">
+              <p className="text-sm font-semibold truncate">{match.name}</p>
+              <p className="text-[10px] text-muted-foreground">
+                {match.type} {match.identifier} · {match.currency}
+              </p>
+              {match.candidates.length > 0 ? (
+                <Select
+                  value={choices[match.identifier] || KEEP_VALUE}
+                  onValueChange={(value) => setChoice(match.identifier, value)}
+                >
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {match.candidates.map((candidate) => (
+                      <SelectItem key={candidate.symbol} value={candidate.symbol}>
+                        {candidate.symbol} · {candidate.exchange}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={KEEP_VALUE}>Keep {match.type} as ticker</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={choices[match.identifier] || ''}
+                  onChange={(e) => setChoice(match.identifier, e.target.value)}
+                  placeholder="No match found, enter the Yahoo symbol"
+                  className="rounded-xl uppercase placeholder:normal-case"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel import
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,43 +9,46 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Upload, FileText, CheckCircle2, AlertTriangle, Loader2, Info } from 'lucide-react';
-import { parseFlexibleCSV, parseIBKRCSV, ParseResult } from '@/services/importService';
+import { ColumnMappingStep } from '@/components/ColumnMappingStep';
+import { Progress } from '@/components/ui/progress';
+import { inspectCSV, findLikelyDuplicates, ColumnMapping, ParseOptions, ParseResult } from '@/services/importService';
+import { parseImportFile, readFileHead } from '@/services/importFileService';
+import { GENERIC_ADAPTER, getBrokerAdapter } from '@/services/brokers';
+import { findColumnTemplate, type ColumnTemplate } from '@/services/columnTemplateService';
+import { usePreferences } from '@/hooks/use-preferences';
 import type { Trade, TradeSource } from '@/types/portfolio';
 import { cn } from '@/lib/utils';
 
-type ImportSource = 'trading212' | 'ibkr';
-
 interface ImportModalProps {
-  source: ImportSource;
+  source: TradeSource;
   existingTrades: Trade[];
-  onImport: (csvContent: string) => void;
+  onImport: (result: ParseResult) => void;
   fullWidth?: boolean;
 }
 
+// Detected columns of the uploaded file, reviewed in the mapping step
+interface ColumnInspection {
+  headers: string[];
+  samples: string[][];
+  columns: ColumnMapping;
+  template: ColumnTemplate | null;
+}
+
 export function ImportModal({ source, existingTrades, onImport, fullWidth }: ImportModalProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [step, setStep] = useState<'upload' | 'preview' | 'result'>('upload');
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'result'>('upload');
   const [importedCount, setImportedCount] = useState(0);
-  const [csvContent, setCsvContent] = useState<string>('');
+  const [progress, setProgress] = useState(0);
+  const [inspection, setInspection] = useState<ColumnInspection | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
 
-  const sourceConfig = {
-    trading212: {
-      name: 'Trading212',
-      description: 'Import your trades from Trading212 CSV export.',
-      parser: (content: string) => parseFlexibleCSV(content, 'trading212'),
-    },
-    ibkr: {
-      name: 'Interactive Brokers',
-      description: 'Import your trades from IBKR Flex Query CSV export.',
-      parser: (content: string) => parseIBKRCSV(content),
-    },
-  };
+  const { preferences } = usePreferences();
 
-  const config = sourceConfig[source];
+  const config = getBrokerAdapter(source) || GENERIC_ADAPTER;
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -72,41 +75,75 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
     }
   };
 
-  const processFile = async (file: File) => {
-    setFile(file);
+  // Parse the whole file in the import worker and show the preview
+  const parseWithProgress = async (file: File, options: ParseOptions) => {
     setIsProcessing(true);
+    setProgress(0);
+    setStep('upload');
 
     try {
-      const content = await file.text();
-      setCsvContent(content);
-      const result = config.parser(content);
+      const { result } = await parseImportFile({ file, source: config.id, options }, setProgress);
       setParseResult(result);
-      setStep('preview');
     } catch (error) {
+      console.error('Error parsing file:', error);
       setParseResult({
         trades: [],
+        cashEvents: [],
+        corporateActions: [],
         errors: ['Failed to read file'],
         diagnostics: { 
           totalRows: 0, 
           tradesImported: 0, 
+          cashEventsImported: 0, 
+          corporateActionsImported: 0, 
           rowsSkipped: 0, 
           skipReasons: {}, 
+          rowErrors: [], 
           warnings: [], 
           totalInvested: 0, 
           uniqueTickers: [] 
         },
       });
-      setStep('preview');
     } finally {
       setIsProcessing(false);
+      setStep('preview');
     }
   };
 
+  const processFile = async (file: File) => {
+    setFile(file);
+
+    // Alias-matched columns are reviewed first; a saved template for these headers wins
+    if (config.mappable) {
+      setIsProcessing(true);
+      try {
+        const detected = inspectCSV(await readFileHead(file));
+        const template = findColumnTemplate(detected.headers);
+        setInspection({ ...detected, template });
+        setMapping(template?.mapping || detected.columns);
+        setStep('mapping');
+        return;
+      } catch (error) {
+        console.error('Error reading file:', error);
+      } finally {
+        setIsProcessing(false);
+      }
+    }
+    
+    await parseWithProgress(file, { timeZone: preferences.importTimeZone });
+  };
+
+  const handleConfirmMapping = (confirmed: ColumnMapping) => {
+    if (!file) return;
+    setMapping(confirmed);
+    parseWithProgress(file, { mapping: confirmed, timeZone: preferences.importTimeZone });
+  };
+
   const handleImport = () => {
-    if (!parseResult || !csvContent) return;
+    if (!parseResult || !file) return;
     
     setImportedCount(parseResult.trades.length);
-    onImport(csvContent);
+    onImport(parseResult);
     setStep('result');
   };
 
@@ -115,7 +152,9 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
     setParseResult(null);
     setImportedCount(0);
     setStep('upload');
-    setCsvContent('');
+    setProgress(0);
+    setInspection(null);
+    setMapping(null);
   };
 
   const handleClose = () => {
@@ -125,6 +164,7 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
 
   // Count existing trades from this source
   const existingSourceTradeCount = existingTrades.filter(t => t.source === source).length;
+  const likelyDuplicateCount = parseResult ? findLikelyDuplicates(parseResult.trades, existingTrades).length : 0;
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -154,7 +194,10 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
             {isProcessing ? (
               <div className="flex flex-col items-center gap-3">
                 <Loader2 className="h-10 w-10 text-primary animate-spin" />
-                <p className="text-sm text-muted-foreground">Analyzing file...</p>
+                <p className="text-sm text-muted-foreground">
+                  Analyzing file... {progress > 0 && `${Math.round(progress * 100)}%`}
+                </p>
+                {progress > 0 && <Progress value={progress * 100} className="h-1.5 w-40" />}
               </div>
             ) : (
               <>
@@ -178,6 +221,17 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
           </div>
         )}
 
+        {step === 'mapping' && inspection && mapping && (
+          <ColumnMappingStep
+            headers={inspection.headers}
+            samples={inspection.samples}
+            initialMapping={mapping}
+            template={inspection.template}
+            onBack={resetModal}
+            onConfirm={handleConfirmMapping}
+          />
+        )}
+
         {step === 'preview' && parseResult && (
           <div className="space-y-4">
             <div className="flex items-center gap-2 text-sm">
@@ -196,6 +250,10 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
                   <span className="text-muted-foreground">Trades found:</span>
                   <span className="font-semibold text-primary">{parseResult.diagnostics.tradesImported}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Income events:</span>
+                  <span className="font-medium">{parseResult.diagnostics.cashEventsImported}</span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Unique tickers:</span>
                   <span className="font-medium">{parseResult.diagnostics.uniqueTickers.length}</span>
@@ -204,6 +262,18 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
                   <span className="text-muted-foreground">Total invested:</span>
                   <span className="font-semibold text-primary">${parseResult.diagnostics.totalInvested.toFixed(2)}</span>
                 </div>
+                {parseResult.statement && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Open positions:</span>
+                      <span className="font-medium">{parseResult.statement.positions.length}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Deposits &amp; withdrawals:</span>
+                      <span className="font-medium">{parseResult.statement.transfers.length}</span>
+                    </div>
+                  </>
+                )}
               </div>
 
               {parseResult.diagnostics.rowsSkipped > 0 && (
@@ -218,6 +288,15 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
                         ))}
                       </ul>
                     )}
+                    {parseResult.diagnostics.rowErrors.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 max-h-20 overflow-y-auto">
+                        {parseResult.diagnostics.rowErrors.slice(0, 20).map((error) => (
+                          <li key={`${error.row}-${error.reason}`}>
+                            Row {error.row}: {error.reason}{error.value && ` (${error.value})`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               )}
@@ -231,13 +310,23 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
                 </div>
               )}
 
-              {parseResult.trades.length === 0 && (
+              {likelyDuplicateCount > 0 && (
+                <div className="flex items-start gap-2 p-2 rounded bg-amber-500/10 border border-amber-500/20">
+                  <AlertTriangle className="h-4 w-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    {likelyDuplicateCount} trades look like ones saved from another source. You can review them before they're saved.
+                  </p>
+                </div>
+              )}
+
+              {parseResult.trades.length === 0 && parseResult.cashEvents.length === 0 && (
                 <div className="flex items-start gap-2 p-2 rounded bg-destructive/10 border border-destructive/20">
                   <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
                   <div className="text-xs text-destructive">
                     <span className="font-medium">No valid trades detected</span>
                     <p className="mt-1 opacity-80">
                       Make sure your CSV contains trade data with columns for Action, Ticker, No. of shares, and Price.
+                      {config.mappable && ' Go back to check which columns were matched.'}
                     </p>
                   </div>
                 </div>
@@ -283,7 +372,12 @@ export function ImportModal({ source, existingTrades, onImport, fullWidth }: Imp
               <Button variant="outline" onClick={resetModal}>
                 Cancel
               </Button>
-              <Button onClick={handleImport} disabled={parseResult.trades.length === 0}>
+              {inspection && (
+                <Button variant="outline" onClick={() => setStep('mapping')}>
+                  Columns
+                </Button>
+              )}
+              <Button onClick={handleImport} disabled={parseResult.trades.length === 0 && parseResult.cashEvents.length === 0}>
                 Import {parseResult.trades.length} trades
               </Button>
             </div>
@@ -8,15 +8,24 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
+import { Progress } from '@/components/ui/progress';
+import { BROKER_ADAPTERS, type BrokerAdapter } from '@/services/brokers';
+import { parseImportFile } from '@/services/importFileService';
+import type { ParseResult } from '@/services/importService';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useToast } from '@/hooks/use-toast';
 
 interface ImportSheetProps {
-  onImport: (csvContent: string) => void;
+  onImport: (result: ParseResult, broker: BrokerAdapter) => void;
 }
 
 export function ImportSheet({ onImport }: ImportSheetProps) {
   const [open, setOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
+  const { preferences } = usePreferences();
+  const { toast } = useToast();
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -45,12 +54,22 @@ export function ImportSheet({ onImport }: ImportSheetProps) {
 
   const processFile = async (file: File) => {
     setIsProcessing(true);
+    setProgress(0);
     try {
-      const content = await file.text();
-      onImport(content);
+      // The broker is recognized from the file's header row
+      const { broker, result } = await parseImportFile(
+        { file, options: { timeZone: preferences.importTimeZone } },
+        setProgress
+      );
+      onImport(result, broker);
       setOpen(false);
     } catch (error) {
       console.error('Error reading file:', error);
+      toast({
+        title: "Import failed",
+        description: "Could not read the file.",
+        variant: "destructive",
+      });
     } finally {
       setIsProcessing(false);
     }
@@ -70,7 +89,7 @@ export function ImportSheet({ onImport }: ImportSheetProps) {
         
         <div className="space-y-4 pb-4">
           <p className="text-sm text-muted-foreground">
-            Import your trades from a Trading212 or IBKR CSV export.
+            Import your trades from a broker CSV export. The broker is detected automatically.
           </p>
           
           <div
@@ -84,7 +103,10 @@ export function ImportSheet({ onImport }: ImportSheetProps) {
             {isProcessing ? (
               <div className="flex flex-col items-center gap-3">
                 <Loader2 className="h-10 w-10 text-primary animate-spin" />
-                <p className="text-sm text-muted-foreground">Processing file...</p>
+                <p className="text-sm text-muted-foreground">
+                  Processing file... {Math.round(progress * 100)}%
+                </p>
+                <Progress value={progress * 100} className="h-1.5 w-40" />
               </div>
             ) : (
               <>
@@ -111,11 +133,10 @@ export function ImportSheet({ onImport }: ImportSheetProps) {
           </div>
           
           <div className="text-xs text-muted-foreground space-y-1">
-            <p>Supported formats:</p>
-            <ul className="list-disc list-inside pl-2">
-              <li>Trading212 CSV export</li>
-              <li>Interactive Brokers Flex Query CSV</li>
-            </ul>
+            <p>Supported brokers:</p>
+            <p className="pl-2">
+              {BROKER_ADAPTERS.map(a => a.name).join(', ')}, or any CSV with date, ticker, quantity and price columns
+            </p>
           </div>
         </div>
       </SheetContent>
@@ -1,16 +1,36 @@
 import { calculatePortfolioTotals, formatCurrency, formatPercent } from '@/lib/calculations';
-import { Holding } from '@/types/portfolio';
+import { Holding, ReturnMetrics } from '@/types/portfolio';
 import { cn } from '@/lib/utils';
-import { TrendingUp, TrendingDown, Wallet, PieChart, Zap, Target } from 'lucide-react';
+import { TrendingUp, TrendingDown, Wallet, PieChart, Zap, Target, Timer } from 'lucide-react';
 import { GradientCard } from '@/components/GradientCard';
 
 interface PortfolioSummaryProps {
   holdings: Holding[];
+  baseCurrency?: string;
+  dividendIncome?: number;
+  returns?: ReturnMetrics | null;
 }
 
-export function PortfolioSummary({ holdings }: PortfolioSummaryProps) {
-  const { totalValue, totalInvested, totalPL, totalPLPercent } = calculatePortfolioTotals(holdings);
+const RETURN_ROWS = [
+  { label: 'Time-Weighted', key: 'timeWeighted', annualizedKey: 'timeWeightedAnnualized' },
+  { label: 'Money-Weighted', key: 'moneyWeighted', annualizedKey: 'moneyWeightedAnnualized' },
+] as const;
+
+export function PortfolioSummary({ holdings, baseCurrency = 'USD', dividendIncome = 0, returns }: PortfolioSummaryProps) {
+  const {
+    totalValue,
+    totalInvested,
+    totalPL,
+    totalPriceReturn,
+    totalCurrencyReturn,
+    totalDividends,
+    totalReturn,
+    totalReturnPercent,
+  } = calculatePortfolioTotals(holdings, dividendIncome);
   const isProfit = totalPL >= 0;
+  const isReturnProfit = totalReturn >= 0;
+  const hasDividends = Math.abs(totalDividends) >= 0.01;
+  const hasCurrencyReturn = Math.abs(totalCurrencyReturn) >= 0.01;
 
   return (
     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
@@ -21,7 +41,7 @@ export function PortfolioSummary({ holdings }: PortfolioSummaryProps) {
           </div>
           <span className="text-[10px] font-semibold uppercase tracking-wider">Total Value</span>
         </div>
-        <p className="text-2xl font-bold font-display">{formatCurrency(totalValue)}</p>
+        <p className="text-2xl font-bold font-display">{formatCurrency(totalValue, baseCurrency)}</p>
       </GradientCard>
 
       <GradientCard className="p-4" glowOnHover gradient="accent">
@@ -31,7 +51,7 @@ export function PortfolioSummary({ holdings }: PortfolioSummaryProps) {
           </div>
           <span className="text-[10px] font-semibold uppercase tracking-wider">Invested</span>
         </div>
-        <p className="text-2xl font-bold font-display">{formatCurrency(totalInvested)}</p>
+        <p className="text-2xl font-bold font-display">{formatCurrency(totalInvested, baseCurrency)}</p>
       </GradientCard>
 
       <GradientCard className="p-4" glowOnHover gradient={isProfit ? 'profit' : 'loss'}>
@@ -49,24 +69,70 @@ export function PortfolioSummary({ holdings }: PortfolioSummaryProps) {
           <span className="text-[10px] font-semibold uppercase tracking-wider">Unrealized P/L</span>
         </div>
         <p className={cn("text-2xl font-bold font-display", isProfit ? "text-profit" : "text-loss")}>
-          {isProfit ? '+' : ''}{formatCurrency(totalPL)}
+          {isProfit ? '+' : ''}{formatCurrency(totalPL, baseCurrency)}
         </p>
+        {hasCurrencyReturn && (
+          <p className="text-[10px] text-muted-foreground font-medium mt-1">
+            Price {totalPriceReturn >= 0 ? '+' : ''}{formatCurrency(totalPriceReturn, baseCurrency)}
+            {' · '}
+            FX {totalCurrencyReturn >= 0 ? '+' : ''}{formatCurrency(totalCurrencyReturn, baseCurrency)}
+          </p>
+        )}
       </GradientCard>
 
-      <GradientCard className="p-4" glowOnHover gradient={isProfit ? 'profit' : 'loss'}>
+      <GradientCard className="p-4" glowOnHover gradient={isReturnProfit ? 'profit' : 'loss'}>
         <div className="flex items-center gap-2 text-muted-foreground mb-2">
           <div className={cn(
             "w-7 h-7 rounded-lg flex items-center justify-center",
-            isProfit ? "bg-profit/20" : "bg-loss/20"
+            isReturnProfit ? "bg-profit/20" : "bg-loss/20"
           )}>
-            <Zap className={cn("h-3.5 w-3.5", isProfit ? "text-profit" : "text-loss")} />
+            <Zap className={cn("h-3.5 w-3.5", isReturnProfit ? "text-profit" : "text-loss")} />
           </div>
           <span className="text-[10px] font-semibold uppercase tracking-wider">Return</span>
         </div>
-        <p className={cn("text-2xl font-bold font-display", isProfit ? "text-profit" : "text-loss")}>
-          {formatPercent(totalPLPercent)}
+        <p className={cn("text-2xl font-bold font-display", isReturnProfit ? "text-profit" : "text-loss")}>
+          {formatPercent(totalReturnPercent)}
         </p>
+        {hasDividends && (
+          <p className="text-[10px] text-muted-foreground font-medium mt-1">
+            Incl. {formatCurrency(totalDividends, baseCurrency)} dividends
+          </p>
+        )}
       </GradientCard>
+
+      {returns && (
+        <GradientCard className="p-4 col-span-2 lg:col-span-4" glowOnHover>
+          <div className="flex items-center gap-2 text-muted-foreground mb-3">
+            <div className="w-7 h-7 rounded-lg bg-primary/20 flex items-center justify-center">
+              <Timer className="h-3.5 w-3.5 text-primary" />
+            </div>
+            <span className="text-[10px] font-semibold uppercase tracking-wider">Performance</span>
+            <span className="text-[10px] font-medium ml-auto">
+              Since {new Date(returns.from).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {RETURN_ROWS.map(({ label, key, annualizedKey }) => {
+              const value = returns[key];
+              const annualized = returns[annualizedKey];
+              return (
+                <div key={key}>
+                  <p className="text-[10px] text-muted-foreground font-medium">{label}</p>
+                  <p className={cn(
+                    "text-xl font-bold font-display",
+                    value == null ? "text-muted-foreground" : value >= 0 ? "text-profit" : "text-loss"
+                  )}>
+                    {value == null ? '—' : formatPercent(value)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground font-medium">
+                    {annualized == null ? 'Annualized after 1 year' : `${formatPercent(annualized)} p.a.`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </GradientCard>
+      )}
     </div>
   );
 }
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Plus, Loader2, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { usePortfolios } from '@/hooks/use-portfolios';
+
+// Select values for the aggregated view and the "new portfolio" entry
+const ALL_VALUE = '__all__';
+const NEW_VALUE = '__new__';
+
+export function PortfolioSwitcher() {
+  const { portfolios, activePortfolio, selectPortfolio, createPortfolio } = usePortfolios();
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+
+  const visible = portfolios.filter(p => !p.archived);
+
+  const handleChange = (value: string) => {
+    if (value === NEW_VALUE) {
+      setIsCreating(true);
+      return;
+    }
+    selectPortfolio(value === ALL_VALUE ? null : value);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setIsSaving(true);
+    try {
+      const portfolio = await createPortfolio(trimmed);
+      selectPortfolio(portfolio.id);
+      setIsCreating(false);
+      setName('');
+    } catch (error) {
+      console.error('Error creating portfolio:', error);
+      toast({
+        title: 'Could not create portfolio',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={activePortfolio?.id ?? ALL_VALUE} onValueChange={handleChange}>
+        <SelectTrigger className="h-9 w-auto max-w-[11rem] gap-1 rounded-xl border-none bg-transparent px-2 text-sm font-semibold hover:bg-primary/10">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {visible.map(portfolio => (
+            <SelectItem key={portfolio.id} value={portfolio.id}>
+              {portfolio.name}
+            </SelectItem>
+          ))}
+          {visible.length > 1 && (
+            <SelectItem value={ALL_VALUE}>
+              <span className="flex items-center gap-2">
+                <Layers className="h-3.5 w-3.5" />
+                All portfolios
+              </span>
+            </SelectItem>
+          )}
+          <SelectSeparator />
+          <SelectItem value={NEW_VALUE}>
+            <span className="flex items-center gap-2">
+              <Plus className="h-3.5 w-3.5" />
+              New portfolio
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Portfolio</DialogTitle>
+            <DialogDescription>
+              Keep trades from another broker account or strategy separate.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Retirement"
+              className="rounded-xl"
+              autoFocus
+            />
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, LineChart, Plus, Star, StarOff } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { searchSymbols, TRADEABLE_TYPES, type SymbolSearchResult } from '@/services/yahooService';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useToast } from '@/hooks/use-toast';
+
+interface SymbolSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddTrade?: (result: SymbolSearchResult) => void;  // Left out where trades can't be added
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  EQUITY: 'Stock',
+  ETF: 'ETF',
+  MUTUALFUND: 'Fund',
+  INDEX: 'Index',
+};
+
+/**
+ * Command palette for looking up any security by ticker or company name
+ * (⌘K / Ctrl+K). Picking a result offers its asset page, a new trade and
+ * the watchlist.
+ */
+export function SymbolSearch({ open, onOpenChange, onAddTrade }: SymbolSearchProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preferences, updatePreferences } = usePreferences();
+  const { watchlist } = preferences;
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selected, setSelected] = useState<SymbolSearchResult | null>(null);
+
+  // Toggle with ⌘K / Ctrl+K from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Start from an empty search each time it opens
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setResults([]);
+    setSelected(null);
+  }, [open]);
+
+  // Debounced search while typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchSymbols(query, Object.keys(TYPE_LABELS));
+      if (!cancelled) {
+        setResults(found);
+        setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setSelected(null);
+  };
+
+  const openAsset = (symbol: string) => {
+    onOpenChange(false);
+    navigate(`/asset/${symbol}`);
+  };
+
+  const handleAddTrade = (result: SymbolSearchResult) => {
+    onOpenChange(false);
+    onAddTrade?.(result);
+  };
+
+  const toggleWatchlist = (symbol: string) => {
+    const watched = watchlist.includes(symbol);
+    updatePreferences({ watchlist: watched ? watchlist.filter(s => s !== symbol) : [...watchlist, symbol] });
+    toast({
+      title: watched ? 'Removed from watchlist' : 'Added to watchlist',
+      description: symbol,
+    });
+  };
+
+  const emptyMessage = isSearching
+    ? 'Searching...'
+    : query.trim() ? 'No matches' : 'Type a company name or ticker';
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search stocks, ETFs, funds and indices..."
+        value={query}
+        onValueChange={handleQueryChange}
+      />
+      <CommandList>
+        <CommandEmpty>{emptyMessage}</CommandEmpty>
+
+        {selected ? (
+          <CommandGroup heading={`${selected.symbol} · ${selected.name}`}>
+            <CommandItem value="view" onSelect={() => openAsset(selected.symbol)}>
+              <LineChart className="mr-2 h-4 w-4" />
+              View asset
+            </CommandItem>
+            {onAddTrade && TRADEABLE_TYPES.includes(selected.type) && (
+              <CommandItem value="trade" onSelect={() => handleAddTrade(selected)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add trade
+              </CommandItem>
+            )}
+            <CommandItem value="watchlist" onSelect={() => toggleWatchlist(selected.symbol)}>
+              {watchlist.includes(selected.symbol) ? (
+                <>
+                  <StarOff className="mr-2 h-4 w-4" />
+                  Remove from watchlist
+                </>
+              ) : (
+                <>
+                  <Star className="mr-2 h-4 w-4" />
+                  Add to watchlist
+                </>
+              )}
+            </CommandItem>
+            <CommandItem value="back" onSelect={() => setSelected(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to results
+            </CommandItem>
+          </CommandGroup>
+        ) : query.trim() ? (
+          results.length > 0 && (
+            <CommandGroup heading="Results">
+              {results.map(result => (
+                <CommandItem key={result.symbol} value={result.symbol} onSelect={() => setSelected(result)}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-semibold">{result.symbol}</span>
+                      {watchlist.includes(result.symbol) && <Star className="h-3 w-3 fill-current text-warning" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{result.name}</p>
+                  </div>
+                  <span className="ml-2 text-xs text-muted-foreground whitespace-nowrap">
+                    {[result.exchange, TYPE_LABELS[result.type]].filter(Boolean).join(' · ')}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )
+        ) : (
+          watchlist.length > 0 && (
+            <CommandGroup heading="Watchlist">
+              {watchlist.map(symbol => (
+                <CommandItem key={symbol} value={symbol} onSelect={() => openAsset(symbol)}>
+                  <Star className="mr-2 h-4 w-4" />
+                  {symbol}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
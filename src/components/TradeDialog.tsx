@@ -0,0 +1,471 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  buildTaxLots,
+  describeShortSale,
+  findNewShortSale,
+  formatCurrency,
+  formatQuantity,
+} from '@/lib/calculations';
+import { getListingCurrency } from '@/lib/symbols';
+import { toLocalDate } from '@/lib/locale';
+import { searchSymbols, type SymbolSearchResult } from '@/services/yahooService';
+import { usePreferences } from '@/hooks/use-preferences';
+import type { CorporateAction, LotSelection, Trade, TradeAction } from '@/types/portfolio';
+
+type NewTrade = Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
+
+interface TradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (trade: NewTrade) => Promise<void>;
+  trades: Trade[];                      // Trades of the portfolio, for the open position check
+  corporateActions?: CorporateAction[];
+  trade?: Trade;                        // Trade being edited
+  draft?: NewTrade;                     // Values to start a new trade from (e.g. a reconciliation adjustment)
+  ticker?: string;                      // Fixed ticker when adding from an asset page
+}
+
+const SHARE_EPSILON = 1e-9;
+
+const today = () => toLocalDate(new Date());
+
+const tradeSchema = z.object({
+  ticker: z.string()
+    .trim()
+    .min(1, 'Enter a ticker')
+    .max(20, 'Ticker is too long')
+    .regex(/^[A-Z0-9.\-^=]+$/i, 'Ticker can only contain letters, numbers, dots and dashes'),
+  action: z.enum(['BUY', 'SELL']),
+  date: z.string()
+    .refine(value => !isNaN(new Date(value).getTime()), 'Enter a valid date')
+    .refine(value => value <= today(), 'Date cannot be in the future'),
+  shares: z.coerce.number().positive('Quantity must be greater than 0'),
+  price: z.coerce.number().positive('Price must be greater than 0'),
+  fees: z.coerce.number().min(0, 'Fees cannot be negative'),
+  currency: z.string().trim().regex(/^[A-Z]{3}$/i, 'Enter a 3-letter currency code'),
+});
+
+/**
+ * Timestamp for the picked local date, keeping the time of day of the edited
+ * trade (or now)
+ */
+function toTimestamp(date: string, original?: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = original ? new Date(original) : new Date();
+  result.setFullYear(year, month - 1, day);
+  return result.toISOString();
+}
+
+export function TradeDialog({
+  open,
+  onOpenChange,
+  onSave,
+  trades,
+  corporateActions = [],
+  trade,
+  draft,
+  ticker: fixedTicker,
+}: TradeDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [ticker, setTicker] = useState('');
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<TradeAction>('BUY');
+  const [date, setDate] = useState(today);
+  const [shares, setShares] = useState('');
+  const [price, setPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [lotShares, setLotShares] = useState<Record<string, string>>({});
+  const { preferences } = usePreferences();
+
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [showResults, setShowResults] = useState(false);
+
+  // Fill the form from the edited trade (or draft) each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const initial = trade || draft;
+    if (initial) {
+      setTicker(initial.ticker);
+      setName(initial.name);
+      setAction(initial.action);
+      setDate(toLocalDate(new Date(initial.timestamp)));
+      setShares(initial.shares > 0 ? String(initial.shares) : '');
+      setPrice(initial.pricePerShare > 0 ? String(initial.pricePerShare) : '');
+      setFees(initial.fees ? String(initial.fees) : '');
+      setCurrency(initial.priceCurrency);
+      setLotShares(Object.fromEntries(
+        (initial.lotSelection || []).map(s => [s.lotId, String(s.shares)])
+      ));
+    } else {
+      const known = fixedTicker ? trades.find(t => t.ticker === fixedTicker) : undefined;
+      setTicker(fixedTicker || '');
+      setName(known?.name || '');
+      setAction('BUY');
+      setDate(today());
+      setShares('');
+      setPrice('');
+      setFees('');
+      setCurrency(known?.priceCurrency || 'USD');
+      setLotShares({});
+    }
+    setError(null);
+    setResults([]);
+    setShowResults(false);
+  }, [open, trade, draft, fixedTicker, trades]);
+
+  // Debounced Yahoo search while typing a ticker
+  useEffect(() => {
+    if (!showResults || ticker.trim().length < 1) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchSymbols(ticker);
+        if (!cancelled) setResults(found);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    // A search still in flight is dropped, so its spinner goes too
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsSearching(false);
+    };
+  }, [ticker, showResults]);
+
+  // Lots a sell on the picked date could close, from the other trades up to then
+  const openLots = useMemo(() => {
+    const symbol = ticker.trim().toUpperCase();
+    if (action !== 'SELL' || !symbol || isNaN(new Date(date).getTime())) return [];
+
+    const time = new Date(toTimestamp(date, trade?.timestamp)).getTime();
+    const earlier = trades.filter(t => t.id !== trade?.id && new Date(t.timestamp).getTime() <= time);
+    const actions = corporateActions.filter(a => new Date(a.effectiveDate).getTime() <= time);
+    return buildTaxLots(earlier, symbol, preferences.costBasisMethod, undefined, actions).openLots;
+  }, [action, ticker, date, trade, trades, corporateActions, preferences.costBasisMethod]);
+
+  /**
+   * Shares picked from each open lot, or an error message
+   */
+  const buildLotSelection = (sold: number): LotSelection[] | string => {
+    const selection: LotSelection[] = [];
+    for (const lot of openLots) {
+      const value = lotShares[lot.id]?.trim();
+      if (!value) continue;
+
+      const picked = Number(value);
+      if (!(picked >= 0)) return 'Lot quantities must be 0 or more';
+      if (picked > lot.remainingShares + SHARE_EPSILON) {
+        return `The lot from ${new Date(lot.openedAt).toLocaleDateString()} only has ${formatQuantity(lot.remainingShares)} shares`;
+      }
+      if (picked > 0) selection.push({ lotId: lot.id, shares: picked });
+    }
+
+    const total = selection.reduce((sum, s) => sum + s.shares, 0);
+    if (total > sold + SHARE_EPSILON) return 'Shares picked from lots add up to more than the quantity sold';
+    return selection;
+  };
+
+  const handleSelectResult = (result: SymbolSearchResult) => {
+    setTicker(result.symbol);
+    setName(result.name);
+    setShowResults(false);
+
+    // Reuse the currency of earlier trades in this ticker, else the listing currency
+    const known = trades.find(t => t.ticker === result.symbol);
+    setCurrency(known?.priceCurrency || getListingCurrency(result.symbol));
+  };
+
+  /**
+   * Validate the form and build the trade
+   */
+  const buildTrade = (): NewTrade | string => {
+    const validation = tradeSchema.safeParse({ ticker, action, date, shares, price, fees, currency });
+    if (!validation.success) {
+      return validation.error.errors[0].message;
+    }
+
+    const values = validation.data;
+    const symbol = values.ticker.toUpperCase();
+    const timestamp = toTimestamp(values.date, trade?.timestamp);
+
+    const lotSelection = values.action === 'SELL' ? buildLotSelection(values.shares) : [];
+    if (typeof lotSelection === 'string') return lotSelection;
+
+    const gross = values.shares * values.price;
+    const tradeCurrency = values.currency.toUpperCase();
+    // Unchanged fees keep their original currency (imported trades may be charged in another one)
+    const feesCurrency = trade?.fees === values.fees && trade.feesCurrency ? trade.feesCurrency : tradeCurrency;
+
+    const built: NewTrade = {
+      brokerTransactionId: trade?.brokerTransactionId || `manual-${crypto.randomUUID()}`,
+      action: values.action,
+      timestamp,
+      isin: trade?.ticker === symbol ? trade.isin : '',
+      ticker: symbol,
+      name: name.trim() || symbol,
+      shares: values.shares,
+      pricePerShare: values.price,
+      priceCurrency: tradeCurrency,
+      totalValue: gross,
+      totalCurrency: tradeCurrency,
+      exchangeRate: 1,
+      // Cleared fees are stored as 0 so an edit overwrites the old amount
+      ...(values.fees > 0 || trade?.fees ? { fees: values.fees, feesCurrency } : {}),
+      ...(trade?.taxes ? { taxes: trade.taxes, taxesCurrency: trade.taxesCurrency || tradeCurrency } : {}),
+      // Like fees, a cleared selection is stored empty so an edit overwrites it
+      ...(lotSelection.length > 0 || trade?.lotSelection ? { lotSelection } : {}),
+      source: trade?.source || 'manual',
+    };
+
+    // Replay the portfolio with the change: the position can't go negative on any date
+    const after = [
+      ...trades.filter(t => t.id !== trade?.id),
+      { ...trade, ...built, id: trade?.id ?? 'new' } as Trade,
+    ];
+    for (const affected of new Set([symbol, trade?.ticker ?? symbol])) {
+      const short = findNewShortSale(trades, after, affected, corporateActions);
+      if (short) return describeShortSale(short, after);
+    }
+
+    return built;
+  };
+
+  const handleSave = async () => {
+    const result = buildTrade();
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(result);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving trade:', err);
+      setError('Could not save the trade');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{trade ? 'Edit Trade' : 'Add Trade'}</DialogTitle>
+          <DialogDescription>
+            {trade
+              ? 'Changes are saved to this trade only.'
+              : 'Record a trade your broker export doesn\'t include.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5 relative">
+            <Label htmlFor="trade-ticker" className="text-xs">Ticker</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="trade-ticker"
+                value={ticker}
+                onChange={(e) => {
+                  setTicker(e.target.value);
+                  setName('');
+                  setShowResults(true);
+                }}
+                onBlur={() => setTimeout(() => setShowResults(false), 150)}
+                placeholder="Search e.g. AAPL or Apple"
+                disabled={!!fixedTicker || !!trade}
+                autoComplete="off"
+                className="rounded-xl pl-9 uppercase placeholder:normal-case"
+              />
+              {isSearching && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            {name && <p className="text-[10px] text-muted-foreground truncate">{name}</p>}
+            {showResults && results.length > 0 && (
+              <div className="absolute z-50 left-0 right-0 mt-1 rounded-xl border border-border/50 bg-popover shadow-soft-lg max-h-56 overflow-y-auto">
+                {results.map((result) => (
+                  <button
+                    key={result.symbol}
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => handleSelectResult(result)}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-primary/10"
+                  >
+                    <span className="font-semibold w-20 flex-shrink-0 truncate">{result.symbol}</span>
+                    <span className="flex-1 min-w-0 truncate text-muted-foreground">{result.name}</span>
+                    <span className="text-[10px] text-muted-foreground">{result.exchange}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Type</Label>
+              <Select value={action} onValueChange={(value) => setAction(value as TradeAction)}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BUY">Buy</SelectItem>
+                  <SelectItem value="SELL">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="trade-date" className="text-xs">Date</Label>
+              <Input
+                id="trade-date"
+                type="date"
+                value={date}
+                max={today()}
+                onChange={(e) => setDate(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="trade-shares" className="text-xs">Quantity</Label>
+              <Input
+                id="trade-shares"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={shares}
+                onChange={(e) => setShares(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="trade-price" className="text-xs">Price per share</Label>
+              <Input
+                id="trade-price"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="trade-fees" className="text-xs">Fees (optional)</Label>
+              <Input
+                id="trade-fees"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={fees}
+                onChange={(e) => setFees(e.target.value)}
+                placeholder="0"
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="trade-currency" className="text-xs">Currency</Label>
+              <Input
+                id="trade-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                maxLength={3}
+                className="rounded-xl uppercase"
+              />
+            </div>
+          </div>
+
+          {action === 'SELL' && openLots.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Lots to sell (optional)</Label>
+              <div className="rounded-xl border border-border/50 divide-y divide-border/30 max-h-48 overflow-y-auto">
+                {openLots.map((lot) => (
+                  <div key={lot.id} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <span className="text-xs text-muted-foreground w-20 flex-shrink-0">
+                      {new Date(lot.openedAt).toLocaleDateString()}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {formatQuantity(lot.remainingShares)}{' '}
+                      <span className="text-muted-foreground">@ {formatCurrency(lot.costPerShare, lot.currency)}</span>
+                    </span>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      max={lot.remainingShares}
+                      step="any"
+                      value={lotShares[lot.id] ?? ''}
+                      onChange={(e) => setLotShares(prev => ({ ...prev, [lot.id]: e.target.value }))}
+                      placeholder="0"
+                      aria-label={`Shares from the lot opened ${new Date(lot.openedAt).toLocaleDateString()}`}
+                      className="h-8 w-24 rounded-lg"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Shares not picked from a lot are matched by your {preferences.costBasisMethod} cost basis method.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
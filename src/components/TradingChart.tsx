@@ -1,112 +1,41 @@
 import { useState, useMemo } from 'react';
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine } from 'recharts';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { ChevronDown, RefreshCw } from 'lucide-react';
-import { Holding, Trade } from '@/types/portfolio';
+import { CashEvent, ChartRange, CorporateAction, FxConverter, Holding, Trade } from '@/types/portfolio';
 import { calculatePortfolioTotals, formatCurrency } from '@/lib/calculations';
+import { calculateCashFlows } from '@/lib/history';
+import { usePortfolioHistory } from '@/hooks/use-portfolio-history';
+import { useBenchmark } from '@/hooks/use-benchmark';
+import { usePreferences } from '@/hooks/use-preferences';
+import { BenchmarkSelector, BenchmarkStats } from '@/components/BenchmarkComparison';
 import { cn } from '@/lib/utils';
 import { GradientCard } from '@/components/GradientCard';
 
 interface TradingChartProps {
   holdings: Holding[];
-  trades?: Trade[];
+  trades: Trade[];
+  corporateActions?: CorporateAction[];
+  cashEvents?: CashEvent[];
+  fx: FxConverter;
   onRefresh?: () => void;
   isLoading?: boolean;
 }
 
-type TimeRange = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'All';
 type BaselineType = 'Previous Close' | 'Average';
 
-const TIME_RANGES: TimeRange[] = ['1D', '5D', '1M', '6M', 'YTD', '1Y', '5Y', 'All'];
+const TIME_RANGES: ChartRange[] = ['1D', '5D', '1M', '6M', 'YTD', '1Y', '5Y', 'All'];
 
 interface ChartDataPoint {
   time: number;
   value: number;
+  benchmark?: number;           // Same cash flows invested in the benchmark
   label: string;
 }
 
-// Generate mock historical data based on range and current value
-function generateMockChartData(currentValue: number, range: TimeRange): ChartDataPoint[] {
-  const now = Date.now();
-  const data: ChartDataPoint[] = [];
-  
-  let points: number;
-  let interval: number;
-  let variation: number;
-  
-  switch (range) {
-    case '1D':
-      points = 78;
-      interval = 5 * 60 * 1000;
-      variation = 0.02;
-      break;
-    case '5D':
-      points = 40;
-      interval = 3 * 60 * 60 * 1000;
-      variation = 0.04;
-      break;
-    case '1M':
-      points = 22;
-      interval = 24 * 60 * 60 * 1000;
-      variation = 0.06;
-      break;
-    case '6M':
-      points = 26;
-      interval = 7 * 24 * 60 * 60 * 1000;
-      variation = 0.12;
-      break;
-    case 'YTD':
-      const startOfYear = new Date(new Date().getFullYear(), 0, 1).getTime();
-      points = Math.floor((now - startOfYear) / (7 * 24 * 60 * 60 * 1000));
-      interval = 7 * 24 * 60 * 60 * 1000;
-      variation = 0.15;
-      break;
-    case '1Y':
-      points = 52;
-      interval = 7 * 24 * 60 * 60 * 1000;
-      variation = 0.2;
-      break;
-    case '5Y':
-      points = 60;
-      interval = 30 * 24 * 60 * 60 * 1000;
-      variation = 0.4;
-      break;
-    case 'All':
-      points = 80;
-      interval = 45 * 24 * 60 * 60 * 1000;
-      variation = 0.5;
-      break;
-    default:
-      points = 78;
-      interval = 5 * 60 * 1000;
-      variation = 0.02;
-  }
-  
-  const startMultiplier = 1 - variation + Math.random() * variation;
-  let value = currentValue * startMultiplier;
-  
-  for (let i = points; i >= 0; i--) {
-    const time = now - i * interval;
-    const change = (Math.random() - 0.48) * variation * 0.08 * currentValue;
-    value = Math.max(value + change, currentValue * 0.5);
-    
-    data.push({
-      time,
-      value,
-      label: formatTimeLabel(time, range),
-    });
-  }
-  
-  // Ensure last value matches current
-  if (data.length > 0) {
-    data[data.length - 1].value = currentValue;
-  }
-  
-  return data;
-}
-
-function formatTimeLabel(timestamp: number, range: TimeRange): string {
+function formatTimeLabel(timestamp: number, range: ChartRange): string {
   const date = new Date(timestamp);
   
   switch (range) {
@@ -127,45 +56,58 @@ function formatTimeLabel(timestamp: number, range: TimeRange): string {
   }
 }
 
-export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartProps) {
-  const [timeRange, setTimeRange] = useState<TimeRange>('1D');
+export function TradingChart({ holdings, trades, corporateActions = [], cashEvents = [], fx, onRefresh, isLoading }: TradingChartProps) {
+  const [timeRange, setTimeRange] = useState<ChartRange>('1D');
   const [baselineType, setBaselineType] = useState<BaselineType>('Previous Close');
-  const [chartKey, setChartKey] = useState(0);
+  const baseCurrency = fx.baseCurrency;
   
   const { totalValue, totalPL, totalPLPercent } = calculatePortfolioTotals(holdings);
+  const { preferences } = usePreferences();
+  const history = usePortfolioHistory(trades, timeRange, fx, corporateActions);
   
-  // Regenerate chart data when range or holdings change
-  const chartData = useMemo(() => {
-    return generateMockChartData(totalValue, timeRange);
-  }, [totalValue, timeRange, chartKey]);
+  const flows = useMemo(() => {
+    return calculateCashFlows(trades, fx, corporateActions, cashEvents);
+  }, [trades, fx, corporateActions, cashEvents]);
+  const benchmark = useBenchmark(preferences.benchmark, timeRange, history.points, flows, fx, history.since);
+  
+  const chartData = useMemo<ChartDataPoint[]>(() => {
+    return history.points.map((point, i) => ({
+      ...point,
+      benchmark: benchmark.series[i]?.value,
+      label: formatTimeLabel(point.time, timeRange),
+    }));
+  }, [history.points, benchmark.series, timeRange]);
   
   const baseline = useMemo(() => {
     if (chartData.length === 0) return totalValue;
     if (baselineType === 'Previous Close') {
-      return chartData[0]?.value || totalValue;
+      return history.previousClose ?? chartData[0].value;
     }
     const sum = chartData.reduce((acc, d) => acc + d.value, 0);
     return sum / chartData.length;
-  }, [chartData, baselineType, totalValue]);
+  }, [chartData, baselineType, history.previousClose, totalValue]);
   
   const currentPrice = totalValue;
   
   // Determine if performance is positive (GREEN) or negative (RED)
   const isPositive = totalPL >= 0;
   
+  const chartValues = chartData.flatMap(d => d.benchmark === undefined ? [d.value] : [d.value, d.benchmark]);
   const minValue = chartData.length > 0 
-    ? Math.min(...chartData.map(d => d.value), baseline)
+    ? Math.min(...chartValues, baseline)
     : 0;
   const maxValue = chartData.length > 0 
-    ? Math.max(...chartData.map(d => d.value), baseline)
+    ? Math.max(...chartValues, baseline)
     : totalValue;
   const padding = (maxValue - minValue) * 0.15 || totalValue * 0.1;
 
   const handleRefresh = () => {
-    setChartKey(prev => prev + 1);
+    history.refresh();
     onRefresh?.();
   };
 
+  const isRefreshing = isLoading || history.isLoading;
+
   // No data state
   if (holdings.length === 0) {
     return (
@@ -210,9 +152,9 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
             size="icon" 
             className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground hover:bg-primary/10"
             onClick={handleRefresh}
-            disabled={isLoading}
+            disabled={isRefreshing}
           >
-            <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+            <RefreshCw className={cn("w-4 h-4", isRefreshing && "animate-spin")} />
           </Button>
           
           {/* Baseline Dropdown */}
@@ -231,6 +173,8 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          
+          <BenchmarkSelector />
         </div>
       </div>
       
@@ -238,7 +182,7 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
       <div className="mb-4">
         <div className="flex items-baseline gap-3 flex-wrap">
           <span className="text-2xl font-bold font-display">
-            {formatCurrency(currentPrice)}
+            {formatCurrency(currentPrice, baseCurrency)}
           </span>
           <div className={cn(
             "flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-semibold",
@@ -246,7 +190,7 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
               ? "bg-profit/15 text-profit" 
               : "bg-loss/15 text-loss"
           )}>
-            <span>{isPositive ? '+' : ''}{formatCurrency(totalPL)}</span>
+            <span>{isPositive ? '+' : ''}{formatCurrency(totalPL, baseCurrency)}</span>
             <span className="opacity-75">({isPositive ? '+' : ''}{totalPLPercent.toFixed(2)}%)</span>
           </div>
         </div>
@@ -256,6 +200,15 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
       </div>
       
       {/* Main Chart - Line and fill color based on performance */}
+      {chartData.length === 0 ? (
+        history.isLoading ? (
+          <Skeleton className="h-52 sm:h-64 w-full rounded-xl" />
+        ) : (
+          <div className="h-52 sm:h-64 w-full flex items-center justify-center text-sm text-muted-foreground">
+            No price history for this range
+          </div>
+        )
+      ) : (
       <div className="h-52 sm:h-64 w-full relative">
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart 
@@ -288,7 +241,7 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
               axisLine={false}
               tickLine={false}
               tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-              tickFormatter={(val) => formatCurrency(val).replace('$', '')}
+              tickFormatter={(val) => formatCurrency(val, baseCurrency).replace(/[^\d.,-]/g, '')}
               orientation="right"
               width={50}
             />
@@ -316,8 +269,13 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
                   return (
                     <div className="glass-strong border border-border/30 rounded-xl px-3 py-2">
                       <p className="text-sm font-bold font-display">
-                        {formatCurrency(data.value)}
+                        {formatCurrency(data.value, baseCurrency)}
                       </p>
+                      {data.benchmark !== undefined && (
+                        <p className="text-xs text-muted-foreground">
+                          {preferences.benchmark}: {formatCurrency(data.benchmark, baseCurrency)}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">{data.label}</p>
                     </div>
                   );
@@ -337,6 +295,19 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
               animationDuration={500}
               animationEasing="ease-out"
             />
+            
+            {/* Benchmark overlay - same cash flows invested in the benchmark */}
+            {benchmark.series.length > 0 && (
+              <Area
+                type="monotone"
+                dataKey="benchmark"
+                stroke="hsl(var(--muted-foreground))"
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                fill="none"
+                animationDuration={500}
+              />
+            )}
           </AreaChart>
         </ResponsiveContainer>
         
@@ -351,9 +322,16 @@ export function TradingChart({ holdings, onRefresh, isLoading }: TradingChartPro
             transform: 'translateY(-50%)'
           }}
         >
-          {formatCurrency(currentPrice)}
+          {formatCurrency(currentPrice, baseCurrency)}
         </div>
       </div>
+      )}
+      
+      {benchmark.metrics && (
+        <div className="mt-4 pt-3 border-t border-border/30">
+          <BenchmarkStats metrics={benchmark.metrics} />
+        </div>
+      )}
     </GradientCard>
   );
 }
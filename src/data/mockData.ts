@@ -5,6 +5,7 @@ export const mockTrades: Trade[] = [
   {
     id: '1',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-1',
     ticker: 'AAPL',
     name: 'Apple Inc',
@@ -23,6 +24,7 @@ export const mockTrades: Trade[] = [
   {
     id: '2',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-2',
     ticker: 'AAPL',
     name: 'Apple Inc',
@@ -41,6 +43,7 @@ export const mockTrades: Trade[] = [
   {
     id: '3',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-3',
     ticker: 'MSFT',
     name: 'Microsoft Corporation',
@@ -59,6 +62,7 @@ export const mockTrades: Trade[] = [
   {
     id: '4',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-4',
     ticker: 'NVDA',
     name: 'NVIDIA Corporation',
@@ -77,6 +81,7 @@ export const mockTrades: Trade[] = [
   {
     id: '5',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-5',
     ticker: 'GOOGL',
     name: 'Alphabet Inc',
@@ -95,6 +100,7 @@ export const mockTrades: Trade[] = [
   {
     id: '6',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-6',
     ticker: 'TSLA',
     name: 'Tesla Inc',
@@ -113,6 +119,7 @@ export const mockTrades: Trade[] = [
   {
     id: '7',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-7',
     ticker: 'AMZN',
     name: 'Amazon.com Inc',
@@ -131,6 +138,7 @@ export const mockTrades: Trade[] = [
   {
     id: '8',
     userId: 'mock',
+    portfolioId: 'mock',
     brokerTransactionId: 'mock-8',
     ticker: 'META',
     name: 'Meta Platforms Inc',
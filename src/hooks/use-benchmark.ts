@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { CashFlow, ChartRange, FxConverter, PortfolioValuePoint, PriceHistory } from '@/types/portfolio';
+import { calculateBenchmarkMetrics, simulateBenchmark } from '@/lib/benchmark';
+import { loadPriceHistories } from '@/services/historyService';
+
+/**
+ * Benchmark value series and metrics for a portfolio valuation series.
+ * Every range except 'All' starts the benchmark with the portfolio's value
+ * at the first point; 'All' replays every cash flow from the first trade.
+ */
+export function useBenchmark(
+  symbol: string,
+  range: ChartRange,
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  fx: FxConverter,
+  since: number
+) {
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!symbol) {
+      setHistory(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    loadPriceHistories([symbol], range, new Date(since).toISOString()).then((loaded) => {
+      if (cancelled) return;
+      setHistory(loaded.get(symbol) || null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, range, since]);
+
+  const startWithValue = range !== 'All';
+
+  const series = useMemo(() => {
+    return history ? simulateBenchmark(points, flows, history, fx, startWithValue) : [];
+  }, [history, points, flows, fx, startWithValue]);
+
+  const metrics = useMemo(() => {
+    return history ? calculateBenchmarkMetrics(points, flows, history, fx, startWithValue) : null;
+  }, [history, points, flows, fx, startWithValue]);
+
+  return { series, metrics, isLoading };
+}
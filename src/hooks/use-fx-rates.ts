@@ -0,0 +1,58 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { CashEvent, FxConverter, LivePrice, Trade } from '@/types/portfolio';
+import { createIdentityConverter, loadFxConverter } from '@/services/fxService';
+import { usePreferences } from '@/hooks/use-preferences';
+
+/**
+ * FX converter into the user's base currency for the given trades, prices
+ * and cash events. Starts as an identity converter and updates once rates have loaded.
+ */
+export function useFxRates(
+  trades: Trade[],
+  prices?: Map<string, LivePrice>,
+  cashEvents?: CashEvent[]
+): FxConverter {
+  const { preferences } = usePreferences();
+  const { baseCurrency } = preferences;
+  const [fx, setFx] = useState<FxConverter>(() => createIdentityConverter(baseCurrency));
+
+  // Stable keys so rates are only reloaded when the inputs really change
+  const currenciesKey = useMemo(() => {
+    const currencies = new Set(trades.map(t => t.priceCurrency));
+    trades.forEach(t => {
+      if (t.fees) currencies.add(t.feesCurrency || t.totalCurrency);
+      if (t.taxes) currencies.add(t.taxesCurrency || t.totalCurrency);
+    });
+    prices?.forEach(p => {
+      if (p.currency) currencies.add(p.currency);
+    });
+    cashEvents?.forEach(e => {
+      currencies.add(e.currency);
+      if (e.withholdingTax) currencies.add(e.withholdingTaxCurrency);
+    });
+    return [...currencies].filter(Boolean).sort().join(',');
+  }, [trades, prices, cashEvents]);
+
+  const since = useMemo(() => {
+    return [...trades, ...(cashEvents || [])].reduce<string | undefined>(
+      (earliest, t) => (!earliest || t.timestamp < earliest ? t.timestamp : earliest),
+      undefined
+    );
+  }, [trades, cashEvents]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const currencies = currenciesKey ? currenciesKey.split(',') : [];
+
+    setFx(createIdentityConverter(baseCurrency));
+    loadFxConverter(currencies, baseCurrency, since).then((converter) => {
+      if (!cancelled) setFx(converter);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currenciesKey, baseCurrency, since]);
+
+  return fx;
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChartRange, CorporateAction, FxConverter, PriceHistory, Trade } from '@/types/portfolio';
+import { calculatePortfolioHistory, getRangeStart, getTickersHeldSince } from '@/lib/history';
+import { loadPriceHistories } from '@/services/historyService';
+
+/**
+ * Daily (or intraday) portfolio value for a chart range, rebuilt from the
+ * trades and historical closes. Closes are only refetched when the tickers
+ * or range change, or when refresh is called.
+ */
+export function usePortfolioHistory(
+  trades: Trade[],
+  range: ChartRange,
+  fx: FxConverter,
+  actions: CorporateAction[] = []
+) {
+  const [histories, setHistories] = useState<Map<string, PriceHistory>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [reload, setReload] = useState(0);
+  const lastReloadRef = useRef(0);
+
+  const since = useMemo(() => getRangeStart(range, trades), [range, trades]);
+
+  // Stable key so closes are only reloaded when the tickers really change
+  const tickersKey = useMemo(() => {
+    return getTickersHeldSince(trades, actions, since).sort().join(',');
+  }, [trades, actions, since]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const tickers = tickersKey ? tickersKey.split(',') : [];
+
+    if (tickers.length === 0) {
+      setHistories(new Map());
+      setIsLoading(false);
+      return;
+    }
+
+    // Only a refresh bypasses the cache
+    const force = reload !== lastReloadRef.current;
+    lastReloadRef.current = reload;
+
+    setIsLoading(true);
+    loadPriceHistories(tickers, range, new Date(since).toISOString(), force).then((loaded) => {
+      if (cancelled) return;
+      setHistories(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tickersKey, range, since, reload]);
+
+  const { points, previousClose } = useMemo(() => {
+    // 'All' is fetched with a wider Yahoo range, so trim it to the first trade
+    const start = range === 'All' ? since : undefined;
+    return calculatePortfolioHistory(trades, histories, fx, actions, start);
+  }, [trades, histories, fx, actions, range, since]);
+
+  const refresh = useCallback(() => setReload(prev => prev + 1), []);
+
+  return { points, previousClose, since, isLoading, refresh };
+}
@@ -0,0 +1,134 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import type { Portfolio } from '@/types/portfolio';
+import { onAuthChange } from '@/lib/auth';
+import {
+  getPortfolios,
+  createPortfolio as createPortfolioDoc,
+  renamePortfolio as renamePortfolioDoc,
+  setPortfolioArchived,
+  deletePortfolio as deletePortfolioDoc,
+} from '@/services/firestoreService';
+
+const STORAGE_KEY = 'portfolio-active';
+
+interface PortfoliosContextType {
+  portfolios: Portfolio[];              // Including archived ones
+  activePortfolio: Portfolio | null;    // null for the "All portfolios" view
+  portfolioIds: string[];               // Portfolios whose trades are shown
+  isLoading: boolean;
+  selectPortfolio: (portfolioId: string | null) => void;
+  createPortfolio: (name: string) => Promise<Portfolio>;
+  renamePortfolio: (portfolioId: string, name: string) => Promise<void>;
+  archivePortfolio: (portfolioId: string, archived: boolean) => Promise<void>;
+  deletePortfolio: (portfolioId: string) => Promise<void>;
+}
+
+const PortfoliosContext = createContext<PortfoliosContextType | undefined>(undefined);
+
+function loadActiveId(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveActiveId(portfolioId: string | null) {
+  try {
+    if (portfolioId) {
+      localStorage.setItem(STORAGE_KEY, portfolioId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not save active portfolio:', error);
+  }
+}
+
+export function PortfoliosProvider({ children }: { children: ReactNode }) {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(loadActiveId);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load portfolios whenever a user signs in
+  useEffect(() => {
+    return onAuthChange((user) => {
+      if (!user) {
+        setPortfolios([]);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      getPortfolios()
+        .then(setPortfolios)
+        .catch((error) => console.error('Error loading portfolios:', error))
+        .finally(() => setIsLoading(false));
+    });
+  }, []);
+
+  const selectPortfolio = useCallback((portfolioId: string | null) => {
+    setActiveId(portfolioId);
+    saveActiveId(portfolioId);
+  }, []);
+
+  // Fall back to "All portfolios" when the stored one is gone or archived
+  const activePortfolio = useMemo(() => {
+    return portfolios.find(p => p.id === activeId && !p.archived) || null;
+  }, [portfolios, activeId]);
+
+  // Stable key so pages only reload when the shown portfolios really change
+  const portfolioIdsKey = activePortfolio
+    ? activePortfolio.id
+    : portfolios.filter(p => !p.archived).map(p => p.id).join(',');
+  const portfolioIds = useMemo(() => {
+    return portfolioIdsKey ? portfolioIdsKey.split(',') : [];
+  }, [portfolioIdsKey]);
+
+  const createPortfolio = useCallback(async (name: string) => {
+    const portfolio = await createPortfolioDoc(name);
+    setPortfolios(prev => [...prev, portfolio]);
+    return portfolio;
+  }, []);
+
+  const renamePortfolio = useCallback(async (portfolioId: string, name: string) => {
+    await renamePortfolioDoc(portfolioId, name);
+    setPortfolios(prev => prev.map(p => (p.id === portfolioId ? { ...p, name } : p)));
+  }, []);
+
+  const archivePortfolio = useCallback(async (portfolioId: string, archived: boolean) => {
+    await setPortfolioArchived(portfolioId, archived);
+    setPortfolios(prev => prev.map(p => (p.id === portfolioId ? { ...p, archived } : p)));
+  }, []);
+
+  const deletePortfolio = useCallback(async (portfolioId: string) => {
+    await deletePortfolioDoc(portfolioId);
+    setPortfolios(prev => prev.filter(p => p.id !== portfolioId));
+  }, []);
+
+  return (
+    <PortfoliosContext.Provider
+      value={{
+        portfolios,
+        activePortfolio,
+        portfolioIds,
+        isLoading,
+        selectPortfolio,
+        createPortfolio,
+        renamePortfolio,
+        archivePortfolio,
+        deletePortfolio,
+      }}
+    >
+      {children}
+    </PortfoliosContext.Provider>
+  );
+}
+
+export function usePortfolios() {
+  const context = useContext(PortfoliosContext);
+  if (!context) {
+    throw new Error('usePortfolios must be used within a PortfoliosProvider');
+  }
+  return context;
+}
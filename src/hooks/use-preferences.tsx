@@ -0,0 +1,70 @@
+import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import type { CostBasisMethod } from '@/types/portfolio';
+import { LOCAL_TIME_ZONE } from '@/lib/locale';
+
+const STORAGE_KEY = 'portfolio-preferences';
+
+export interface Preferences {
+  costBasisMethod: CostBasisMethod;
+  baseCurrency: string;
+  benchmark: string;            // Yahoo symbol compared against; empty for none
+  importTimeZone: string;       // Zone of import dates without a UTC offset ('local' for this device)
+  watchlist: string[];          // Yahoo symbols followed without holding them
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  costBasisMethod: 'FIFO',
+  baseCurrency: 'USD',
+  benchmark: 'SPY',
+  importTimeZone: LOCAL_TIME_ZONE,
+  watchlist: [],
+};
+
+interface PreferencesContextType {
+  preferences: Preferences;
+  updatePreferences: (updates: Partial<Preferences>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+function loadPreferences(): Preferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Could not read preferences:', error);
+  }
+  return DEFAULT_PREFERENCES;
+}
+
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  const updatePreferences = useCallback((updates: Partial<Preferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...updates };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Could not save preferences:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
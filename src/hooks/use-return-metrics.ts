@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import type { CashEvent, CorporateAction, FxConverter, ReturnMetrics, Trade } from '@/types/portfolio';
+import { calculateCashFlows } from '@/lib/history';
+import { calculateReturnMetrics } from '@/lib/returns';
+import { usePortfolioHistory } from '@/hooks/use-portfolio-history';
+
+/**
+ * Time- and money-weighted returns since the first trade, from the full
+ * valuation history. Pass the trades of a single holding for per-holding returns.
+ */
+export function useReturnMetrics(
+  trades: Trade[],
+  fx: FxConverter,
+  actions: CorporateAction[] = [],
+  cashEvents: CashEvent[] = []
+): { metrics: ReturnMetrics | null; isLoading: boolean } {
+  const { points, isLoading } = usePortfolioHistory(trades, 'All', fx, actions);
+
+  const metrics = useMemo(() => {
+    const flows = calculateCashFlows(trades, fx, actions, cashEvents);
+    return calculateReturnMetrics(points, flows);
+  }, [points, trades, fx, actions, cashEvents]);
+
+  return { metrics, isLoading };
+}
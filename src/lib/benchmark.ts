@@ -0,0 +1,127 @@
+import type {
+  BenchmarkMetrics,
+  CashFlow,
+  FxConverter,
+  PortfolioValuePoint,
+  PriceHistory,
+} from '@/types/portfolio';
+import { calculatePeriodReturns } from '@/lib/returns';
+
+// Fewest sub-periods needed to estimate alpha and beta
+const MIN_REGRESSION_PERIODS = 3;
+
+/**
+ * Benchmark close in the base currency on or before a time.
+ * Times before the first close use the first close.
+ */
+function createPriceLookup(history: PriceHistory, fx: FxConverter) {
+  const { points } = history;
+
+  return (time: number): number => {
+    let lo = 0;
+    let hi = points.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (points[mid].time <= time) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    const date = new Date(Math.max(time, points[0].time)).toISOString();
+    return points[lo].close * fx.rate(history.currency, date);
+  };
+}
+
+/**
+ * Value of a benchmark position that received the same cash flows as the
+ * portfolio, at each portfolio valuation. Contributions buy benchmark units and
+ * withdrawals sell them at the close on or before the flow. With startWithValue
+ * the portfolio's first value is invested at the first point and earlier flows
+ * are ignored; otherwise the benchmark starts empty.
+ */
+export function simulateBenchmark(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  history: PriceHistory,
+  fx: FxConverter,
+  startWithValue = false
+): PortfolioValuePoint[] {
+  if (points.length === 0 || history.points.length === 0) return [];
+
+  const price = createPriceLookup(history, fx);
+  let units = 0;
+  let flowIndex = 0;
+
+  if (startWithValue) {
+    units = points[0].value / price(points[0].time);
+    while (flowIndex < flows.length && flows[flowIndex].time <= points[0].time) flowIndex++;
+  }
+
+  return points.map(point => {
+    while (flowIndex < flows.length && flows[flowIndex].time <= point.time) {
+      const flow = flows[flowIndex++];
+      units = Math.max(0, units + flow.amount / price(flow.time));
+    }
+    return { time: point.time, value: units * price(point.time) };
+  });
+}
+
+/**
+ * Compare the portfolio with a benchmark over the valuation range.
+ * Returns are time-weighted over the same sub-periods; alpha and beta come from
+ * regressing the portfolio's sub-period returns on the benchmark's, with alpha
+ * scaled to the whole range.
+ */
+export function calculateBenchmarkMetrics(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  history: PriceHistory,
+  fx: FxConverter,
+  startWithValue = false
+): BenchmarkMetrics | null {
+  if (points.length === 0 || history.points.length === 0) return null;
+
+  const from = startWithValue ? points[0].time : undefined;
+  const periods = calculatePeriodReturns(points, flows, from);
+  if (periods.length === 0) return null;
+
+  const price = createPriceLookup(history, fx);
+  const firstFlow = flows.find(f => from === undefined || f.time > from)?.time ?? points[0].time;
+
+  const pairs = periods.map(period => {
+    const start = isFinite(period.start) ? period.start : firstFlow;
+    return { portfolio: period.return, benchmark: price(period.end) / price(start) - 1 };
+  });
+
+  const chain = (returns: number[]) => returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+  const portfolioReturn = chain(pairs.map(p => p.portfolio));
+  const benchmarkReturn = chain(pairs.map(p => p.benchmark));
+
+  const simulated = simulateBenchmark(points, flows, history, fx, startWithValue);
+  const endValue = points[points.length - 1].value;
+  const benchmarkEndValue = simulated[simulated.length - 1]?.value ?? 0;
+
+  let alpha: number | null = null;
+  let beta: number | null = null;
+  if (pairs.length >= MIN_REGRESSION_PERIODS) {
+    const meanP = pairs.reduce((sum, p) => sum + p.portfolio, 0) / pairs.length;
+    const meanB = pairs.reduce((sum, p) => sum + p.benchmark, 0) / pairs.length;
+    const covariance = pairs.reduce((sum, p) => sum + (p.portfolio - meanP) * (p.benchmark - meanB), 0);
+    const variance = pairs.reduce((sum, p) => sum + (p.benchmark - meanB) ** 2, 0);
+    if (variance > 0) {
+      beta = covariance / variance;
+      alpha = (meanP - beta * meanB) * pairs.length * 100;
+    }
+  }
+
+  return {
+    symbol: history.ticker,
+    portfolioReturn: portfolioReturn * 100,
+    benchmarkReturn: benchmarkReturn * 100,
+    excessReturn: benchmarkEndValue > 0 ? (endValue / benchmarkEndValue - 1) * 100 : 0,
+    trackingDifference: (portfolioReturn - benchmarkReturn) * 100,
+    alpha,
+    beta,
+  };
+}
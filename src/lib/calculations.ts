@@ -1,39 +1,391 @@
-import { Holding, Trade, LivePrice } from '@/types/portfolio';
+import {
+  Holding,
+  Trade,
+  LivePrice,
+  TaxLot,
+  LotMatch,
+  LotLedger,
+  ShortSale,
+  CostBasisMethod,
+  GainTerm,
+  RealizedSale,
+  RealizedPosition,
+  FxConverter,
+  CorporateAction,
+} from '@/types/portfolio';
+import { normalizeCurrency } from '@/lib/currency';
+import { getTradeCostsPerShare } from '@/lib/fees';
+
+// Shares below this threshold are treated as zero (float noise from fractional trades)
+const SHARE_EPSILON = 1e-9;
+
+// Lots held longer than this are long-term
+const LONG_TERM_DAYS = 365;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Used when no FX rates are supplied: every currency counts 1:1
+const NO_FX: FxConverter = {
+  baseCurrency: 'USD',
+  rate: () => 1,
+};
 
 /**
- * Calculate average buy price for a ticker
+ * Sort trades oldest first; BUYs before SELLs at the same timestamp
  */
-export function calculateAverageBuyPrice(trades: Trade[], ticker: string): number {
-  const buyTrades = trades.filter(t => t.ticker === ticker && t.action === 'BUY');
-  if (buyTrades.length === 0) return 0;
+function sortTradesChronologically(trades: Trade[]): Trade[] {
+  return [...trades].sort((a, b) => {
+    const diff = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+    if (diff !== 0) return diff;
+    if (a.action === b.action) return 0;
+    return a.action === 'BUY' ? -1 : 1;
+  });
+}
+
+/**
+ * Order open lots for matching according to the cost basis method
+ */
+function orderLotsForMethod(lots: TaxLot[], method: CostBasisMethod): TaxLot[] {
+  const open = lots.filter(l => l.remainingShares > SHARE_EPSILON);
   
-  const totalCost = buyTrades.reduce((sum, t) => sum + (t.shares * t.pricePerShare), 0);
-  const totalShares = buyTrades.reduce((sum, t) => sum + t.shares, 0);
+  switch (method) {
+    case 'LIFO':
+      return open.reverse();
+    case 'HIFO':
+      return open.sort((a, b) => b.costPerShare - a.costPerShare);
+    case 'FIFO':
+    default:
+      return open;
+  }
+}
+
+// Fields needed to close lots: a SELL trade or a cash merger
+type Disposal = Pick<Trade, 'id' | 'timestamp' | 'pricePerShare' | 'priceCurrency'>;
+
+/**
+ * Tickers whose lots end up in a ticker through renames, stock mergers or spinoffs
+ */
+export function getSourceTickers(
+  ticker: string,
+  actions: CorporateAction[],
+  includeSpinoffs = true
+): Set<string> {
+  const tickers = new Set([ticker]);
+  let added = true;
   
-  return totalShares > 0 ? totalCost / totalShares : 0;
+  while (added) {
+    added = false;
+    for (const action of actions) {
+      if (!includeSpinoffs && action.type === 'SPINOFF') continue;
+      if (action.newTicker && tickers.has(action.newTicker) && !tickers.has(action.ticker)) {
+        tickers.add(action.ticker);
+        added = true;
+      }
+    }
+  }
+  return tickers;
 }
 
 /**
- * Calculate total shares for a ticker
+ * All tickers with trades or created by a corporate action
  */
-export function calculateTotalShares(trades: Trade[], ticker: string): number {
-  return trades
-    .filter(t => t.ticker === ticker)
-    .reduce((sum, t) => {
-      return t.action === 'BUY' ? sum + t.shares : sum - t.shares;
-    }, 0);
+function getTickers(trades: Trade[], actions: CorporateAction[]): string[] {
+  const tickers = new Set(trades.map(t => t.ticker));
+  for (const action of actions) {
+    if (action.newTicker) tickers.add(action.newTicker);
+  }
+  return [...tickers];
 }
 
 /**
- * Calculate invested amount for a ticker
+ * Build tax lots for a ticker and match sells against them.
+ * Sells with an explicit lotSelection close those lots first; any
+ * remainder is matched using the given method. Corporate actions are
+ * applied to the open lots on their effective date.
  */
-export function calculateInvestedAmount(trades: Trade[], ticker: string): number {
-  return trades
-    .filter(t => t.ticker === ticker)
-    .reduce((sum, t) => {
-      const amount = t.shares * t.pricePerShare;
-      return t.action === 'BUY' ? sum + amount : sum - amount;
-    }, 0);
+export function buildTaxLots(
+  trades: Trade[],
+  ticker: string,
+  method: CostBasisMethod = 'FIFO',
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
+): LotLedger {
+  const lots: TaxLot[] = [];
+  const matches: LotMatch[] = [];
+  const shortSales: ShortSale[] = [];
+  
+  const closeLot = (lot: TaxLot, disposal: Disposal, shares: number) => {
+    lot.remainingShares -= shares;
+    const saleRate = fx.rate(disposal.priceCurrency, disposal.timestamp);
+    matches.push({
+      lotId: lot.id,
+      sellTradeId: disposal.id,
+      ticker: lot.ticker,
+      shares,
+      openedAt: lot.openedAt,
+      closedAt: disposal.timestamp,
+      costPerShare: lot.costPerShare,
+      costBasis: shares * lot.costPerShare * lot.fxRate,
+      proceedsPerShare: disposal.pricePerShare,
+      proceeds: shares * disposal.pricePerShare * saleRate,
+    });
+  };
+  
+  const applyAction = (action: CorporateAction) => {
+    const affected = lots.filter(l => l.ticker === action.ticker && l.remainingShares > SHARE_EPSILON);
+    
+    switch (action.type) {
+      case 'SPLIT':
+        for (const lot of affected) {
+          lot.shares *= action.ratio;
+          lot.remainingShares *= action.ratio;
+          lot.costPerShare /= action.ratio;
+        }
+        break;
+      
+      case 'TICKER_CHANGE':
+        if (!action.newTicker) break;
+        // Same security under a new symbol: history moves with it
+        for (const lot of affected) lot.ticker = action.newTicker;
+        for (const match of matches) {
+          if (match.ticker === action.ticker) match.ticker = action.newTicker;
+        }
+        break;
+      
+      case 'MERGER':
+        if (action.ratio > 0 && action.newTicker) {
+          // Stock merger: basis and holding period carry over to the acquirer shares
+          for (const lot of affected) {
+            lot.ticker = action.newTicker;
+            lot.shares *= action.ratio;
+            lot.remainingShares *= action.ratio;
+            lot.costPerShare /= action.ratio;
+          }
+        } else if (action.cashPerShare !== undefined) {
+          // Cash merger: every open lot is sold at the cash price
+          for (const lot of affected) {
+            closeLot(lot, {
+              id: action.id,
+              timestamp: action.effectiveDate,
+              pricePerShare: action.cashPerShare,
+              priceCurrency: action.currency || lot.currency,
+            }, lot.remainingShares);
+          }
+        }
+        break;
+      
+      case 'SPINOFF': {
+        if (!action.newTicker || action.ratio <= 0) break;
+        const allocation = action.costAllocation ?? 0;
+        for (const lot of affected) {
+          // New lot keeps the parent acquisition date and FX rate
+          lots.push({
+            id: `${lot.id}:${action.id}`,
+            ticker: action.newTicker,
+            openedAt: lot.openedAt,
+            shares: lot.remainingShares * action.ratio,
+            remainingShares: lot.remainingShares * action.ratio,
+            currency: lot.currency,
+            costPerShare: (lot.costPerShare * allocation) / action.ratio,
+            fxRate: lot.fxRate,
+            costBasis: 0,
+          });
+          lot.costPerShare *= 1 - allocation;
+        }
+        break;
+      }
+    }
+  };
+  
+  // Without corporate actions only this ticker's trades matter
+  const tickers = actions.length > 0 ? getSourceTickers(ticker, actions) : new Set([ticker]);
+  const pendingActions = actions
+    .filter(a => tickers.has(a.ticker))
+    .sort((a, b) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime());
+  
+  for (const trade of sortTradesChronologically(trades.filter(t => tickers.has(t.ticker)))) {
+    // Actions take effect before trades on the same date
+    while (
+      pendingActions.length > 0 &&
+      new Date(pendingActions[0].effectiveDate).getTime() <= new Date(trade.timestamp).getTime()
+    ) {
+      applyAction(pendingActions.shift()!);
+    }
+    
+    if (trade.action === 'BUY') {
+      lots.push({
+        id: trade.id,
+        ticker: trade.ticker,
+        openedAt: trade.timestamp,
+        shares: trade.shares,
+        remainingShares: trade.shares,
+        currency: trade.priceCurrency,
+        // Fees and taxes are part of the cost basis
+        costPerShare: trade.pricePerShare + getTradeCostsPerShare(trade, fx),
+        fxRate: fx.rate(trade.priceCurrency, trade.timestamp),
+        costBasis: 0,
+      });
+      continue;
+    }
+    
+    let remaining = trade.shares;
+    const tickerLots = lots.filter(l => l.ticker === trade.ticker);
+    // Fees and taxes reduce the sale proceeds
+    const disposal: Disposal = { ...trade, pricePerShare: trade.pricePerShare - getTradeCostsPerShare(trade, fx) };
+    
+    // Specific identification
+    for (const selection of trade.lotSelection || []) {
+      const lot = tickerLots.find(l => l.id === selection.lotId);
+      if (!lot || lot.remainingShares <= SHARE_EPSILON) continue;
+      
+      const shares = Math.min(selection.shares, lot.remainingShares, remaining);
+      if (shares <= SHARE_EPSILON) continue;
+      closeLot(lot, disposal, shares);
+      remaining -= shares;
+    }
+    
+    for (const lot of orderLotsForMethod(tickerLots, method)) {
+      if (remaining <= SHARE_EPSILON) break;
+      const shares = Math.min(lot.remainingShares, remaining);
+      closeLot(lot, disposal, shares);
+      remaining -= shares;
+    }
+    
+    if (remaining > SHARE_EPSILON && trade.ticker === ticker) {
+      shortSales.push({ sellTradeId: trade.id, shares: remaining });
+    }
+  }
+  
+  for (const action of pendingActions) {
+    applyAction(action);
+  }
+  
+  const openLots = lots
+    .filter(l => l.ticker === ticker && l.remainingShares > SHARE_EPSILON)
+    .map(l => ({ ...l, costBasis: l.remainingShares * l.costPerShare * l.fxRate }));
+  
+  return {
+    openLots,
+    matches: matches.filter(m => m.ticker === ticker),
+    unmatchedSellShares: shortSales.reduce((sum, s) => sum + s.shares, 0),
+    shortSales,
+  };
+}
+
+/**
+ * Average cost per share of open lots, in the trade price currency
+ */
+function averageLotCost(lots: TaxLot[]): number {
+  const totalShares = lots.reduce((sum, l) => sum + l.remainingShares, 0);
+  const totalCost = lots.reduce((sum, l) => sum + l.remainingShares * l.costPerShare, 0);
+  
+  return totalShares > SHARE_EPSILON ? totalCost / totalShares : 0;
+}
+
+/**
+ * Calculate average buy price for a ticker (open lots only, price currency)
+ */
+export function calculateAverageBuyPrice(
+  trades: Trade[],
+  ticker: string,
+  method: CostBasisMethod = 'FIFO',
+  actions: CorporateAction[] = []
+): number {
+  const { openLots } = buildTaxLots(trades, ticker, method, NO_FX, actions);
+  return averageLotCost(openLots);
+}
+
+/**
+ * Calculate total shares for a ticker (after splits and other corporate actions)
+ */
+export function calculateTotalShares(
+  trades: Trade[],
+  ticker: string,
+  actions: CorporateAction[] = []
+): number {
+  const { openLots, unmatchedSellShares } = buildTaxLots(trades, ticker, 'FIFO', NO_FX, actions);
+  return openLots.reduce((sum, l) => sum + l.remainingShares, 0) - unmatchedSellShares;
+}
+
+/**
+ * Shares of a ticker held at a point in time (trades and actions up to and including it)
+ */
+export function calculateSharesHeldAt(
+  trades: Trade[],
+  ticker: string,
+  timestamp: string,
+  actions: CorporateAction[] = []
+): number {
+  const time = new Date(timestamp).getTime();
+  return calculateTotalShares(
+    trades.filter(t => new Date(t.timestamp).getTime() <= time),
+    ticker,
+    actions.filter(a => new Date(a.effectiveDate).getTime() <= time)
+  );
+}
+
+/**
+ * Sells that close more shares than were held at the time, for a ticker and
+ * every ticker it becomes through corporate actions
+ */
+export function getShortSales(
+  trades: Trade[],
+  ticker: string,
+  actions: CorporateAction[] = []
+): ShortSale[] {
+  const tickers = [ticker];
+  for (let i = 0; i < tickers.length; i++) {
+    for (const action of actions) {
+      if (action.ticker === tickers[i] && action.newTicker && !tickers.includes(action.newTicker)) {
+        tickers.push(action.newTicker);
+      }
+    }
+  }
+  return tickers.flatMap(t => buildTaxLots(trades, t, 'FIFO', NO_FX, actions).shortSales);
+}
+
+/**
+ * First sell that a change to the trades leaves short of shares (the position
+ * goes negative on its date), or null. Sells that were already short before
+ * the change, e.g. from an import without the full history, only count when
+ * the change makes them shorter.
+ */
+export function findNewShortSale(
+  before: Trade[],
+  after: Trade[],
+  ticker: string,
+  actions: CorporateAction[] = []
+): ShortSale | null {
+  const shortBefore = new Map(
+    getShortSales(before, ticker, actions).map(s => [s.sellTradeId, s.shares])
+  );
+  return getShortSales(after, ticker, actions).find(
+    s => s.shares > (shortBefore.get(s.sellTradeId) ?? 0) + SHARE_EPSILON
+  ) ?? null;
+}
+
+/**
+ * Why a change was rejected, for a sell it leaves short of shares
+ */
+export function describeShortSale(sale: ShortSale, trades: Trade[]): string {
+  const sell = trades.find(t => t.id === sale.sellTradeId);
+  if (!sell) return `This would sell ${formatQuantity(sale.shares)} more shares than you hold`;
+  return `Your ${sell.ticker} position would go negative on ${new Date(sell.timestamp).toLocaleDateString()} ` +
+    `(${formatQuantity(sale.shares)} shares short)`;
+}
+
+/**
+ * Calculate invested amount for a ticker (cost basis of open lots, base currency)
+ */
+export function calculateInvestedAmount(
+  trades: Trade[],
+  ticker: string,
+  method: CostBasisMethod = 'FIFO',
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
+): number {
+  const { openLots } = buildTaxLots(trades, ticker, method, fx, actions);
+  return openLots.reduce((sum, l) => sum + l.costBasis, 0);
 }
 
 /**
@@ -47,9 +399,15 @@ export function calculateHoldingPeriodDays(trades: Trade[], ticker: string): num
     new Date(t.timestamp) < new Date(earliest.timestamp) ? t : earliest
   );
   
-  const now = new Date();
-  const diffTime = Math.abs(now.getTime() - new Date(firstTrade.timestamp).getTime());
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  return daysSince(firstTrade.timestamp);
+}
+
+/**
+ * Whole days elapsed since an ISO timestamp
+ */
+function daysSince(timestamp: string): number {
+  const diffTime = Math.abs(Date.now() - new Date(timestamp).getTime());
+  return Math.ceil(diffTime / MS_PER_DAY);
 }
 
 /**
@@ -61,23 +419,47 @@ export function hasAllPrices(trades: Trade[], prices: Map<string, LivePrice>): b
 }
 
 /**
- * Calculate global portfolio total from ALL positions
+ * Currency of a live price, falling back to the latest trade's price currency
+ */
+function getPriceCurrency(trades: Trade[], ticker: string, priceData?: LivePrice, fallback = 'USD'): string {
+  return priceData?.currency || trades.find(t => t.ticker === ticker)?.priceCurrency || fallback;
+}
+
+/**
+ * Name and ISIN from the most recent trade, or from the action that created the ticker
+ */
+function getSecurityInfo(
+  trades: Trade[],
+  ticker: string,
+  actions: CorporateAction[]
+): { name: string; isin?: string } {
+  const latestTrade = trades.find(t => t.ticker === ticker);
+  if (latestTrade) return { name: latestTrade.name || ticker, isin: latestTrade.isin };
+  
+  const action = actions.find(a => a.newTicker === ticker);
+  return { name: action?.newName || ticker, isin: action?.newIsin };
+}
+
+/**
+ * Calculate global portfolio total from ALL positions (base currency)
  */
 export function calculateGlobalPortfolioTotal(
   trades: Trade[],
-  prices: Map<string, LivePrice>
+  prices: Map<string, LivePrice>,
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
 ): number | null {
-  const tickers = [...new Set(trades.map(t => t.ticker))];
+  const tickers = getTickers(trades, actions);
   
   let total = 0;
   for (const ticker of tickers) {
-    const shares = calculateTotalShares(trades, ticker);
+    const shares = calculateTotalShares(trades, ticker, actions);
     if (shares <= 0) continue;
     
     const priceData = prices.get(ticker);
     if (!priceData) return null;
     
-    total += shares * priceData.price;
+    total += shares * priceData.price * fx.rate(getPriceCurrency(trades, ticker, priceData));
   }
   
   return total;
@@ -89,28 +471,38 @@ export function calculateGlobalPortfolioTotal(
 export function calculateHoldings(
   trades: Trade[],
   prices: Map<string, LivePrice>,
-  globalPortfolioTotal?: number | null
+  globalPortfolioTotal?: number | null,
+  method: CostBasisMethod = 'FIFO',
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
 ): Holding[] {
-  const tickers = [...new Set(trades.map(t => t.ticker))];
+  const tickers = getTickers(trades, actions);
   
   const holdings: Holding[] = [];
   
   for (const ticker of tickers) {
-    const shares = calculateTotalShares(trades, ticker);
-    if (shares <= 0) continue;
+    const { openLots, matches } = buildTaxLots(trades, ticker, method, fx, actions);
+    const shares = openLots.reduce((sum, l) => sum + l.remainingShares, 0);
+    if (shares <= SHARE_EPSILON) continue;
     
-    const avgPrice = calculateAverageBuyPrice(trades, ticker);
-    const investedAmount = calculateInvestedAmount(trades, ticker);
+    const investedAmount = openLots.reduce((sum, l) => sum + l.costBasis, 0);
+    const avgPrice = averageLotCost(openLots);
     const priceData = prices.get(ticker);
+    const currency = getPriceCurrency(trades, ticker, priceData, openLots[0].currency);
     const currentPrice = priceData?.price || avgPrice;
-    const currentValue = shares * currentPrice;
+    const liveRate = fx.rate(currency);
+    const currentValue = shares * currentPrice * liveRate;
     const unrealizedPL = currentValue - investedAmount;
     const unrealizedPLPercent = investedAmount > 0 ? (unrealizedPL / investedAmount) * 100 : 0;
     
-    // Get name and ISIN from the most recent trade
-    const tickerTrades = trades.filter(t => t.ticker === ticker);
-    const latestTrade = tickerTrades[0];
+    // Price return: gain in the lot currency at the acquisition FX rate.
+    // Whatever remains of the P/L came from exchange rate moves.
+    const priceReturn = openLots.reduce((sum, l) => {
+      const priceInLotCurrency = currentPrice * liveRate / fx.rate(l.currency);
+      return sum + l.remainingShares * (priceInLotCurrency - l.costPerShare) * l.fxRate;
+    }, 0);
     
+
     // Calculate allocation - never negative
     let allocationPercent = 0;
     if (globalPortfolioTotal && globalPortfolioTotal > 0 && priceData && currentValue > 0) {
@@ -119,9 +511,9 @@ export function calculateHoldings(
     
     holdings.push({
       ticker,
-      name: latestTrade?.name || ticker,
-      isin: latestTrade?.isin,
+      ...getSecurityInfo(trades, ticker, actions),
       logoUrl: getAssetLogo(ticker),
+      currency,
       shares,
       averageBuyPrice: avgPrice,
       investedAmount,
@@ -129,24 +521,165 @@ export function calculateHoldings(
       currentValue,
       unrealizedPL,
       unrealizedPLPercent,
-      holdingPeriodDays: calculateHoldingPeriodDays(trades, ticker),
+      priceReturn,
+      currencyReturn: unrealizedPL - priceReturn,
+      holdingPeriodDays: daysSince(openLots[0].openedAt),
       allocationPercent,
+      realizedPL: matches.reduce((sum, m) => sum + m.proceeds - m.costBasis, 0),
+      lots: openLots,
     });
   }
   
   return holdings;
 }
 
+function isLongTermMatch(match: LotMatch): boolean {
+  const heldDays = (new Date(match.closedAt).getTime() - new Date(match.openedAt).getTime()) / MS_PER_DAY;
+  return heldDays > LONG_TERM_DAYS;
+}
+
+function getGainTerm(shortTermShares: number, longTermShares: number): GainTerm {
+  if (longTermShares <= SHARE_EPSILON) return 'short';
+  if (shortTermShares <= SHARE_EPSILON) return 'long';
+  return 'mixed';
+}
+
+/**
+ * Group lot matches into realized results per SELL trade
+ */
+function groupMatchesBySale(matches: LotMatch[]): RealizedSale[] {
+  const sales = new Map<string, RealizedSale & { shortTermShares: number; longTermShares: number }>();
+  
+  for (const match of matches) {
+    let sale = sales.get(match.sellTradeId);
+    if (!sale) {
+      sale = {
+        sellTradeId: match.sellTradeId,
+        ticker: match.ticker,
+        closedAt: match.closedAt,
+        shares: 0,
+        proceeds: 0,
+        costBasis: 0,
+        realizedGain: 0,
+        shortTermGain: 0,
+        longTermGain: 0,
+        term: 'short',
+        shortTermShares: 0,
+        longTermShares: 0,
+      };
+      sales.set(match.sellTradeId, sale);
+    }
+    
+    const gain = match.proceeds - match.costBasis;
+    sale.shares += match.shares;
+    sale.proceeds += match.proceeds;
+    sale.costBasis += match.costBasis;
+    sale.realizedGain += gain;
+    
+    if (isLongTermMatch(match)) {
+      sale.longTermGain += gain;
+      sale.longTermShares += match.shares;
+    } else {
+      sale.shortTermGain += gain;
+      sale.shortTermShares += match.shares;
+    }
+  }
+  
+  return [...sales.values()].map(({ shortTermShares, longTermShares, ...sale }) => ({
+    ...sale,
+    term: getGainTerm(shortTermShares, longTermShares),
+  }));
+}
+
+/**
+ * Calculate realized P/L for each SELL trade of a ticker
+ */
+export function calculateRealizedSales(
+  trades: Trade[],
+  ticker: string,
+  method: CostBasisMethod = 'FIFO',
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
+): RealizedSale[] {
+  const { matches } = buildTaxLots(trades, ticker, method, fx, actions);
+  return groupMatchesBySale(matches);
+}
+
+/**
+ * Calculate realized P/L per ticker for every ticker with at least one sell
+ */
+export function calculateRealizedPositions(
+  trades: Trade[],
+  method: CostBasisMethod = 'FIFO',
+  fx: FxConverter = NO_FX,
+  actions: CorporateAction[] = []
+): RealizedPosition[] {
+  const tickers = getTickers(trades, actions);
+  const positions: RealizedPosition[] = [];
+  
+  for (const ticker of tickers) {
+    const { openLots, matches } = buildTaxLots(trades, ticker, method, fx, actions);
+    if (matches.length === 0) continue;
+    
+    const sales = groupMatchesBySale(matches);
+    const proceeds = sales.reduce((sum, s) => sum + s.proceeds, 0);
+    const costBasis = sales.reduce((sum, s) => sum + s.costBasis, 0);
+    const realizedGain = proceeds - costBasis;
+    
+    const shortTermShares = matches.filter(m => !isLongTermMatch(m)).reduce((sum, m) => sum + m.shares, 0);
+    const longTermShares = matches.filter(m => isLongTermMatch(m)).reduce((sum, m) => sum + m.shares, 0);
+    
+    const openedAt = matches.reduce((earliest, m) => m.openedAt < earliest ? m.openedAt : earliest, matches[0].openedAt);
+    const closedAt = matches.reduce((latest, m) => m.closedAt > latest ? m.closedAt : latest, matches[0].closedAt);
+    
+    positions.push({
+      ticker,
+      ...getSecurityInfo(trades, ticker, actions),
+      sharesSold: sales.reduce((sum, s) => sum + s.shares, 0),
+      proceeds,
+      costBasis,
+      realizedGain,
+      realizedGainPercent: costBasis > 0 ? (realizedGain / costBasis) * 100 : 0,
+      shortTermGain: sales.reduce((sum, s) => sum + s.shortTermGain, 0),
+      longTermGain: sales.reduce((sum, s) => sum + s.longTermGain, 0),
+      term: getGainTerm(shortTermShares, longTermShares),
+      openedAt,
+      closedAt,
+      holdingPeriodDays: Math.ceil((new Date(closedAt).getTime() - new Date(openedAt).getTime()) / MS_PER_DAY),
+      isClosed: openLots.length === 0,
+      sales,
+    });
+  }
+  
+  return positions;
+}
+
 /**
  * Calculate portfolio totals
  */
-export function calculatePortfolioTotals(holdings: Holding[]) {
+export function calculatePortfolioTotals(holdings: Holding[], dividendIncome = 0) {
   const totalValue = holdings.reduce((sum, h) => sum + h.currentValue, 0);
   const totalInvested = holdings.reduce((sum, h) => sum + h.investedAmount, 0);
   const totalPL = totalValue - totalInvested;
   const totalPLPercent = totalInvested > 0 ? (totalPL / totalInvested) * 100 : 0;
+  const totalPriceReturn = holdings.reduce((sum, h) => sum + h.priceReturn, 0);
+  const totalCurrencyReturn = holdings.reduce((sum, h) => sum + h.currencyReturn, 0);
+  
+  // Total return adds net dividend income on top of unrealized P/L
+  const totalReturn = totalPL + dividendIncome;
+  const totalReturnPercent = totalInvested > 0 ? (totalReturn / totalInvested) * 100 : 0;
   
-  return { totalValue, totalInvested, totalPL, totalPLPercent };
+  return {
+    totalValue,
+    totalInvested,
+    totalPL,
+    totalPLPercent,
+    totalPriceReturn,
+    totalCurrencyReturn,
+    totalDividends: dividendIncome,
+    totalReturn,
+    totalReturnPercent,
+  };
 }
 
 /**
@@ -157,15 +690,22 @@ function getAssetLogo(ticker: string): string {
 }
 
 /**
- * Format currency
+ * Format currency (minor units such as GBX are shown in the major currency)
  */
 export function formatCurrency(value: number, currency = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
+  const { currency: major, divisor } = normalizeCurrency(currency);
+  
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: major,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value / divisor);
+  } catch {
+    // Unknown currency code
+    return `${(value / divisor).toFixed(2)} ${major}`;
+  }
 }
 
 /**
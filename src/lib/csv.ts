@@ -0,0 +1,108 @@
+/**
+ * RFC 4180 CSV tokenizer. Text can be fed in chunks of any size (a quoted
+ * field, or a CRLF, may be split across chunks); quoted fields may contain
+ * commas, doubled quotes and line breaks.
+ */
+
+export interface CsvStreamParser {
+  write: (chunk: string) => void;
+  /** Emit the last row if the text didn't end with a line break */
+  end: () => void;
+}
+
+/**
+ * Tokenizer that calls `onRow` with the cells of each completed row.
+ * Empty lines are emitted as a row with one empty cell.
+ */
+export function createCsvStreamParser(onRow: (row: string[]) => void, delimiter = ','): CsvStreamParser {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotePending = false;     // Saw a quote inside a quoted field: either "" or the closing quote
+  let skipLineFeed = false;     // Saw CR; a following LF belongs to the same line break
+  let started = false;          // The current row has any content
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    onRow(row);
+    row = [];
+    started = false;
+  };
+
+  const write = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // Fall through: the character after the closing quote is read normally
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && !field.trim()) {
+        // Spaces before an opening quote (", "a"") are dropped
+        field = '';
+        inQuotes = true;
+        started = true;
+      } else if (char === delimiter) {
+        endField();
+        started = true;
+      } else if (char === '\r' || char === '\n') {
+        endRow();
+        skipLineFeed = char === '\r';
+      } else {
+        // Stray quotes inside an unquoted field are kept as text
+        field += char;
+        started = true;
+      }
+    }
+  };
+
+  const end = () => {
+    if (started || field || row.length > 0) endRow();
+    inQuotes = false;
+    quotePending = false;
+  };
+
+  return { write, end };
+}
+
+/**
+ * All rows of a CSV text
+ */
+export function parseCSVRows(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  const parser = createCsvStreamParser(row => rows.push(row), delimiter);
+  parser.write(content);
+  parser.end();
+  return rows;
+}
+
+/**
+ * True for rows without any non-blank cell (empty lines, ",,,")
+ */
+export function isBlankRow(row: string[]): boolean {
+  return row.every(cell => !cell.trim());
+}
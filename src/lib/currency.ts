@@ -0,0 +1,21 @@
+// Minor units quoted by exchanges (London prices in pence, etc.)
+const MINOR_UNITS: Record<string, { currency: string; divisor: number }> = {
+  GBX: { currency: 'GBP', divisor: 100 },
+  GBp: { currency: 'GBP', divisor: 100 },
+  ZAc: { currency: 'ZAR', divisor: 100 },
+  ILA: { currency: 'ILS', divisor: 100 },
+};
+
+/**
+ * Split a currency code into its major currency and minor-unit divisor.
+ * Case matters: Yahoo quotes London listings as 'GBp' (pence), not 'GBP'.
+ */
+export function normalizeCurrency(code: string | undefined): { currency: string; divisor: number } {
+  const trimmed = (code || '').trim();
+  if (MINOR_UNITS[trimmed]) return MINOR_UNITS[trimmed];
+
+  const upper = trimmed.toUpperCase();
+  if (MINOR_UNITS[upper]) return MINOR_UNITS[upper];
+
+  return { currency: upper || 'USD', divisor: 1 };
+}
@@ -0,0 +1,169 @@
+import type {
+  CashEvent,
+  DividendSummary,
+  FxConverter,
+  Holding,
+  MonthlyIncome,
+} from '@/types/portfolio';
+
+const TRAILING_DAYS = 365;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+interface EventIncome {
+  gross: number;
+  withholdingTax: number;
+}
+
+/**
+ * Gross income and tax withheld for one event, in the base currency
+ */
+export function getEventIncome(event: CashEvent, fx: FxConverter): EventIncome {
+  const amount = event.amount * fx.rate(event.currency, event.timestamp);
+
+  switch (event.type) {
+    case 'DIVIDEND': {
+      // Trading212 reports the net dividend with the tax withheld alongside
+      const withheld = event.withholdingTax * fx.rate(event.withholdingTaxCurrency, event.timestamp);
+      return { gross: amount + withheld, withholdingTax: withheld };
+    }
+    case 'WITHHOLDING_TAX':
+      return { gross: 0, withholdingTax: amount };
+    case 'INTEREST':
+      return { gross: amount, withholdingTax: 0 };
+    case 'FEE':
+      // Fees are costs, not income (see lib/fees)
+      return { gross: 0, withholdingTax: 0 };
+  }
+}
+
+function isTrailing(timestamp: string): boolean {
+  return Date.now() - new Date(timestamp).getTime() <= TRAILING_DAYS * MS_PER_DAY;
+}
+
+/**
+ * Per-ticker dividend income, withholding tax and yield on cost.
+ * Yield on cost uses trailing 12-month net income over the open cost basis.
+ */
+export function calculateDividendSummaries(
+  events: CashEvent[],
+  holdings: Holding[],
+  fx: FxConverter
+): DividendSummary[] {
+  const byTicker = new Map<string, DividendSummary>();
+
+  for (const event of events) {
+    if (event.type === 'INTEREST' || event.type === 'FEE' || !event.ticker) continue;
+
+    let summary = byTicker.get(event.ticker);
+    if (!summary) {
+      summary = {
+        ticker: event.ticker,
+        name: event.name || event.ticker,
+        grossIncome: 0,
+        withholdingTax: 0,
+        netIncome: 0,
+        trailingNetIncome: 0,
+        yieldOnCost: 0,
+        paymentCount: 0,
+        lastPaymentAt: event.timestamp,
+      };
+      byTicker.set(event.ticker, summary);
+    }
+
+    const { gross, withholdingTax } = getEventIncome(event, fx);
+    summary.grossIncome += gross;
+    summary.withholdingTax += withholdingTax;
+    summary.netIncome += gross - withholdingTax;
+    if (isTrailing(event.timestamp)) {
+      summary.trailingNetIncome += gross - withholdingTax;
+    }
+
+    if (event.type === 'DIVIDEND') {
+      summary.paymentCount++;
+      if (event.timestamp > summary.lastPaymentAt) {
+        summary.lastPaymentAt = event.timestamp;
+      }
+    }
+  }
+
+  const investedByTicker = new Map(holdings.map(h => [h.ticker, h.investedAmount]));
+
+  return [...byTicker.values()]
+    .map(summary => {
+      const invested = investedByTicker.get(summary.ticker) || 0;
+      return {
+        ...summary,
+        yieldOnCost: invested > 0 ? (summary.trailingNetIncome / invested) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.netIncome - a.netIncome);
+}
+
+/**
+ * Net income per calendar month (YYYY-MM), oldest first.
+ * Pass a year to get all twelve months of that year, including empty ones.
+ */
+export function calculateMonthlyIncome(
+  events: CashEvent[],
+  fx: FxConverter,
+  year?: number
+): MonthlyIncome[] {
+  const byMonth = new Map<string, MonthlyIncome>();
+
+  if (year !== undefined) {
+    for (let m = 1; m <= 12; m++) {
+      const month = `${year}-${String(m).padStart(2, '0')}`;
+      byMonth.set(month, { month, netIncome: 0, withholdingTax: 0, paymentCount: 0 });
+    }
+  }
+
+  for (const event of events) {
+    if (event.type === 'FEE') continue;
+    const month = event.timestamp.substring(0, 7);
+    if (year !== undefined && !month.startsWith(`${year}-`)) continue;
+
+    let income = byMonth.get(month);
+    if (!income) {
+      income = { month, netIncome: 0, withholdingTax: 0, paymentCount: 0 };
+      byMonth.set(month, income);
+    }
+
+    const { gross, withholdingTax } = getEventIncome(event, fx);
+    income.netIncome += gross - withholdingTax;
+    income.withholdingTax += withholdingTax;
+    if (event.type !== 'WITHHOLDING_TAX') {
+      income.paymentCount++;
+    }
+  }
+
+  return [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+}
+
+/**
+ * Lifetime income totals in the base currency
+ */
+export function calculateIncomeTotals(events: CashEvent[], fx: FxConverter) {
+  let grossDividends = 0;
+  let interest = 0;
+  let withholdingTax = 0;
+  let trailingNetIncome = 0;
+
+  for (const event of events) {
+    if (event.type === 'FEE') continue;
+    const income = getEventIncome(event, fx);
+    if (event.type === 'INTEREST') {
+      interest += income.gross;
+    } else {
+      grossDividends += income.gross;
+    }
+    withholdingTax += income.withholdingTax;
+    if (isTrailing(event.timestamp)) {
+      trailingNetIncome += income.gross - income.withholdingTax;
+    }
+  }
+
+  const netDividends = grossDividends - withholdingTax;
+  const netIncome = netDividends + interest;
+
+  return { grossDividends, interest, withholdingTax, netDividends, netIncome, trailingNetIncome };
+}
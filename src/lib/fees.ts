@@ -0,0 +1,80 @@
+import type { CashEvent, FeeBreakdown, FxConverter, Trade } from '@/types/portfolio';
+
+interface TradeCosts {
+  fees: number;
+  taxes: number;
+}
+
+/**
+ * Fees and taxes of one trade in the base currency
+ */
+export function getTradeCosts(trade: Trade, fx: FxConverter): TradeCosts {
+  const fallbackCurrency = trade.totalCurrency || trade.priceCurrency;
+  return {
+    fees: trade.fees ? trade.fees * fx.rate(trade.feesCurrency || fallbackCurrency, trade.timestamp) : 0,
+    taxes: trade.taxes ? trade.taxes * fx.rate(trade.taxesCurrency || fallbackCurrency, trade.timestamp) : 0,
+  };
+}
+
+/**
+ * Fees and taxes of one trade per share, in the trade price currency
+ */
+export function getTradeCostsPerShare(trade: Trade, fx: FxConverter): number {
+  if (!trade.fees && !trade.taxes) return 0;
+  const { fees, taxes } = getTradeCosts(trade, fx);
+  const priceRate = fx.rate(trade.priceCurrency, trade.timestamp);
+  return priceRate > 0 && trade.shares > 0 ? (fees + taxes) / priceRate / trade.shares : 0;
+}
+
+function emptyBreakdown(key: string): FeeBreakdown {
+  return { key, fees: 0, taxes: 0, total: 0, tradedValue: 0, drag: 0, tradeCount: 0 };
+}
+
+function finalize(breakdown: FeeBreakdown): FeeBreakdown {
+  const total = breakdown.fees + breakdown.taxes;
+  return {
+    ...breakdown,
+    total,
+    drag: breakdown.tradedValue > 0 ? (total / breakdown.tradedValue) * 100 : 0,
+  };
+}
+
+/**
+ * Trading costs in total, per broker (trade source) and per year, newest year first.
+ * Standalone fee rows count as fees; cost drag is costs over traded value.
+ */
+export function calculateFeeReport(trades: Trade[], cashEvents: CashEvent[], fx: FxConverter) {
+  const totals = emptyBreakdown('total');
+  const byBroker = new Map<string, FeeBreakdown>();
+  const byYear = new Map<string, FeeBreakdown>();
+
+  const add = (source: string, timestamp: string, fees: number, taxes: number, tradedValue: number, trade: boolean) => {
+    const year = timestamp.substring(0, 4);
+    if (!byBroker.has(source)) byBroker.set(source, emptyBreakdown(source));
+    if (!byYear.has(year)) byYear.set(year, emptyBreakdown(year));
+
+    for (const breakdown of [totals, byBroker.get(source)!, byYear.get(year)!]) {
+      breakdown.fees += fees;
+      breakdown.taxes += taxes;
+      breakdown.tradedValue += tradedValue;
+      if (trade) breakdown.tradeCount++;
+    }
+  };
+
+  for (const trade of trades) {
+    const { fees, taxes } = getTradeCosts(trade, fx);
+    const value = trade.shares * trade.pricePerShare * fx.rate(trade.priceCurrency, trade.timestamp);
+    add(trade.source, trade.timestamp, fees, taxes, value, true);
+  }
+
+  for (const event of cashEvents) {
+    if (event.type !== 'FEE') continue;
+    add(event.source, event.timestamp, event.amount * fx.rate(event.currency, event.timestamp), 0, 0, false);
+  }
+
+  return {
+    totals: finalize(totals),
+    byBroker: [...byBroker.values()].map(finalize).sort((a, b) => b.total - a.total),
+    byYear: [...byYear.values()].map(finalize).sort((a, b) => b.key.localeCompare(a.key)),
+  };
+}
@@ -0,0 +1,246 @@
+import type {
+  CashEvent,
+  CashFlow,
+  ChartRange,
+  CorporateAction,
+  FxConverter,
+  PortfolioValuePoint,
+  PriceHistory,
+  Trade,
+} from '@/types/portfolio';
+import { getEventIncome } from '@/lib/dividends';
+import { getTradeCosts } from '@/lib/fees';
+
+// Shares below this threshold are treated as zero (float noise from fractional trades)
+const SHARE_EPSILON = 1e-9;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// How far back each range reaches, with slack for weekends and holidays
+const RANGE_DAYS: Record<Exclude<ChartRange, 'YTD' | 'All'>, number> = {
+  '1D': 4,
+  '5D': 9,
+  '1M': 31,
+  '3M': 92,
+  '6M': 183,
+  '1Y': 366,
+  '5Y': 1827,
+};
+
+type TimelineEvent =
+  | { time: number; kind: 'action'; action: CorporateAction }
+  | { time: number; kind: 'trade'; trade: Trade };
+
+/**
+ * Trades and corporate actions oldest first; actions before trades at the same time
+ */
+function buildTimeline(trades: Trade[], actions: CorporateAction[]): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    ...actions.map(action => ({ time: new Date(action.effectiveDate).getTime(), kind: 'action' as const, action })),
+    ...trades.map(trade => ({ time: new Date(trade.timestamp).getTime(), kind: 'trade' as const, trade })),
+  ];
+  return events.sort((a, b) => a.time - b.time || (a.kind === b.kind ? 0 : a.kind === 'action' ? -1 : 1));
+}
+
+/**
+ * Apply one event to the share count per ticker
+ */
+function applyEvent(shares: Map<string, number>, event: TimelineEvent) {
+  if (event.kind === 'trade') {
+    const { ticker, action, shares: quantity } = event.trade;
+    const signed = action === 'BUY' ? quantity : -quantity;
+    shares.set(ticker, (shares.get(ticker) || 0) + signed);
+    return;
+  }
+
+  const { action } = event;
+  const held = shares.get(action.ticker) || 0;
+  if (held <= SHARE_EPSILON) return;
+
+  switch (action.type) {
+    case 'SPLIT':
+      shares.set(action.ticker, held * action.ratio);
+      break;
+    case 'TICKER_CHANGE':
+      if (!action.newTicker) break;
+      shares.delete(action.ticker);
+      shares.set(action.newTicker, (shares.get(action.newTicker) || 0) + held);
+      break;
+    case 'SPINOFF':
+      if (!action.newTicker) break;
+      shares.set(action.newTicker, (shares.get(action.newTicker) || 0) + held * action.ratio);
+      break;
+    case 'MERGER':
+      shares.delete(action.ticker);
+      if (action.newTicker && action.cashPerShare === undefined) {
+        shares.set(action.newTicker, (shares.get(action.newTicker) || 0) + held * action.ratio);
+      }
+      break;
+  }
+}
+
+/**
+ * Start of a chart range in ms (approximate for intraday ranges)
+ */
+export function getRangeStart(range: ChartRange, trades: Trade[]): number {
+  if (range === 'All') {
+    return trades.reduce((earliest, t) => Math.min(earliest, new Date(t.timestamp).getTime()), Date.now());
+  }
+  if (range === 'YTD') {
+    return new Date(new Date().getFullYear(), 0, 1).getTime();
+  }
+  return Date.now() - RANGE_DAYS[range] * MS_PER_DAY;
+}
+
+/**
+ * Tickers held at `since` or traded after it - the ones a chart starting there needs prices for
+ */
+export function getTickersHeldSince(
+  trades: Trade[],
+  actions: CorporateAction[],
+  since: number
+): string[] {
+  const shares = new Map<string, number>();
+  const tickers = new Set<string>();
+
+  for (const event of buildTimeline(trades, actions)) {
+    if (event.time < since) {
+      applyEvent(shares, event);
+      continue;
+    }
+    if (event.kind === 'trade') {
+      tickers.add(event.trade.ticker);
+    } else {
+      tickers.add(event.action.ticker);
+      if (event.action.newTicker) tickers.add(event.action.newTicker);
+    }
+  }
+
+  shares.forEach((held, ticker) => {
+    if (held > SHARE_EPSILON) tickers.add(ticker);
+  });
+  return [...tickers];
+}
+
+/**
+ * Ratio of all splits of a ticker after a time. Yahoo closes are split-adjusted,
+ * so pre-split share counts are scaled by this before valuing them.
+ */
+function getLaterSplitFactor(ticker: string, time: number, actions: CorporateAction[]): number {
+  return actions.reduce((factor, action) => {
+    if (action.type !== 'SPLIT' || action.ticker !== ticker) return factor;
+    return new Date(action.effectiveDate).getTime() > time ? factor * action.ratio : factor;
+  }, 1);
+}
+
+/**
+ * Reconstruct the portfolio's market value at every close in the price histories.
+ * Trades and corporate actions are replayed to get the shares held at each point,
+ * which are valued at that point's close and FX rate. Tickers that have no close
+ * yet at a point use their first close. `previousClose` values the shares held
+ * before the first point at each ticker's previous close.
+ */
+export function calculatePortfolioHistory(
+  trades: Trade[],
+  histories: Map<string, PriceHistory>,
+  fx: FxConverter,
+  actions: CorporateAction[] = [],
+  since?: number
+): { points: PortfolioValuePoint[]; previousClose: number | null } {
+  const timeSet = new Set<number>();
+  histories.forEach(history => {
+    history.points.forEach(p => {
+      if (since === undefined || p.time >= since) timeSet.add(p.time);
+    });
+  });
+  const times = [...timeSet].sort((a, b) => a - b);
+  if (times.length === 0) return { points: [], previousClose: null };
+
+  const timeline = buildTimeline(trades, actions);
+  const shares = new Map<string, number>();
+  const cursors = new Map<string, number>();
+  let next = 0;
+
+  // Shares held going into the first point
+  while (next < timeline.length && timeline[next].time < times[0]) {
+    applyEvent(shares, timeline[next++]);
+  }
+
+  let previousClose: number | null = null;
+  const firstDate = new Date(times[0]).toISOString();
+  shares.forEach((held, ticker) => {
+    const history = histories.get(ticker);
+    if (held <= SHARE_EPSILON || !history?.previousClose) return;
+    const adjusted = held * getLaterSplitFactor(ticker, times[0], actions);
+    previousClose = (previousClose ?? 0) + adjusted * history.previousClose * fx.rate(history.currency, firstDate);
+  });
+
+  const points = times.map(time => {
+    while (next < timeline.length && timeline[next].time <= time) {
+      applyEvent(shares, timeline[next++]);
+    }
+
+    const date = new Date(time).toISOString();
+    let value = 0;
+
+    shares.forEach((held, ticker) => {
+      const history = histories.get(ticker);
+      if (held <= SHARE_EPSILON || !history || history.points.length === 0) return;
+
+      // Advance to the last close on or before this point
+      let cursor = cursors.get(ticker) ?? 0;
+      while (cursor + 1 < history.points.length && history.points[cursor + 1].time <= time) {
+        cursor++;
+      }
+      cursors.set(ticker, cursor);
+
+      const adjusted = held * getLaterSplitFactor(ticker, time, actions);
+      value += adjusted * history.points[cursor].close * fx.rate(history.currency, date);
+    });
+
+    return { time, value };
+  });
+
+  return { points, previousClose };
+}
+
+/**
+ * Money moved into and out of the holdings: buys are contributions, sells,
+ * cash mergers and net dividends on the traded tickers are withdrawals.
+ */
+export function calculateCashFlows(
+  trades: Trade[],
+  fx: FxConverter,
+  actions: CorporateAction[] = [],
+  cashEvents: CashEvent[] = []
+): CashFlow[] {
+  const flows: CashFlow[] = [];
+  const shares = new Map<string, number>();
+
+  for (const event of buildTimeline(trades, actions)) {
+    if (event.kind === 'trade') {
+      const { action, shares: quantity, pricePerShare, priceCurrency, timestamp } = event.trade;
+      const value = quantity * pricePerShare * fx.rate(priceCurrency, timestamp);
+      const { fees, taxes } = getTradeCosts(event.trade, fx);
+      // Costs are paid on top of a buy and come out of a sale
+      flows.push({ time: event.time, amount: action === 'BUY' ? value + fees + taxes : -(value - fees - taxes) });
+    } else {
+      const { action } = event;
+      const held = shares.get(action.ticker) || 0;
+      if (action.type === 'MERGER' && action.cashPerShare !== undefined && held > SHARE_EPSILON) {
+        const currency = action.currency || 'USD';
+        flows.push({ time: event.time, amount: -held * action.cashPerShare * fx.rate(currency, action.effectiveDate) });
+      }
+    }
+    applyEvent(shares, event);
+  }
+
+  const tickers = new Set(getTickersHeldSince(trades, actions, -Infinity));
+  for (const event of cashEvents) {
+    if (event.type === 'INTEREST' || event.type === 'FEE' || !tickers.has(event.ticker)) continue;
+    const { gross, withholdingTax } = getEventIncome(event, fx);
+    flows.push({ time: new Date(event.timestamp).getTime(), amount: -(gross - withholdingTax) });
+  }
+
+  return flows.sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,256 @@
+/**
+ * Date and number parsing for broker exports, which use whatever
+ * date order, separators and time zone the broker's locale has
+ */
+
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+export type DecimalSeparator = '.' | ',';
+
+// Time zone value for "the zone of this device"
+export const LOCAL_TIME_ZONE = 'local';
+
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+  offsetMinutes: number | null;  // Explicit UTC offset in the value, if any
+}
+
+// "20240105", "20240105;103000" (IBKR)
+const COMPACT_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:[;,\sT]+(\d{2}):?(\d{2})(?::?(\d{2}))?)?$/;
+// "2024-01-05", "2024/01/05", "2024.01.05"
+const YEAR_FIRST_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/;
+// "05/01/2024", "05.01.2024", "1-5-24"
+const YEAR_LAST_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/;
+// Time after the date: "10:30", "10:30:15.123", "3:05 PM"
+const TIME_PATTERN = /^[,\sT]*(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3})\d*)?)?\s*(am|pm)?/i;
+// UTC offset at the end: "Z", "+01:00", "-0500"
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+function parseOffset(value: string): number | null {
+  const match = value.trim().match(OFFSET_PATTERN);
+  if (!match) return null;
+  if (match[1].toUpperCase() === 'Z') return 0;
+
+  const sign = match[1].startsWith('-') ? -1 : 1;
+  const digits = match[1].substring(1).replace(':', '');
+  return sign * (Number(digits.substring(0, 2)) * 60 + Number(digits.substring(2)));
+}
+
+function splitDateTime(value: string, order: DateOrder): DateTimeParts | null {
+  const trimmed = value.trim();
+
+  const compact = trimmed.match(COMPACT_PATTERN);
+  if (compact) {
+    const [, year, month, day, hours, minutes, seconds] = compact;
+    return {
+      year: Number(year), month: Number(month), day: Number(day),
+      hours: Number(hours) || 0, minutes: Number(minutes) || 0, seconds: Number(seconds) || 0,
+      milliseconds: 0, offsetMinutes: null,
+    };
+  }
+
+  let year: number, month: number, day: number, rest: string;
+  const yearFirst = trimmed.match(YEAR_FIRST_PATTERN);
+  const yearLast = yearFirst ? null : trimmed.match(YEAR_LAST_PATTERN);
+
+  if (yearFirst) {
+    [year, month, day] = [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])];
+    rest = trimmed.substring(yearFirst[0].length);
+  } else if (yearLast) {
+    const [first, second] = [Number(yearLast[1]), Number(yearLast[2])];
+    [day, month] = order === 'MDY' ? [second, first] : [first, second];
+    year = yearLast[3].length === 2 ? 2000 + Number(yearLast[3]) : Number(yearLast[3]);
+    rest = trimmed.substring(yearLast[0].length);
+  } else {
+    return null;
+  }
+
+  const time = rest.match(TIME_PATTERN);
+  let hours = time ? Number(time[1]) : 0;
+  const meridiem = time?.[5]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  return {
+    year, month, day, hours,
+    minutes: time ? Number(time[2]) : 0,
+    seconds: time?.[3] ? Number(time[3]) : 0,
+    milliseconds: time?.[4] ? Number(time[4].padEnd(3, '0')) : 0,
+    offsetMinutes: time ? parseOffset(rest) : null,
+  };
+}
+
+/**
+ * Offset of an IANA time zone from UTC at a moment, in minutes (null for an unknown zone)
+ */
+function getZoneOffset(timeZone: string, timestamp: number): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(new Date(timestamp));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const wallTime = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return Math.round((wallTime - Math.floor(timestamp / 1000) * 1000) / 60000);
+  } catch (error) {
+    console.warn(`Unknown time zone ${timeZone}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse a broker date/time into an ISO string. Values without a UTC offset are
+ * read in `timeZone` ('local', 'UTC' or an IANA zone such as 'Europe/London').
+ * Day-first or month-first is only needed for dates like "05/01/2024".
+ * Returns null when the value is not a valid date.
+ */
+export function parseDateTime(
+  value: string | undefined,
+  order: DateOrder = 'DMY',
+  timeZone: string = LOCAL_TIME_ZONE
+): string | null {
+  if (!value?.trim()) return null;
+
+  const parts = splitDateTime(value, order);
+  if (!parts) {
+    // Month names ("Jan 5, 2024") and other formats the browser understands
+    const fallback = new Date(value);
+    return /[a-z]{3}/i.test(value) && !isNaN(fallback.getTime()) ? fallback.toISOString() : null;
+  }
+
+  const { year, month, day, hours, minutes, seconds, milliseconds, offsetMinutes } = parts;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds);
+  // Reject days that roll over into the next month (31/02)
+  if (new Date(wallTime).getUTCDate() !== day) return null;
+
+  let timestamp: number;
+  if (offsetMinutes !== null) {
+    timestamp = wallTime - offsetMinutes * 60000;
+  } else if (timeZone === 'UTC') {
+    timestamp = wallTime;
+  } else {
+    const guessOffset = timeZone === LOCAL_TIME_ZONE ? null : getZoneOffset(timeZone, wallTime);
+    if (guessOffset === null) {
+      timestamp = new Date(year, month - 1, day, hours, minutes, seconds, milliseconds).getTime();
+    } else {
+      // Second pass picks up a DST change between the guess and the result
+      const offset = getZoneOffset(timeZone, wallTime - guessOffset * 60000) ?? guessOffset;
+      timestamp = wallTime - offset * 60000;
+    }
+  }
+
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Day-first or month-first, from dates in a file where the day is above 12.
+ * Falls back to `fallback` when every date is ambiguous.
+ */
+export function detectDateOrder(values: string[], fallback: DateOrder = 'DMY'): DateOrder {
+  let dayFirst = 0;
+  let monthFirst = 0;
+
+  for (const value of values) {
+    const match = value.trim().match(YEAR_LAST_PATTERN);
+    if (!match) continue;
+    if (Number(match[1]) > 12) dayFirst++;
+    if (Number(match[2]) > 12) monthFirst++;
+  }
+
+  if (dayFirst === monthFirst) return fallback;
+  return dayFirst > monthFirst ? 'DMY' : 'MDY';
+}
+
+/**
+ * True when at least one date could be read either way ("05/01/2024")
+ */
+export function hasAmbiguousDates(values: string[]): boolean {
+  return values.some(value => {
+    const match = value.trim().match(YEAR_LAST_PATTERN);
+    return !!match && Number(match[1]) <= 12 && Number(match[2]) <= 12 && match[1] !== match[2];
+  });
+}
+
+function cleanNumber(value: string): string {
+  return value
+    .replace(/[$€£¥₹₿'’\s]/g, '')
+    .replace(/[A-Za-z]{3}/g, '');
+}
+
+/**
+ * Decimal separator used in a file's numbers. "1.234,56" and "0,5" mean
+ * comma; "1,234.56" and "0.5" mean dot; "1,234" alone could be either.
+ */
+export function detectDecimalSeparator(values: string[], fallback: DecimalSeparator = '.'): DecimalSeparator {
+  let comma = 0;
+  let dot = 0;
+
+  for (const raw of values) {
+    const value = cleanNumber(raw);
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) comma++; else dot++;
+    } else if (lastComma >= 0) {
+      const grouped = value.split(',').length > 2 || /,\d{3}$/.test(value);
+      if (!grouped) comma++;
+      else if (value.split(',').length > 2) dot++;
+    } else if (lastDot >= 0) {
+      const grouped = value.split('.').length > 2 || /\.\d{3}$/.test(value);
+      if (!grouped) dot++;
+      else if (value.split('.').length > 2) comma++;
+    }
+  }
+
+  if (comma === dot) return fallback;
+  return comma > dot ? ',' : '.';
+}
+
+/**
+ * Parse a number written with the given decimal separator. Currency symbols
+ * and codes, thousands separators, "(12.50)" and "12.50-" negatives are handled.
+ */
+export function parseLocaleNumber(value: string | undefined, decimal: DecimalSeparator = '.'): number | null {
+  if (!value) return null;
+
+  let cleaned = cleanNumber(value);
+  if (!cleaned || cleaned === '-') return null;
+
+  let negative = false;
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.endsWith('-')) {
+    negative = true;
+    cleaned = cleaned.slice(0, -1);
+  }
+
+  const thousands = decimal === ',' ? '.' : ',';
+  cleaned = cleaned.split(thousands).join('');
+  if (decimal === ',') cleaned = cleaned.replace(',', '.');
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  const num = parseFloat(cleaned);
+  return negative ? -Math.abs(num) : num;
+}
+
+/**
+ * Local calendar date of a moment as yyyy-MM-dd, the value format of date inputs
+ */
+export function toLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,151 @@
+import type { BrokerPosition, Holding, PositionDifference, ReconciliationIssue, Trade } from '@/types/portfolio';
+import { normalizeCurrency } from '@/lib/currency';
+
+// Share counts closer than this are the same (fractional share rounding)
+const SHARE_TOLERANCE = 1e-4;
+
+// Average costs within 1% are the same (fees, FX rounding)
+const COST_TOLERANCE = 0.01;
+
+// New shares per old share of common splits; reverse splits are the reciprocals
+const SPLIT_RATIOS = [1.5, 2, 2.5, 3, 4, 5, 6, 7, 8, 10, 12, 15, 20, 25, 30, 40, 50, 100];
+
+// Relative slack on a split ratio (fractional shares paid out as cash in lieu)
+const SPLIT_RATIO_TOLERANCE = 0.001;
+
+/**
+ * Split ratio that turns the computed shares into the broker's, or null.
+ * When both total costs are known they must also agree, since a split
+ * doesn't change what the position cost.
+ */
+export function detectSplitRatio(
+  computedShares: number,
+  brokerShares: number,
+  computedCost: number | null = null,
+  brokerCost: number | null = null
+): number | null {
+  if (computedShares <= 0 || brokerShares <= 0) return null;
+  if (computedCost !== null && brokerCost !== null &&
+      Math.abs(computedCost - brokerCost) > brokerCost * COST_TOLERANCE) {
+    return null;
+  }
+
+  const ratio = brokerShares / computedShares;
+  const candidates = [...SPLIT_RATIOS, ...SPLIT_RATIOS.map(r => 1 / r)];
+  return candidates.find(r => Math.abs(ratio - r) / r < SPLIT_RATIO_TOLERANCE) ?? null;
+}
+
+/**
+ * Compare computed holdings with the positions a broker reports, per ticker.
+ * Tickers are matched by symbol, then by ISIN. Average costs are only
+ * compared when both sides are in the same currency.
+ */
+export function reconcilePositions(holdings: Holding[], positions: BrokerPosition[]): PositionDifference[] {
+  const remaining = new Map(holdings.map(h => [h.ticker, h]));
+  const differences: PositionDifference[] = [];
+
+  for (const position of positions) {
+    const holding = remaining.get(position.ticker) ||
+      (position.isin ? holdings.find(h => h.isin === position.isin && remaining.has(h.ticker)) : undefined);
+    if (holding) remaining.delete(holding.ticker);
+
+    // Pence and pounds (GBp/GBP) count as the same currency
+    const reported = normalizeCurrency(position.currency);
+    const held = normalizeCurrency(holding?.currency);
+    const computedShares = holding?.shares ?? 0;
+    const computedAverageCost = holding && held.currency === reported.currency
+      ? (holding.averageBuyPrice / held.divisor) * reported.divisor
+      : null;
+    const brokerAverageCost = position.costBasis !== null && position.shares !== 0
+      ? Math.abs(position.costBasis / position.shares)
+      : null;
+
+    const sharesMatch = Math.abs(computedShares - position.shares) < SHARE_TOLERANCE;
+    const costMatches = computedAverageCost === null || brokerAverageCost === null ||
+      Math.abs(computedAverageCost - brokerAverageCost) <= brokerAverageCost * COST_TOLERANCE;
+    const splitRatio = holding && !sharesMatch
+      ? detectSplitRatio(
+          computedShares,
+          position.shares,
+          computedAverageCost !== null ? computedAverageCost * computedShares : null,
+          brokerAverageCost !== null ? brokerAverageCost * position.shares : null
+        )
+      : null;
+
+    let issue: ReconciliationIssue | null = null;
+    if (!sharesMatch) issue = splitRatio ? 'split' : 'missing-trades';
+    else if (!costMatches) issue = 'average-cost';
+
+    differences.push({
+      ticker: holding?.ticker ?? position.ticker,
+      name: holding?.name || position.name || position.ticker,
+      status: !holding ? 'missing' : issue ? 'different' : 'matched',
+      issue,
+      computedShares,
+      brokerShares: position.shares,
+      computedAverageCost,
+      brokerAverageCost,
+      currency: position.currency,
+      splitRatio,
+    });
+  }
+
+  for (const holding of remaining.values()) {
+    differences.push({
+      ticker: holding.ticker,
+      name: holding.name,
+      status: 'not-at-broker',
+      issue: 'missing-trades',
+      computedShares: holding.shares,
+      brokerShares: 0,
+      computedAverageCost: holding.averageBuyPrice,
+      brokerAverageCost: null,
+      currency: holding.currency,
+      splitRatio: null,
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Manual trade that brings the computed shares to the broker's count on
+ * `timestamp`. A buy is priced so the average cost also ends up at the
+ * broker's; a sell is priced at the average cost, so it realizes no gain.
+ * Price is 0 when neither side knows the cost.
+ */
+export function buildAdjustingTrade(
+  difference: PositionDifference,
+  timestamp: string
+): Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'> | null {
+  const { computedShares, brokerShares, computedAverageCost, brokerAverageCost } = difference;
+  const shares = Math.abs(brokerShares - computedShares);
+  if (shares < SHARE_TOLERANCE) return null;
+
+  const action = brokerShares > computedShares ? 'BUY' : 'SELL';
+  let price = action === 'SELL'
+    ? computedAverageCost ?? brokerAverageCost ?? 0
+    : brokerAverageCost ?? computedAverageCost ?? 0;
+
+  if (action === 'BUY' && computedShares > 0 && computedAverageCost !== null && brokerAverageCost !== null) {
+    const implied = (brokerAverageCost * brokerShares - computedAverageCost * computedShares) / shares;
+    if (implied > 0) price = implied;
+  }
+  price = Math.round(price * 1e4) / 1e4;
+
+  return {
+    brokerTransactionId: `manual-${crypto.randomUUID()}`,
+    action,
+    timestamp,
+    isin: '',
+    ticker: difference.ticker,
+    name: difference.name,
+    shares,
+    pricePerShare: price,
+    priceCurrency: difference.currency,
+    totalValue: shares * price,
+    totalCurrency: difference.currency,
+    exchangeRate: 1,
+    source: 'manual',
+  };
+}
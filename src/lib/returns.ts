@@ -0,0 +1,195 @@
+import type { CashFlow, PortfolioValuePoint, ReturnMetrics } from '@/types/portfolio';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+
+// XIRR solver settings
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+interface Period {
+  start: PortfolioValuePoint;   // Value before the first point in the range (0 if nothing was held)
+  points: PortfolioValuePoint[];
+  flows: CashFlow[];            // Flows after start, up to the last point
+}
+
+/**
+ * Valuations and cash flows within [from, to]. The period starts at the last
+ * valuation on or before `from`; without one it starts empty, so the first
+ * contributions are part of the period.
+ */
+function getPeriod(points: PortfolioValuePoint[], flows: CashFlow[], from?: number, to?: number): Period | null {
+  const before = from === undefined ? [] : points.filter(p => p.time <= from);
+  const start = before.length > 0
+    ? before[before.length - 1]
+    : { time: from ?? -Infinity, value: 0 };
+
+  const inRange = points.filter(p => p.time > start.time && (to === undefined || p.time <= to));
+  if (inRange.length === 0) return null;
+
+  const end = inRange[inRange.length - 1].time;
+  return {
+    start,
+    points: inRange,
+    flows: flows.filter(f => f.time > start.time && f.time <= end),
+  };
+}
+
+/**
+ * (1 + r)^(1 / years) - 1, or null for periods shorter than a year
+ */
+function annualize(cumulative: number, years: number): number | null {
+  if (years < 1 || cumulative <= -1) return null;
+  return Math.pow(1 + cumulative, 1 / years) - 1;
+}
+
+/**
+ * Return of each sub-period between valuations in [from, to]. Flows are
+ * assumed to happen at the start of the sub-period they fall in; sub-periods
+ * that start with nothing invested are skipped.
+ */
+export function calculatePeriodReturns(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  from?: number,
+  to?: number
+): { start: number; end: number; return: number }[] {
+  const period = getPeriod(points, flows, from, to);
+  if (!period) return [];
+
+  const returns: { start: number; end: number; return: number }[] = [];
+  let previous = period.start;
+  let flowIndex = 0;
+
+  for (const point of period.points) {
+    let flow = 0;
+    while (flowIndex < period.flows.length && period.flows[flowIndex].time <= point.time) {
+      flow += period.flows[flowIndex++].amount;
+    }
+
+    const invested = previous.value + flow;
+    if (invested > 0) {
+      returns.push({ start: previous.time, end: point.time, return: point.value / invested - 1 });
+    }
+    previous = point;
+  }
+
+  return returns;
+}
+
+/**
+ * Time-weighted return: sub-period returns chained, so the result does not
+ * depend on when or how much money was added
+ */
+export function calculateTimeWeightedReturn(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  from?: number,
+  to?: number
+): number | null {
+  const returns = calculatePeriodReturns(points, flows, from, to);
+  if (returns.length === 0) return null;
+  return returns.reduce((growth, r) => growth * (1 + r.return), 1) - 1;
+}
+
+/**
+ * Internal rate of return for dated cash flows (investor's view: money in is
+ * negative, money out positive). Newton's method with a bisection fallback.
+ * Returns the annual rate, or null if there is no solution.
+ */
+export function calculateXIRR(flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+
+  const t0 = flows[0].time;
+  const years = flows.map(f => (f.time - t0) / MS_PER_YEAR);
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < XIRR_TOLERANCE) return rate;
+    const slope = derivative(rate);
+    if (slope === 0 || !isFinite(slope)) break;
+    const nextRate = rate - value / slope;
+    if (!isFinite(nextRate) || nextRate <= -1) break;
+    if (Math.abs(nextRate - rate) < XIRR_TOLERANCE) return nextRate;
+    rate = nextRate;
+  }
+
+  // Bisection between -99.99% and +1,000,000%
+  let lo = -0.9999;
+  let hi = 10000;
+  if (npv(lo) * npv(hi) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < XIRR_TOLERANCE) return mid;
+    if (npv(lo) * value < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Money-weighted return (annual XIRR) over [from, to]: the starting value
+ * counts as a contribution and the ending value as a withdrawal
+ */
+export function calculateMoneyWeightedReturn(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  from?: number,
+  to?: number
+): number | null {
+  const period = getPeriod(points, flows, from, to);
+  if (!period) return null;
+
+  const end = period.points[period.points.length - 1];
+  const dated: CashFlow[] = [
+    ...(period.start.value > 0 ? [{ time: period.start.time, amount: -period.start.value }] : []),
+    ...period.flows.map(f => ({ time: f.time, amount: -f.amount })),
+    { time: end.time, amount: end.value },
+  ];
+
+  return calculateXIRR(dated);
+}
+
+/**
+ * TWR and MWR over [from, to] (defaults: first flow to last valuation), in percent
+ */
+export function calculateReturnMetrics(
+  points: PortfolioValuePoint[],
+  flows: CashFlow[],
+  from?: number,
+  to?: number
+): ReturnMetrics | null {
+  const period = getPeriod(points, flows, from, to);
+  if (!period) return null;
+
+  const start = isFinite(period.start.time)
+    ? period.start.time
+    : Math.min(period.flows[0]?.time ?? Infinity, period.points[0].time);
+  const end = period.points[period.points.length - 1].time;
+  const years = (end - start) / MS_PER_YEAR;
+
+  const twr = calculateTimeWeightedReturn(points, flows, from, to);
+  const mwrAnnual = calculateMoneyWeightedReturn(points, flows, from, to);
+  const mwr = mwrAnnual === null ? null : Math.pow(1 + mwrAnnual, years) - 1;
+
+  const toPercent = (value: number | null) => (value === null ? null : value * 100);
+
+  return {
+    from: start,
+    to: end,
+    timeWeighted: toPercent(twr),
+    timeWeightedAnnualized: toPercent(twr === null ? null : annualize(twr, years)),
+    moneyWeighted: toPercent(mwr),
+    moneyWeightedAnnualized: toPercent(years < 1 ? null : mwrAnnual),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Listing exchanges and the symbols Yahoo Finance uses for them.
+ * A Yahoo symbol is the local ticker plus an exchange suffix ("VOW3.DE", "7203.T");
+ * US listings have no suffix.
+ */
+export interface Exchange {
+  suffix: string;               // Yahoo suffix without the dot ('' for US listings)
+  mic: string;                  // ISO 10383 market identifier code
+  currency: string;             // Listing currency (London quotes in pence, GBX)
+  name: string;
+}
+
+export type MarketState = 'PRE' | 'REGULAR' | 'POST' | 'CLOSED';
+
+// Weekday trading hours in the exchange's time zone, as minutes after midnight
+interface TradingHours {
+  timeZone: string;
+  open: number;
+  close: number;
+  preOpen?: number;             // Extended hours (US listings only)
+  postClose?: number;
+}
+
+export interface ParsedSymbol {
+  symbol: string;               // Yahoo symbol, e.g. "BP.L"
+  base: string;                 // Local ticker, e.g. "BP"
+  exchange: Exchange;
+}
+
+export const EXCHANGES: Exchange[] = [
+  { suffix: '', mic: 'XNAS', currency: 'USD', name: 'Nasdaq' },
+  { suffix: '', mic: 'XNYS', currency: 'USD', name: 'NYSE' },
+  { suffix: '', mic: 'ARCX', currency: 'USD', name: 'NYSE Arca' },
+  { suffix: '', mic: 'BATS', currency: 'USD', name: 'Cboe BZX' },
+  { suffix: 'DE', mic: 'XETR', currency: 'EUR', name: 'Xetra' },
+  { suffix: 'F', mic: 'XFRA', currency: 'EUR', name: 'Frankfurt' },
+  { suffix: 'L', mic: 'XLON', currency: 'GBX', name: 'London' },
+  { suffix: 'PA', mic: 'XPAR', currency: 'EUR', name: 'Euronext Paris' },
+  { suffix: 'AS', mic: 'XAMS', currency: 'EUR', name: 'Euronext Amsterdam' },
+  { suffix: 'BR', mic: 'XBRU', currency: 'EUR', name: 'Euronext Brussels' },
+  { suffix: 'LS', mic: 'XLIS', currency: 'EUR', name: 'Euronext Lisbon' },
+  { suffix: 'MI', mic: 'XMIL', currency: 'EUR', name: 'Borsa Italiana' },
+  { suffix: 'MC', mic: 'XMAD', currency: 'EUR', name: 'Madrid' },
+  { suffix: 'VI', mic: 'XWBO', currency: 'EUR', name: 'Vienna' },
+  { suffix: 'HE', mic: 'XHEL', currency: 'EUR', name: 'Helsinki' },
+  { suffix: 'IR', mic: 'XDUB', currency: 'EUR', name: 'Euronext Dublin' },
+  { suffix: 'SW', mic: 'XSWX', currency: 'CHF', name: 'SIX Swiss' },
+  { suffix: 'ST', mic: 'XSTO', currency: 'SEK', name: 'Stockholm' },
+  { suffix: 'CO', mic: 'XCSE', currency: 'DKK', name: 'Copenhagen' },
+  { suffix: 'OL', mic: 'XOSL', currency: 'NOK', name: 'Oslo' },
+  { suffix: 'WA', mic: 'XWAR', currency: 'PLN', name: 'Warsaw' },
+  { suffix: 'TO', mic: 'XTSE', currency: 'CAD', name: 'Toronto' },
+  { suffix: 'V', mic: 'XTSX', currency: 'CAD', name: 'TSX Venture' },
+  { suffix: 'T', mic: 'XTKS', currency: 'JPY', name: 'Tokyo' },
+  { suffix: 'HK', mic: 'XHKG', currency: 'HKD', name: 'Hong Kong' },
+  { suffix: 'AX', mic: 'XASX', currency: 'AUD', name: 'ASX' },
+  { suffix: 'NZ', mic: 'XNZE', currency: 'NZD', name: 'New Zealand' },
+  { suffix: 'SI', mic: 'XSES', currency: 'SGD', name: 'Singapore' },
+];
+
+const US_EXCHANGE = EXCHANGES[0];
+
+const US_HOURS: TradingHours = { timeZone: 'America/New_York', open: 570, close: 960, preOpen: 240, postClose: 1200 };
+
+// Holidays and lunch breaks aren't known
+const TRADING_HOURS: Record<string, TradingHours> = {
+  XNAS: US_HOURS,
+  XNYS: US_HOURS,
+  ARCX: US_HOURS,
+  BATS: US_HOURS,
+  XETR: { timeZone: 'Europe/Berlin', open: 540, close: 1050 },
+  XFRA: { timeZone: 'Europe/Berlin', open: 480, close: 1320 },
+  XLON: { timeZone: 'Europe/London', open: 480, close: 990 },
+  XPAR: { timeZone: 'Europe/Paris', open: 540, close: 1050 },
+  XAMS: { timeZone: 'Europe/Amsterdam', open: 540, close: 1050 },
+  XBRU: { timeZone: 'Europe/Brussels', open: 540, close: 1050 },
+  XLIS: { timeZone: 'Europe/Lisbon', open: 480, close: 990 },
+  XMIL: { timeZone: 'Europe/Rome', open: 540, close: 1050 },
+  XMAD: { timeZone: 'Europe/Madrid', open: 540, close: 1050 },
+  XWBO: { timeZone: 'Europe/Vienna', open: 540, close: 1050 },
+  XHEL: { timeZone: 'Europe/Helsinki', open: 600, close: 1110 },
+  XDUB: { timeZone: 'Europe/Dublin', open: 480, close: 990 },
+  XSWX: { timeZone: 'Europe/Zurich', open: 540, close: 1050 },
+  XSTO: { timeZone: 'Europe/Stockholm', open: 540, close: 1050 },
+  XCSE: { timeZone: 'Europe/Copenhagen', open: 540, close: 1020 },
+  XOSL: { timeZone: 'Europe/Oslo', open: 540, close: 980 },
+  XWAR: { timeZone: 'Europe/Warsaw', open: 540, close: 1020 },
+  XTSE: { timeZone: 'America/Toronto', open: 570, close: 960 },
+  XTSX: { timeZone: 'America/Toronto', open: 570, close: 960 },
+  XTKS: { timeZone: 'Asia/Tokyo', open: 540, close: 930 },
+  XHKG: { timeZone: 'Asia/Hong_Kong', open: 570, close: 960 },
+  XASX: { timeZone: 'Australia/Sydney', open: 600, close: 960 },
+  XNZE: { timeZone: 'Pacific/Auckland', open: 600, close: 1005 },
+  XSES: { timeZone: 'Asia/Singapore', open: 540, close: 1020 },
+};
+
+// IBKR exchange codes (Exchange / Listing Exch columns) to Yahoo suffixes
+const IBKR_EXCHANGES: Record<string, string> = {
+  NASDAQ: '', NYSE: '', ARCA: '', AMEX: '', BATS: '', ISLAND: '', PINK: '',
+  IBIS: 'DE', IBIS2: 'DE', XETRA: 'DE', FWB: 'F', FWB2: 'F',
+  LSE: 'L', LSEETF: 'L', LSEIOB1: 'L',
+  SBF: 'PA', AEB: 'AS', ENEXT_BE: 'BR', 'ENEXT.BE': 'BR', BVL: 'LS',
+  BVME: 'MI', 'BVME.ETF': 'MI', BM: 'MC', VSE: 'VI', HEX: 'HE', ISED: 'IR',
+  EBS: 'SW', VIRTX: 'SW', SFB: 'ST', CPH: 'CO', OSE: 'OL', WSE: 'WA',
+  TSE: 'TO', VENTURE: 'V', TSEJ: 'T', SEHK: 'HK', ASX: 'AX', NZE: 'NZ', SGX: 'SI',
+};
+
+// Trading212 instrument codes: "AAPL_US_EQ" (country) or "VOW3d_EQ" (lowercase exchange letter)
+const TRADING212_EXCHANGES: Record<string, string> = {
+  US: '', l: 'L', d: 'DE', p: 'PA', a: 'AS', b: 'BR', m: 'MI', e: 'MC', s: 'SW', v: 'VI', c: 'TO',
+};
+
+// Likely listing for a plain ticker, from its trade currency
+const CURRENCY_EXCHANGES: Record<string, string> = {
+  GBX: 'L', GBP: 'L', CHF: 'SW', SEK: 'ST', DKK: 'CO', NOK: 'OL', PLN: 'WA',
+  CAD: 'TO', JPY: 'T', HKD: 'HK', AUD: 'AX', NZD: 'NZ', SGD: 'SI',
+};
+
+// EUR has many exchanges, so the ISIN country picks one
+const EUR_ISIN_EXCHANGES: Record<string, string> = {
+  DE: 'DE', FR: 'PA', NL: 'AS', BE: 'BR', PT: 'LS', IT: 'MI', ES: 'MC', AT: 'VI', FI: 'HE',
+};
+
+const BASE_PATTERN = /^[A-Z0-9][A-Z0-9&]*(-[A-Z0-9]{1,2})?$/;
+
+/**
+ * Exchange for a Yahoo suffix (or MIC code)
+ */
+export function getExchange(suffixOrMic: string): Exchange | null {
+  const code = suffixOrMic.toUpperCase();
+  return EXCHANGES.find(e => e.suffix === code) || EXCHANGES.find(e => e.mic === code) || null;
+}
+
+/**
+ * Session of an exchange (by MIC code) at a moment; unknown codes use US hours
+ */
+export function getMarketSession(mic: string, now: Date = new Date()): MarketState {
+  const hours = TRADING_HOURS[mic] || US_HOURS;
+  const local = new Date(now.toLocaleString('en-US', { timeZone: hours.timeZone }));
+  const day = local.getDay();
+  const time = local.getHours() * 60 + local.getMinutes();
+
+  if (day === 0 || day === 6) return 'CLOSED';
+  if (time >= hours.open && time < hours.close) return 'REGULAR';
+  if (hours.preOpen !== undefined && time >= hours.preOpen && time < hours.open) return 'PRE';
+  if (hours.postClose !== undefined && time >= hours.close && time < hours.postClose) return 'POST';
+  return 'CLOSED';
+}
+
+/**
+ * Parse a Yahoo-style symbol. US share classes may be written with a dot
+ * ("BRK.B") and become "BRK-B". Returns null for anything that isn't a symbol.
+ */
+export function parseSymbol(raw: string | undefined): ParsedSymbol | null {
+  const upper = (raw || '').trim().toUpperCase();
+  if (!upper || upper.length > 20) return null;
+
+  const dot = upper.lastIndexOf('.');
+  let base = dot > 0 ? upper.substring(0, dot) : upper;
+  let exchange = dot > 0 ? getExchange(upper.substring(dot + 1)) : US_EXCHANGE;
+
+  // Not a known exchange suffix: a US share class like "BRK.B"
+  if (!exchange && /^[A-Z]{1,2}$/.test(upper.substring(dot + 1))) {
+    base = `${base}-${upper.substring(dot + 1)}`;
+    exchange = US_EXCHANGE;
+  }
+  if (!exchange || !BASE_PATTERN.test(base) || base.length > 12) return null;
+
+  return {
+    symbol: exchange.suffix ? `${base}.${exchange.suffix}` : base,
+    base,
+    exchange,
+  };
+}
+
+/**
+ * Yahoo symbol for a stored ticker, or the ticker itself if it can't be parsed
+ */
+export function toYahooSymbol(ticker: string): string {
+  return parseSymbol(ticker)?.symbol || ticker.trim().toUpperCase();
+}
+
+/**
+ * Listing currency of a symbol (USD for US listings)
+ */
+export function getListingCurrency(ticker: string): string {
+  return parseSymbol(ticker)?.exchange.currency || 'USD';
+}
+
+function withSuffix(base: string, suffix: string | undefined): string | null {
+  if (suffix === undefined) return null;
+  return parseSymbol(suffix ? `${base}.${suffix}` : base)?.symbol || null;
+}
+
+/**
+ * Yahoo symbol for a Trading212 instrument code ("AAPL_US_EQ", "VOW3d_EQ")
+ */
+export function fromTrading212Ticker(code: string): string | null {
+  const match = code.trim().match(/^([A-Za-z0-9.]+?)(?:_([A-Z]{2}))?_EQ$/);
+  if (!match) return null;
+
+  const [, local, country] = match;
+  // A trailing lowercase letter marks a non-US exchange
+  const exchangeLetter = !country && /[a-z]$/.test(local) ? local.slice(-1) : undefined;
+  const base = (exchangeLetter ? local.slice(0, -1) : local).replace(/\.$/, '').replace('.', '-').toUpperCase();
+
+  return withSuffix(base, TRADING212_EXCHANGES[country || exchangeLetter || 'US']);
+}
+
+/**
+ * Yahoo symbol for an IBKR symbol and exchange ("BRK B" on NYSE, "BP." on LSE)
+ */
+export function fromIbkrSymbol(symbol: string, exchange: string): string | null {
+  const base = symbol.trim().toUpperCase().replace(/\.$/, '').replace(/[\s.]+/g, '-');
+  const code = exchange.trim().toUpperCase();
+  return withSuffix(base, IBKR_EXCHANGES[code] ?? getExchange(code)?.suffix);
+}
+
+/**
+ * Best Yahoo symbol for a broker export row. Uses the exchange column when
+ * there is one, otherwise guesses the listing from the trade currency and,
+ * for EUR, the ISIN country. Tickers that already carry a suffix are kept.
+ */
+export function normalizeBrokerSymbol(
+  ticker: string,
+  options: { exchange?: string; currency?: string; isin?: string } = {}
+): string {
+  const trimmed = ticker.trim();
+  if (!trimmed) return '';
+
+  const fromTrading212 = trimmed.endsWith('_EQ') ? fromTrading212Ticker(trimmed) : null;
+  if (fromTrading212) return fromTrading212;
+
+  const fromExchange = options.exchange ? fromIbkrSymbol(trimmed, options.exchange) : null;
+  if (fromExchange) return fromExchange;
+
+  const parsed = parseSymbol(trimmed.replace(/\s+/g, '-'));
+  if (!parsed) return trimmed.toUpperCase();
+  if (parsed.exchange.suffix || trimmed.includes('.')) return parsed.symbol;
+
+  const currency = (options.currency || '').trim().toUpperCase();
+  const isinCountry = (options.isin || '').trim().substring(0, 2).toUpperCase();
+  const suffix = currency === 'EUR' ? EUR_ISIN_EXCHANGES[isinCountry] : CURRENCY_EXCHANGES[currency];
+
+  return withSuffix(parsed.base, suffix) || parsed.symbol;
+}
@@ -1,15 +1,51 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, TrendingUp, TrendingDown, ExternalLink, RefreshCw, AlertCircle } from 'lucide-react';
+import { ArrowLeft, TrendingUp, TrendingDown, ExternalLink, RefreshCw, AlertCircle, Trash2, Pencil, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine } from 'recharts';
-import { calculateHoldings, formatCurrency, formatPercent, formatQuantity } from '@/lib/calculations';
+import {
+  calculateHoldings,
+  calculateRealizedSales,
+  describeShortSale,
+  findNewShortSale,
+  getSourceTickers,
+  formatCurrency,
+  formatPercent,
+  formatQuantity,
+} from '@/lib/calculations';
 import { cn } from '@/lib/utils';
-import type { LivePrice, Trade } from '@/types/portfolio';
-import { getTrades } from '@/services/firestoreService';
+import type { CashEvent, ChartRange, CorporateAction, LivePrice, Trade } from '@/types/portfolio';
+import {
+  getTrades,
+  addTrades,
+  updateTrade,
+  deleteTrade,
+  getCashEvents,
+  getCorporateActions,
+  addCorporateActions,
+  deleteCorporateAction,
+} from '@/services/firestoreService';
 import { DecorativeBubbles } from '@/components/DecorativeBubbles';
 import { GradientCard } from '@/components/GradientCard';
+import { CorporateActionDialog } from '@/components/CorporateActionDialog';
+import { TradeDialog } from '@/components/TradeDialog';
+import { BenchmarkComparison } from '@/components/BenchmarkComparison';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { useFxRates } from '@/hooks/use-fx-rates';
+import { useReturnMetrics } from '@/hooks/use-return-metrics';
 import { 
   fetchStockData, 
   fetchStockNews, 
@@ -24,32 +60,80 @@ type TimeRange = '1D' | '5D' | '1M' | '3M' | '6M' | 'YTD' | '1Y' | 'MAX';
 
 const TIME_RANGES: TimeRange[] = ['1D', '5D', '1M', '3M', '6M', 'YTD', '1Y', 'MAX'];
 
+// Portfolio history range for each quote chart range
+const CHART_RANGES: Record<TimeRange, ChartRange> = {
+  '1D': '1D',
+  '5D': '5D',
+  '1M': '1M',
+  '3M': '3M',
+  '6M': '6M',
+  'YTD': 'YTD',
+  '1Y': '1Y',
+  'MAX': 'All',
+};
+
+/**
+ * One-line description of a corporate action
+ */
+function describeCorporateAction(action: CorporateAction): string {
+  switch (action.type) {
+    case 'SPLIT':
+      return action.ratio >= 1
+        ? `${formatQuantity(action.ratio)}-for-1 split`
+        : `1-for-${formatQuantity(1 / action.ratio)} reverse split`;
+    case 'TICKER_CHANGE':
+      return `Renamed ${action.ticker} → ${action.newTicker}`;
+    case 'SPINOFF':
+      return `${action.newTicker} spun off from ${action.ticker} (${formatQuantity(action.ratio)} per share, ${((action.costAllocation ?? 0) * 100).toFixed(1)}% of cost)`;
+    case 'MERGER':
+      return action.ratio > 0
+        ? `${action.ticker} merged into ${action.newTicker} (${formatQuantity(action.ratio)} per share)`
+        : `${action.ticker} acquired for ${formatCurrency(action.cashPerShare ?? 0, action.currency || 'USD')} per share`;
+  }
+}
+
 export default function AssetDetail() {
   const { symbol: rawSymbol } = useParams<{ symbol: string }>();
   const navigate = useNavigate();
   const [timeRange, setTimeRange] = useState<TimeRange>('1Y');
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [cashEvents, setCashEvents] = useState<CashEvent[]>([]);
   const [stockData, setStockData] = useState<StockData | null>(null);
   const [news, setNews] = useState<YahooNews[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isNewsLoading, setIsNewsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isTradeDialogOpen, setIsTradeDialogOpen] = useState(false);
+  const [deletingTrade, setDeletingTrade] = useState<Trade | null>(null);
+  const [editingTrade, setEditingTrade] = useState<Trade | undefined>();
+  const { preferences } = usePreferences();
+  const { activePortfolio, portfolioIds, isLoading: portfoliosLoading } = usePortfolios();
+  const { toast } = useToast();
 
   // Sanitize the symbol from URL
   const symbol = useMemo(() => sanitizeSymbol(rawSymbol), [rawSymbol]);
 
-  // Load trades from Firestore
+  // Load trades, corporate actions and dividends from Firestore
   useEffect(() => {
+    if (portfoliosLoading) return;
+
     const loadTrades = async () => {
       try {
-        const firestoreTrades = await getTrades();
+        const [firestoreTrades, firestoreActions, firestoreCashEvents] = await Promise.all([
+          getTrades(portfolioIds),
+          getCorporateActions(portfolioIds),
+          getCashEvents(portfolioIds),
+        ]);
         setTrades(firestoreTrades);
+        setCorporateActions(firestoreActions);
+        setCashEvents(firestoreCashEvents);
       } catch (error) {
         console.error('Error loading trades:', error);
       }
     };
     loadTrades();
-  }, []);
+  }, [portfolioIds, portfoliosLoading]);
 
   // Load stock data from Yahoo
   useEffect(() => {
@@ -119,8 +203,9 @@ export default function AssetDetail() {
         previousClose: stockData.quote.regularMarketPreviousClose,
         change: stockData.quote.regularMarketChange,
         changePercent: stockData.quote.regularMarketChangePercent,
+        currency: stockData.quote.currency,
         timestamp: Date.now(),
-        source: 'yahoo',
+        source: stockData.source,
       });
     }
     // Add prices for other holdings from trades
@@ -129,6 +214,7 @@ export default function AssetDetail() {
         priceMap.set(trade.ticker, {
           ticker: trade.ticker,
           price: trade.pricePerShare,
+          currency: trade.priceCurrency,
           timestamp: Date.now(),
           source: 'trade',
         });
@@ -137,11 +223,119 @@ export default function AssetDetail() {
     return priceMap;
   }, [stockData, symbol, trades]);
 
+  const fx = useFxRates(trades, prices);
+
   const holding = useMemo(() => {
     if (!symbol || trades.length === 0) return null;
-    const holdings = calculateHoldings(trades, prices);
+    const holdings = calculateHoldings(trades, prices, null, preferences.costBasisMethod, fx, corporateActions);
     return holdings.find(h => h.ticker === symbol) || null;
-  }, [symbol, prices, trades]);
+  }, [symbol, prices, trades, preferences.costBasisMethod, fx, corporateActions]);
+
+  const realizedSales = useMemo(() => {
+    if (!symbol) return [];
+    return calculateRealizedSales(trades, symbol, preferences.costBasisMethod, fx, corporateActions)
+      .sort((a, b) => b.closedAt.localeCompare(a.closedAt));
+  }, [symbol, trades, preferences.costBasisMethod, fx, corporateActions]);
+
+  // Trades of this holding, including ones made under a previous ticker
+  const holdingTrades = useMemo(() => {
+    if (!symbol) return [];
+    const tickers = getSourceTickers(symbol, corporateActions, false);
+    return trades.filter(t => tickers.has(t.ticker));
+  }, [symbol, trades, corporateActions]);
+
+  const { metrics: returns } = useReturnMetrics(holdingTrades, fx, corporateActions, cashEvents);
+
+  // Newest first for the transaction list
+  const sortedHoldingTrades = useMemo(() => {
+    return [...holdingTrades].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [holdingTrades]);
+
+  // A sell can only close shares bought in the same portfolio
+  const tradeDialogPortfolioId = editingTrade?.portfolioId ?? activePortfolio?.id;
+  const tradeDialogTrades = useMemo(() => {
+    return trades.filter(t => t.portfolioId === tradeDialogPortfolioId);
+  }, [trades, tradeDialogPortfolioId]);
+
+  // Actions on this ticker or that created it
+  const tickerActions = useMemo(() => {
+    return corporateActions.filter(a => a.ticker === symbol || a.newTicker === symbol);
+  }, [corporateActions, symbol]);
+
+  const ownsTicker = !!holding || realizedSales.length > 0 || tickerActions.length > 0;
+
+  const handleAddCorporateAction = async (action: Omit<CorporateAction, 'id' | 'userId' | 'portfolioId' | 'createdAt'>) => {
+    if (!activePortfolio) return;
+    await addCorporateActions([action], activePortfolio.id);
+    setCorporateActions(await getCorporateActions(portfolioIds));
+    toast({
+      title: 'Corporate action saved',
+      description: describeCorporateAction({ ...action, id: '', userId: '', portfolioId: activePortfolio.id, createdAt: null }),
+    });
+  };
+
+  const handleOpenTradeDialog = (trade?: Trade) => {
+    setEditingTrade(trade);
+    setIsTradeDialogOpen(true);
+  };
+
+  const handleSaveTrade = async (trade: Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>) => {
+    if (editingTrade) {
+      await updateTrade(editingTrade.id, trade);
+      setTrades(prev => prev.map(t => (t.id === editingTrade.id ? { ...t, ...trade } : t)));
+      toast({ title: 'Trade updated' });
+      return;
+    }
+    
+    if (!activePortfolio) return;
+    await addTrades([trade], activePortfolio.id);
+    setTrades(await getTrades(portfolioIds));
+    toast({
+      title: 'Trade added',
+      description: `${trade.action === 'BUY' ? 'Bought' : 'Sold'} ${formatQuantity(trade.shares)} ${trade.ticker}`,
+    });
+  };
+
+  const handleDeleteTrade = async (trade: Trade) => {
+    // The portfolio's position can't go negative on any date without this trade
+    const portfolioTrades = trades.filter(t => t.portfolioId === trade.portfolioId);
+    const remaining = portfolioTrades.filter(t => t.id !== trade.id);
+    const short = findNewShortSale(portfolioTrades, remaining, trade.ticker, corporateActions);
+    if (short) {
+      toast({
+        title: 'Cannot delete trade',
+        description: describeShortSale(short, remaining),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await deleteTrade(trade.id);
+      setTrades(prev => prev.filter(t => t.id !== trade.id));
+    } catch (error) {
+      console.error('Error deleting trade:', error);
+      toast({
+        title: 'Delete failed',
+        description: 'Could not delete the trade.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteCorporateAction = async (actionId: string) => {
+    try {
+      await deleteCorporateAction(actionId);
+      setCorporateActions(prev => prev.filter(a => a.id !== actionId));
+    } catch (error) {
+      console.error('Error deleting corporate action:', error);
+      toast({
+        title: 'Delete failed',
+        description: 'Could not delete the corporate action.',
+        variant: 'destructive',
+      });
+    }
+  };
 
   const chartData = stockData?.chartData || [];
   const quote = stockData?.quote;
@@ -152,6 +346,8 @@ export default function AssetDetail() {
   const priceChange = quote?.regularMarketChange || 0;
   const priceChangePercent = quote?.regularMarketChangePercent || 0;
   const isPositive = priceChange >= 0;
+  const quoteCurrency = quote?.currency || 'USD';
+  const baseCurrency = fx.baseCurrency;
 
   const minValue = chartData.length > 0 ? Math.min(...chartData.map(d => d.value)) : 0;
   const maxValue = chartData.length > 0 ? Math.max(...chartData.map(d => d.value)) : 0;
@@ -254,8 +450,8 @@ export default function AssetDetail() {
           ) : stockData ? (
             <>
               <div className="flex items-baseline gap-3">
-                <h2 className="text-4xl font-bold font-display">{formatCurrency(currentPrice)}</h2>
-                <span className="text-sm text-muted-foreground font-medium">USD</span>
+                <h2 className="text-4xl font-bold font-display">{formatCurrency(currentPrice, quoteCurrency)}</h2>
+                <span className="text-sm text-muted-foreground font-medium">{quoteCurrency}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className={cn(
@@ -268,7 +464,7 @@ export default function AssetDetail() {
                     <TrendingDown className="h-4 w-4 text-loss" />
                   )}
                   <span className={cn("text-sm font-bold", isPositive ? "text-profit" : "text-loss")}>
-                    {isPositive ? '+' : ''}{formatCurrency(Math.abs(priceChange))} ({isPositive ? '+' : ''}{priceChangePercent.toFixed(2)}%)
+                    {isPositive ? '+' : ''}{formatCurrency(Math.abs(priceChange), quoteCurrency)} ({isPositive ? '+' : ''}{priceChangePercent.toFixed(2)}%)
                   </span>
                 </div>
                 <span className="text-xs text-muted-foreground font-medium">Today</span>
@@ -362,7 +558,7 @@ export default function AssetDetail() {
                             return (
                               <div className="bg-card border border-border/50 rounded-xl px-3 py-2 shadow-soft-lg">
                                 <p className="text-sm font-semibold">
-                                  {formatCurrency(data.value)}
+                                  {formatCurrency(data.value, quoteCurrency)}
                                 </p>
                                 <p className="text-xs text-muted-foreground">{data.label}</p>
                               </div>
@@ -392,7 +588,7 @@ export default function AssetDetail() {
                     )}
                     style={{ top: '50%', transform: 'translateY(-50%)' }}
                   >
-                    {formatCurrency(currentPrice)}
+                    {formatCurrency(currentPrice, quoteCurrency)}
                   </div>
                 </>
               ) : (
@@ -470,16 +666,16 @@ export default function AssetDetail() {
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Avg Cost</span>
-                <span className="font-semibold">{formatCurrency(holding.averageBuyPrice)}</span>
+                <span className="font-semibold">{formatCurrency(holding.averageBuyPrice, holding.currency)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Market Value</span>
-                <span className="font-semibold">{formatCurrency(holding.currentValue)}</span>
+                <span className="font-semibold">{formatCurrency(holding.currentValue, baseCurrency)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Unrealized P/L</span>
                 <span className={cn("font-semibold", holding.unrealizedPL >= 0 ? "text-profit" : "text-loss")}>
-                  {holding.unrealizedPL >= 0 ? '+' : ''}{formatCurrency(holding.unrealizedPL)} ({formatPercent(holding.unrealizedPLPercent)})
+                  {holding.unrealizedPL >= 0 ? '+' : ''}{formatCurrency(holding.unrealizedPL, baseCurrency)} ({formatPercent(holding.unrealizedPLPercent)})
                 </span>
               </div>
               <div className="flex justify-between">
@@ -496,7 +692,270 @@ export default function AssetDetail() {
                 <span className="text-muted-foreground">Holding Period</span>
                 <span className="font-semibold">{holding.holdingPeriodDays} days</span>
               </div>
+              {Math.abs(holding.currencyReturn) >= 0.01 && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Price Return</span>
+                    <span className={cn("font-semibold", holding.priceReturn >= 0 ? "text-profit" : "text-loss")}>
+                      {holding.priceReturn >= 0 ? '+' : ''}{formatCurrency(holding.priceReturn, baseCurrency)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Currency Return</span>
+                    <span className={cn("font-semibold", holding.currencyReturn >= 0 ? "text-profit" : "text-loss")}>
+                      {holding.currencyReturn >= 0 ? '+' : ''}{formatCurrency(holding.currencyReturn, baseCurrency)}
+                    </span>
+                  </div>
+                </>
+              )}
+              {holding.realizedPL !== 0 && (
+                <div className="flex justify-between col-span-2">
+                  <span className="text-muted-foreground">Realized P/L</span>
+                  <span className={cn("font-semibold", holding.realizedPL >= 0 ? "text-profit" : "text-loss")}>
+                    {holding.realizedPL >= 0 ? '+' : ''}{formatCurrency(holding.realizedPL, baseCurrency)}
+                  </span>
+                </div>
+              )}
+              {returns?.timeWeighted != null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Time-Weighted</span>
+                  <span className={cn("font-semibold", returns.timeWeighted >= 0 ? "text-profit" : "text-loss")}>
+                    {formatPercent(returns.timeWeighted)}
+                    {returns.timeWeightedAnnualized != null && (
+                      <span className="text-muted-foreground font-normal"> · {formatPercent(returns.timeWeightedAnnualized)} p.a.</span>
+                    )}
+                  </span>
+                </div>
+              )}
+              {returns?.moneyWeighted != null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Money-Weighted</span>
+                  <span className={cn("font-semibold", returns.moneyWeighted >= 0 ? "text-profit" : "text-loss")}>
+                    {formatPercent(returns.moneyWeighted)}
+                    {returns.moneyWeightedAnnualized != null && (
+                      <span className="text-muted-foreground font-normal"> · {formatPercent(returns.moneyWeightedAnnualized)} p.a.</span>
+                    )}
+                  </span>
+                </div>
+              )}
+            </div>
+          </GradientCard>
+        )}
+
+        {/* Benchmark - the holding's trades against the same cash in the benchmark */}
+        {holdingTrades.length > 0 && (
+          <BenchmarkComparison
+            trades={holdingTrades}
+            corporateActions={corporateActions}
+            cashEvents={cashEvents}
+            fx={fx}
+            range={CHART_RANGES[timeRange]}
+          />
+        )}
+
+        {/* Realized Sales - One row per SELL trade */}
+        {realizedSales.length > 0 && (
+          <GradientCard className="p-4 space-y-3" glowOnHover>
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Realized Sales</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 text-left font-medium">Sold</th>
+                    <th className="py-1 text-right font-medium">Shares</th>
+                    <th className="py-1 text-right font-medium">Proceeds</th>
+                    <th className="py-1 text-right font-medium">Cost</th>
+                    <th className="py-1 text-right font-medium">Gain</th>
+                    <th className="py-1 text-right font-medium">Term</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {realizedSales.map((sale) => (
+                    <tr key={sale.sellTradeId}>
+                      <td className="py-1.5">{new Date(sale.closedAt).toLocaleDateString()}</td>
+                      <td className="py-1.5 text-right font-mono">{formatQuantity(sale.shares)}</td>
+                      <td className="py-1.5 text-right">{formatCurrency(sale.proceeds, baseCurrency)}</td>
+                      <td className="py-1.5 text-right">{formatCurrency(sale.costBasis, baseCurrency)}</td>
+                      <td className={cn("py-1.5 text-right font-semibold", sale.realizedGain >= 0 ? "text-profit" : "text-loss")}>
+                        {sale.realizedGain >= 0 ? '+' : ''}{formatCurrency(sale.realizedGain, baseCurrency)}
+                      </td>
+                      <td className="py-1.5 text-right capitalize text-muted-foreground">{sale.term}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </GradientCard>
+        )}
+
+        {/* Tax Lots - Open lots after sells are matched */}
+        {holding && holding.lots.length > 0 && (
+          <GradientCard className="p-4 space-y-3" glowOnHover>
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Tax Lots</h3>
+              <span className="text-[10px] font-semibold text-muted-foreground">{preferences.costBasisMethod}</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 text-left font-medium">Acquired</th>
+                    <th className="py-1 text-right font-medium">Shares</th>
+                    <th className="py-1 text-right font-medium">Cost / Share</th>
+                    <th className="py-1 text-right font-medium">Cost Basis</th>
+                    <th className="py-1 text-right font-medium">P/L</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {holding.lots.map((lot) => {
+                    const lotPL = lot.remainingShares * holding.currentPrice * fx.rate(holding.currency) - lot.costBasis;
+                    return (
+                      <tr key={lot.id}>
+                        <td className="py-1.5">{new Date(lot.openedAt).toLocaleDateString()}</td>
+                        <td className="py-1.5 text-right font-mono">
+                          {formatQuantity(lot.remainingShares)}
+                          {lot.remainingShares < lot.shares && (
+                            <span className="text-muted-foreground"> / {formatQuantity(lot.shares)}</span>
+                          )}
+                        </td>
+                        <td className="py-1.5 text-right">{formatCurrency(lot.costPerShare, lot.currency)}</td>
+                        <td className="py-1.5 text-right">{formatCurrency(lot.costBasis, baseCurrency)}</td>
+                        <td className={cn("py-1.5 text-right font-semibold", lotPL >= 0 ? "text-profit" : "text-loss")}>
+                          {lotPL >= 0 ? '+' : ''}{formatCurrency(lotPL, baseCurrency)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </GradientCard>
+        )}
+
+        {/* Transactions - Every trade of this holding, editable one by one */}
+        {(holdingTrades.length > 0 || activePortfolio) && (
+          <GradientCard className="p-4 space-y-3" glowOnHover>
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Transactions</h3>
+              {activePortfolio && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleOpenTradeDialog()}
+                  className="h-7 gap-1 rounded-lg text-xs hover:bg-primary/10"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Add
+                </Button>
+              )}
+            </div>
+            {sortedHoldingTrades.length > 0 ? (
+              <div className="divide-y divide-border/30">
+                {sortedHoldingTrades.map((trade) => (
+                  <div key={trade.id} className="flex items-center gap-3 py-2 text-sm">
+                    <span className="text-xs text-muted-foreground w-20 flex-shrink-0">
+                      {new Date(trade.timestamp).toLocaleDateString()}
+                    </span>
+                    <span className={cn(
+                      "text-[10px] font-semibold w-8 flex-shrink-0",
+                      trade.action === 'BUY' ? "text-profit" : "text-loss"
+                    )}>
+                      {trade.action}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {formatQuantity(trade.shares)} {trade.ticker !== symbol && `${trade.ticker} `}
+                      <span className="text-muted-foreground">@ {formatCurrency(trade.pricePerShare, trade.priceCurrency)}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleOpenTradeDialog(trade)}
+                      className="h-7 w-7 rounded-lg text-muted-foreground hover:bg-primary/10"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeletingTrade(trade)}
+                      className="h-7 w-7 rounded-lg text-muted-foreground hover:text-loss hover:bg-loss/10"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No trades recorded for {symbol}</p>
+            )}
+            <TradeDialog
+              open={isTradeDialogOpen}
+              onOpenChange={setIsTradeDialogOpen}
+              onSave={handleSaveTrade}
+              trades={tradeDialogTrades}
+              corporateActions={corporateActions}
+              trade={editingTrade}
+              ticker={symbol}
+            />
+            <AlertDialog open={!!deletingTrade} onOpenChange={(open) => !open && setDeletingTrade(null)}>
+              <AlertDialogContent className="glass-strong border-border/30">
+                <AlertDialogHeader>
+                  <AlertDialogTitle className="font-display">Delete Trade?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {deletingTrade && (
+                      <>
+                        This will delete the {deletingTrade.action === 'BUY' ? 'purchase' : 'sale'} of{' '}
+                        {formatQuantity(deletingTrade.shares)} {deletingTrade.ticker} on{' '}
+                        {new Date(deletingTrade.timestamp).toLocaleDateString()}. This action cannot be undone.
+                      </>
+                    )}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="rounded-xl">Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => deletingTrade && handleDeleteTrade(deletingTrade)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90 rounded-xl"
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </GradientCard>
+        )}
+
+        {/* Corporate Actions - Applied to tax lots, trades stay untouched */}
+        {ownsTicker && (
+          <GradientCard className="p-4 space-y-3" glowOnHover>
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Corporate Actions</h3>
+              {activePortfolio && <CorporateActionDialog ticker={symbol} onSave={handleAddCorporateAction} />}
             </div>
+            {tickerActions.length > 0 ? (
+              <div className="divide-y divide-border/30">
+                {tickerActions.map((action) => (
+                  <div key={action.id} className="flex items-center gap-3 py-2 text-sm">
+                    <span className="text-xs text-muted-foreground w-20 flex-shrink-0">
+                      {new Date(action.effectiveDate).toLocaleDateString()}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">{describeCorporateAction(action)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteCorporateAction(action.id)}
+                      className="h-7 w-7 rounded-lg text-muted-foreground hover:text-loss hover:bg-loss/10"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No splits, ticker changes, spinoffs or mergers recorded for {symbol}
+              </p>
+            )}
           </GradientCard>
         )}
 
@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, Coins, Landmark, Percent, CalendarDays } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DecorativeBubbles } from '@/components/DecorativeBubbles';
+import { GradientCard } from '@/components/GradientCard';
+import { AssetLogo } from '@/components/AssetLogo';
+import { Trade, CashEvent, CorporateAction } from '@/types/portfolio';
+import { calculateHoldings, formatCurrency } from '@/lib/calculations';
+import { calculateDividendSummaries, calculateMonthlyIncome, calculateIncomeTotals } from '@/lib/dividends';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { useFxRates } from '@/hooks/use-fx-rates';
+import { getTrades, getCashEvents, getCorporateActions } from '@/services/firestoreService';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export default function Dividends() {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [cashEvents, setCashEvents] = useState<CashEvent[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const { portfolioIds, isLoading: portfoliosLoading } = usePortfolios();
+
+  // Load trades (for cost basis) and income events
+  useEffect(() => {
+    if (portfoliosLoading) return;
+
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [firestoreTrades, firestoreCashEvents, firestoreActions] = await Promise.all([
+          getTrades(portfolioIds),
+          getCashEvents(portfolioIds),
+          getCorporateActions(portfolioIds),
+        ]);
+        setTrades(firestoreTrades);
+        setCashEvents(firestoreCashEvents);
+        setCorporateActions(firestoreActions);
+      } catch (error) {
+        console.error('Error loading dividends:', error);
+        toast({
+          title: "Database error",
+          description: "Could not load dividends from database.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  }, [toast, portfolioIds, portfoliosLoading]);
+
+  const fx = useFxRates(trades, undefined, cashEvents);
+
+  // Open positions only matter for their cost basis, so no live prices are needed
+  const holdings = useMemo(() => {
+    return calculateHoldings(trades, new Map(), null, preferences.costBasisMethod, fx, corporateActions);
+  }, [trades, preferences.costBasisMethod, fx, corporateActions]);
+
+  const totals = useMemo(() => calculateIncomeTotals(cashEvents, fx), [cashEvents, fx]);
+
+  const summaries = useMemo(() => {
+    return calculateDividendSummaries(cashEvents, holdings, fx);
+  }, [cashEvents, holdings, fx]);
+
+  const monthlyIncome = useMemo(() => {
+    return calculateMonthlyIncome(cashEvents, fx, year);
+  }, [cashEvents, fx, year]);
+
+  const years = useMemo(() => {
+    const all = cashEvents.map(e => new Date(e.timestamp).getFullYear());
+    return {
+      min: Math.min(...all, new Date().getFullYear()),
+      max: Math.max(...all, new Date().getFullYear()),
+    };
+  }, [cashEvents]);
+
+  const yearTotal = monthlyIncome.reduce((sum, m) => sum + m.netIncome, 0);
+  const maxMonthIncome = Math.max(...monthlyIncome.map(m => m.netIncome), 0);
+  const baseCurrency = fx.baseCurrency;
+
+  const portfolioYield = useMemo(() => {
+    const invested = holdings.reduce((sum, h) => sum + h.investedAmount, 0);
+    const trailingDividends = summaries.reduce((sum, s) => sum + s.trailingNetIncome, 0);
+    return invested > 0 ? (trailingDividends / invested) * 100 : 0;
+  }, [holdings, summaries]);
+
+  return (
+    <div className="min-h-screen bg-background relative">
+      {/* Decorative bubbles */}
+      <DecorativeBubbles variant="subtle" className="fixed" />
+
+      {/* Header */}
+      <header className="glass-strong sticky top-0 z-20 safe-area-top border-b border-border/30">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link to="/">
+              <Button variant="ghost" size="icon" className="touch-target rounded-xl hover:bg-primary/10">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-xl font-bold font-display">Dividends</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 safe-area-bottom relative z-10">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <GradientCard className="p-4" glowOnHover gradient="profit">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-profit/20 flex items-center justify-center">
+                <Coins className="h-3.5 w-3.5 text-profit" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Net Dividends</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.netDividends, baseCurrency)}</p>
+            )}
+            <p className="text-[10px] text-muted-foreground font-medium mt-1">
+              {formatCurrency(totals.grossDividends, baseCurrency)} gross
+            </p>
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="loss">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-loss/20 flex items-center justify-center">
+                <Landmark className="h-3.5 w-3.5 text-loss" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Withholding Tax</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.withholdingTax, baseCurrency)}</p>
+            )}
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="primary">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-primary/20 flex items-center justify-center">
+                <Percent className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Yield on Cost</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{portfolioYield.toFixed(2)}%</p>
+            )}
+            <p className="text-[10px] text-muted-foreground font-medium mt-1">Trailing 12 months</p>
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="accent">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-accent/20 flex items-center justify-center">
+                <CalendarDays className="h-3.5 w-3.5 text-accent" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Interest</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.interest, baseCurrency)}</p>
+            )}
+          </GradientCard>
+        </div>
+
+        {/* Monthly Income Calendar */}
+        <section className="space-y-3">
+          <div className="flex items-center justify-between px-1">
+            <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Monthly Income
+            </h2>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 rounded-lg hover:bg-primary/10"
+                onClick={() => setYear(y => y - 1)}
+                disabled={year <= years.min}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm font-semibold w-12 text-center">{year}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 rounded-lg hover:bg-primary/10"
+                onClick={() => setYear(y => y + 1)}
+                disabled={year >= years.max}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <GradientCard className="p-4">
+            <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+              {monthlyIncome.map((month, i) => {
+                const intensity = maxMonthIncome > 0 ? month.netIncome / maxMonthIncome : 0;
+                return (
+                  <div
+                    key={month.month}
+                    className={cn(
+                      "rounded-xl p-3 border border-border/30 transition-colors",
+                      month.paymentCount > 0 ? "bg-profit/5" : "bg-secondary/30"
+                    )}
+                    style={month.paymentCount > 0 ? { backgroundColor: `hsl(var(--profit) / ${0.05 + intensity * 0.25})` } : undefined}
+                  >
+                    <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      {MONTH_LABELS[i]}
+                    </p>
+                    <p className={cn(
+                      "text-sm font-semibold mt-1",
+                      month.paymentCount > 0 ? "text-foreground" : "text-muted-foreground"
+                    )}>
+                      {formatCurrency(month.netIncome, baseCurrency)}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {month.paymentCount} payment{month.paymentCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between pt-4 mt-4 border-t border-border/30 text-sm">
+              <span className="text-muted-foreground">Total {year}</span>
+              <span className="font-semibold">{formatCurrency(yearTotal, baseCurrency)}</span>
+            </div>
+          </GradientCard>
+        </section>
+
+        {/* Per-Ticker Income */}
+        <section className="space-y-3">
+          <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
+            By Holding
+          </h2>
+
+          {isLoading ? (
+            <GradientCard className="p-4 space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </GradientCard>
+          ) : summaries.length === 0 ? (
+            <GradientCard className="p-8 text-center">
+              <Coins className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+              <p className="font-semibold">No dividends yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Import a Trading212 or IBKR export that includes dividend rows.
+              </p>
+            </GradientCard>
+          ) : (
+            <div className="glass rounded-2xl overflow-hidden">
+              <div className="overflow-x-auto">
+                <div className="min-w-[600px]">
+                  <div className="grid grid-cols-[minmax(180px,2fr)_repeat(4,1fr)] bg-secondary/30">
+                    <div className="py-2.5 px-4 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      Security
+                    </div>
+                    <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      Gross
+                    </div>
+                    <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      Withheld
+                    </div>
+                    <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      Net
+                    </div>
+                    <div className="py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+                      Yield on Cost
+                    </div>
+                  </div>
+
+                  <div className="divide-y divide-border/20">
+                    {summaries.map((summary) => (
+                      <div
+                        key={summary.ticker}
+                        onClick={() => navigate(`/asset/${summary.ticker}`)}
+                        className="grid grid-cols-[minmax(180px,2fr)_repeat(4,1fr)] cursor-pointer group hover:bg-primary/5 transition-all duration-300"
+                      >
+                        <div className="py-3.5 px-4">
+                          <div className="flex items-center gap-3">
+                            <AssetLogo ticker={summary.ticker} name={summary.name} size="sm" />
+                            <div className="min-w-0 flex-1">
+                              <p className="font-semibold text-sm truncate leading-tight group-hover:text-primary transition-colors">
+                                {summary.name}
+                              </p>
+                              <p className="text-[10px] text-muted-foreground truncate font-medium">
+                                {summary.ticker} · {summary.paymentCount} payment{summary.paymentCount === 1 ? '' : 's'}
+                              </p>
+                            </div>
+                          </div>
+                        </div>
+                        <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                          <p className="text-sm font-medium">{formatCurrency(summary.grossIncome, baseCurrency)}</p>
+                        </div>
+                        <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                          <p className="text-sm text-loss">{formatCurrency(summary.withholdingTax, baseCurrency)}</p>
+                        </div>
+                        <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                          <p className="text-sm font-semibold text-profit">{formatCurrency(summary.netIncome, baseCurrency)}</p>
+                        </div>
+                        <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                          <p className="text-sm text-muted-foreground">
+                            {summary.yieldOnCost > 0 ? `${summary.yieldOnCost.toFixed(2)}%` : '—'}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
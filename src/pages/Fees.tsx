@@ -0,0 +1,238 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Receipt, Landmark, Percent, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DecorativeBubbles } from '@/components/DecorativeBubbles';
+import { GradientCard } from '@/components/GradientCard';
+import { Trade, CashEvent, FeeBreakdown, TradeSource } from '@/types/portfolio';
+import { formatCurrency } from '@/lib/calculations';
+import { calculateFeeReport } from '@/lib/fees';
+import { useToast } from '@/hooks/use-toast';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { useFxRates } from '@/hooks/use-fx-rates';
+import { getTrades, getCashEvents } from '@/services/firestoreService';
+import { getSourceName } from '@/services/brokers';
+
+interface BreakdownTableProps {
+  title: string;
+  rows: FeeBreakdown[];
+  label: (key: string) => string;
+  baseCurrency: string;
+}
+
+function BreakdownTable({ title, rows, label, baseCurrency }: BreakdownTableProps) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
+        {title}
+      </h2>
+
+      <div className="glass rounded-2xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <div className="min-w-[560px]">
+            <div className="grid grid-cols-[minmax(140px,2fr)_repeat(4,1fr)] bg-secondary/30">
+              {['', 'Fees', 'Taxes', 'Total', 'Cost Drag'].map((heading, i) => (
+                <div
+                  key={heading || 'key'}
+                  className={i === 0
+                    ? "py-2.5 px-4 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider"
+                    : "py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider"}
+                >
+                  {heading}
+                </div>
+              ))}
+            </div>
+
+            <div className="divide-y divide-border/20">
+              {rows.map((row) => (
+                <div key={row.key} className="grid grid-cols-[minmax(140px,2fr)_repeat(4,1fr)]">
+                  <div className="py-3.5 px-4">
+                    <p className="font-semibold text-sm leading-tight">{label(row.key)}</p>
+                    <p className="text-[10px] text-muted-foreground font-medium">
+                      {row.tradeCount} trade{row.tradeCount === 1 ? '' : 's'} · {formatCurrency(row.tradedValue, baseCurrency)} traded
+                    </p>
+                  </div>
+                  <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                    <p className="text-sm">{formatCurrency(row.fees, baseCurrency)}</p>
+                  </div>
+                  <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                    <p className="text-sm">{formatCurrency(row.taxes, baseCurrency)}</p>
+                  </div>
+                  <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                    <p className="text-sm font-semibold text-loss">{formatCurrency(row.total, baseCurrency)}</p>
+                  </div>
+                  <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                    <p className="text-sm text-muted-foreground">
+                      {row.tradedValue > 0 ? `${row.drag.toFixed(2)}%` : '—'}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default function Fees() {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [cashEvents, setCashEvents] = useState<CashEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const { portfolioIds, isLoading: portfoliosLoading } = usePortfolios();
+
+  // Load trades and standalone fee rows
+  useEffect(() => {
+    if (portfoliosLoading) return;
+
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [firestoreTrades, firestoreCashEvents] = await Promise.all([
+          getTrades(portfolioIds),
+          getCashEvents(portfolioIds),
+        ]);
+        setTrades(firestoreTrades);
+        setCashEvents(firestoreCashEvents);
+      } catch (error) {
+        console.error('Error loading fees:', error);
+        toast({
+          title: "Database error",
+          description: "Could not load trades from database.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  }, [toast, portfolioIds, portfoliosLoading]);
+
+  const fx = useFxRates(trades, undefined, cashEvents);
+  const baseCurrency = fx.baseCurrency;
+
+  const report = useMemo(() => calculateFeeReport(trades, cashEvents, fx), [trades, cashEvents, fx]);
+  const { totals } = report;
+  const hasCosts = totals.total > 0;
+
+  return (
+    <div className="min-h-screen bg-background relative">
+      {/* Decorative bubbles */}
+      <DecorativeBubbles variant="subtle" className="fixed" />
+
+      {/* Header */}
+      <header className="glass-strong sticky top-0 z-20 safe-area-top border-b border-border/30">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link to="/">
+              <Button variant="ghost" size="icon" className="touch-target rounded-xl hover:bg-primary/10">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-xl font-bold font-display">Fees & Taxes</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 safe-area-bottom relative z-10">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <GradientCard className="p-4" glowOnHover gradient="loss">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-loss/20 flex items-center justify-center">
+                <Wallet className="h-3.5 w-3.5 text-loss" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Total Costs</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.total, baseCurrency)}</p>
+            )}
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="primary">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-primary/20 flex items-center justify-center">
+                <Receipt className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Fees</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.fees, baseCurrency)}</p>
+            )}
+            <p className="text-[10px] text-muted-foreground font-medium mt-1">Commissions, FX and other fees</p>
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="accent">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-accent/20 flex items-center justify-center">
+                <Landmark className="h-3.5 w-3.5 text-accent" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Transaction Taxes</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{formatCurrency(totals.taxes, baseCurrency)}</p>
+            )}
+            <p className="text-[10px] text-muted-foreground font-medium mt-1">Stamp duty, FTT and levies</p>
+          </GradientCard>
+
+          <GradientCard className="p-4" glowOnHover gradient="profit">
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <div className="w-7 h-7 rounded-lg bg-profit/20 flex items-center justify-center">
+                <Percent className="h-3.5 w-3.5 text-profit" />
+              </div>
+              <span className="text-[10px] font-semibold uppercase tracking-wider">Cost Drag</span>
+            </div>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <p className="text-2xl font-bold font-display">{totals.drag.toFixed(2)}%</p>
+            )}
+            <p className="text-[10px] text-muted-foreground font-medium mt-1">
+              Of {formatCurrency(totals.tradedValue, baseCurrency)} traded
+            </p>
+          </GradientCard>
+        </div>
+
+        {isLoading ? (
+          <GradientCard className="p-4 space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </GradientCard>
+        ) : !hasCosts ? (
+          <GradientCard className="p-8 text-center">
+            <Receipt className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="font-semibold">No fees recorded</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Fees and taxes appear here when your imports or manual trades include them.
+            </p>
+          </GradientCard>
+        ) : (
+          <>
+            <BreakdownTable
+              title="By Broker"
+              rows={report.byBroker}
+              label={(key) => getSourceName(key as TradeSource)}
+              baseCurrency={baseCurrency}
+            />
+            <BreakdownTable
+              title="By Year"
+              rows={report.byYear}
+              label={(key) => key}
+              baseCurrency={baseCurrency}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
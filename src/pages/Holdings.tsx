@@ -1,38 +1,98 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { HoldingsTable } from '@/components/HoldingsTable';
+import { ClosedPositionsTable } from '@/components/ClosedPositionsTable';
 import { PortfolioSummary } from '@/components/PortfolioSummary';
 import { TradingChart } from '@/components/TradingChart';
 import { ImportSheet } from '@/components/ImportSheet';
 import { DecorativeBubbles } from '@/components/DecorativeBubbles';
+import { PortfolioSwitcher } from '@/components/PortfolioSwitcher';
+import { TradeDialog } from '@/components/TradeDialog';
+import { SymbolSearch } from '@/components/SymbolSearch';
+import { IdentifierMatchDialog } from '@/components/IdentifierMatchDialog';
+import { DuplicateReviewDialog } from '@/components/DuplicateReviewDialog';
 import { Button } from '@/components/ui/button';
-import { Settings, Sparkles } from 'lucide-react';
-import { Trade, LivePrice } from '@/types/portfolio';
+import { Settings, Sparkles, Coins, Plus, Receipt, Scale, Search } from 'lucide-react';
+import { Trade, LivePrice, CashEvent, CorporateAction } from '@/types/portfolio';
 import { mockPrices } from '@/data/mockData';
-import { calculateHoldings, calculateGlobalPortfolioTotal } from '@/lib/calculations';
+import { calculateHoldings, calculateGlobalPortfolioTotal, calculateRealizedPositions, formatQuantity } from '@/lib/calculations';
+import { calculateIncomeTotals } from '@/lib/dividends';
+import { reconcilePositions } from '@/lib/reconciliation';
+import { getListingCurrency } from '@/lib/symbols';
 import { startPriceRefresh } from '@/services/priceService';
 import { useToast } from '@/hooks/use-toast';
-import { getTrades, addTrades, deleteTradesByTicker, getExistingTransactionIds } from '@/services/firestoreService';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { useFxRates } from '@/hooks/use-fx-rates';
+import { useReturnMetrics } from '@/hooks/use-return-metrics';
+import {
+  getTrades,
+  addTrades,
+  deleteTradesByTicker,
+  getExistingTransactionIds,
+  getCashEvents,
+  addCashEvents,
+  getExistingCashEventIds,
+  getCorporateActions,
+  addCorporateActions,
+  getExistingCorporateActionIds,
+} from '@/services/firestoreService';
 
-import { parseCSV, filterDuplicates } from '@/services/importService';
+import {
+  filterDuplicates,
+  filterDuplicateCashEvents,
+  filterDuplicateCorporateActions,
+  findLikelyDuplicates,
+  getUnresolvedSecurities,
+  applyResolvedSymbols,
+  type LikelyDuplicate,
+  type ParseResult,
+} from '@/services/importService';
+import {
+  resolveIdentifiers,
+  seedIdentifierMap,
+  saveIdentifierMappings,
+  type IdentifierMatch,
+} from '@/services/identifierService';
+import type { BrokerAdapter } from '@/services/brokers';
+import type { SymbolSearchResult } from '@/services/yahooService';
 
 const REFRESH_INTERVAL = 30000;
 
 export default function Holdings() {
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [cashEvents, setCashEvents] = useState<CashEvent[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
   const [prices, setPrices] = useState<Map<string, LivePrice>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [dbLoading, setDbLoading] = useState(true);
   const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const { activePortfolio, portfolioIds, isLoading: portfoliosLoading } = usePortfolios();
+  const [isTradeDialogOpen, setIsTradeDialogOpen] = useState(false);
+  const [tradeDraft, setTradeDraft] = useState<Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>>();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [identifierMatches, setIdentifierMatches] = useState<IdentifierMatch[] | null>(null);
+  const [likelyDuplicates, setLikelyDuplicates] = useState<LikelyDuplicate[] | null>(null);
+  const pendingImportRef = useRef<ParseResult | null>(null);
   const refreshCleanupRef = useRef<(() => void) | null>(null);
 
-  // Load trades from Firestore on mount
+  // Load trades, dividend/interest events and corporate actions of the shown portfolios
   useEffect(() => {
+    if (portfoliosLoading) return;
+    
     const loadTrades = async () => {
+      setDbLoading(true);
       try {
-        const firestoreTrades = await getTrades();
+        const [firestoreTrades, firestoreCashEvents, firestoreActions] = await Promise.all([
+          getTrades(portfolioIds),
+          getCashEvents(portfolioIds),
+          getCorporateActions(portfolioIds),
+        ]);
         setTrades(firestoreTrades);
+        setCashEvents(firestoreCashEvents);
+        setCorporateActions(firestoreActions);
         console.log('Loaded trades from Firestore:', firestoreTrades.length);
       } catch (error) {
         console.error('Error loading trades:', error);
@@ -46,12 +106,13 @@ export default function Holdings() {
       }
     };
     loadTrades();
-  }, [toast]);
+  }, [toast, portfolioIds, portfoliosLoading]);
 
-  // Get all stock tickers
+  // Get all stock tickers, including ones created by ticker changes, spinoffs and mergers
   const tickers = useMemo(() => {
-    return [...new Set(trades.map(t => t.ticker))];
-  }, [trades]);
+    const newTickers = corporateActions.flatMap(a => a.newTicker ? [a.newTicker] : []);
+    return [...new Set([...trades.map(t => t.ticker), ...newTickers])];
+  }, [trades, corporateActions]);
 
   // Handle price updates
   const handlePriceUpdate = useCallback((newPrices: Map<string, LivePrice>) => {
@@ -104,21 +165,135 @@ export default function Holdings() {
     };
   }, [tickers, handlePriceUpdate]);
 
+  // FX rates into the base currency
+  const fx = useFxRates(trades, prices, cashEvents);
+
   // Calculate global portfolio total
   const globalPortfolioTotal = useMemo(() => {
-    return calculateGlobalPortfolioTotal(trades, prices);
-  }, [trades, prices]);
+    return calculateGlobalPortfolioTotal(trades, prices, fx, corporateActions);
+  }, [trades, prices, fx, corporateActions]);
 
   // Calculate holdings
   const holdings = useMemo(() => {
-    return calculateHoldings(trades, prices, globalPortfolioTotal);
-  }, [trades, prices, globalPortfolioTotal]);
+    return calculateHoldings(trades, prices, globalPortfolioTotal, preferences.costBasisMethod, fx, corporateActions);
+  }, [trades, prices, globalPortfolioTotal, preferences.costBasisMethod, fx, corporateActions]);
+
+  // Fully sold positions (realized P/L only)
+  const closedPositions = useMemo(() => {
+    return calculateRealizedPositions(trades, preferences.costBasisMethod, fx, corporateActions).filter(p => p.isClosed);
+  }, [trades, preferences.costBasisMethod, fx, corporateActions]);
+
+  // Net dividends, counted in total return
+  const dividendIncome = useMemo(() => {
+    return calculateIncomeTotals(cashEvents, fx).netDividends;
+  }, [cashEvents, fx]);
+
+  // Time- and money-weighted returns since the first trade
+  const { metrics: returns } = useReturnMetrics(trades, fx, corporateActions, cashEvents);
+
+  // Compare the portfolio's holdings with the open positions of a broker statement
+  const reportPositionDifferences = (result: ParseResult, portfolioTrades: Trade[], actions: CorporateAction[]) => {
+    const positions = result.statement?.positions || [];
+    if (positions.length === 0) return;
+
+    const holdings = calculateHoldings(portfolioTrades, new Map(), null, preferences.costBasisMethod, fx, actions);
+    const differences = reconcilePositions(holdings, positions)
+      .filter(d => d.status === 'different' || d.status === 'missing');
+    if (differences.length === 0) {
+      toast({
+        title: "Positions match",
+        description: `All ${positions.length} open positions match the broker statement.`,
+      });
+      return;
+    }
+
+    toast({
+      title: `${differences.length} positions differ from the broker statement`,
+      description: differences.slice(0, 3)
+        .map(d => formatQuantity(d.computedShares) !== formatQuantity(d.brokerShares)
+          ? `${d.ticker}: ${formatQuantity(d.computedShares)} computed, ${formatQuantity(d.brokerShares)} at broker`
+          : `${d.ticker}: average cost ${d.computedAverageCost?.toFixed(2)} computed, ${d.brokerAverageCost?.toFixed(2)} at broker`)
+        .join(', ') + (differences.length > 3 ? ', …' : ''),
+      variant: "destructive",
+    });
+  };
 
-  // Handle CSV import
-  const handleImport = async (csvContent: string) => {
+  // Save parsed trades, income and corporate actions into the active portfolio.
+  // Trades that look like ones saved from another source are reviewed first;
+  // `rejectedIds` are the ones the user then chose to skip.
+  const saveImport = async (result: ParseResult, rejectedIds?: Set<string>) => {
+    if (!activePortfolio) return;
+    const portfolioId = activePortfolio.id;
+    
     try {
-      const result = parseCSV(csvContent, 'csv');
+      // Filter duplicates
+      const [existingIds, existingCashEventIds, existingActionIds] = await Promise.all([
+        getExistingTransactionIds(portfolioId),
+        getExistingCashEventIds(portfolioId),
+        getExistingCorporateActionIds(portfolioId),
+      ]);
+      const newTrades = filterDuplicates(result.trades, existingIds)
+        .filter(t => !rejectedIds?.has(t.brokerTransactionId));
+      const newCashEvents = filterDuplicateCashEvents(result.cashEvents, existingCashEventIds);
+      const newActions = filterDuplicateCorporateActions(result.corporateActions, existingActionIds);
+
+      if (newTrades.length === 0 && newCashEvents.length === 0 && newActions.length === 0) {
+        toast({
+          title: "No new trades",
+          description: "All trades in the file already exist.",
+        });
+        reportPositionDifferences(result, trades.filter(t => t.portfolioId === portfolioId), corporateActions);
+        return;
+      }
+
+      if (!rejectedIds) {
+        const portfolioTrades = trades.filter(t => t.portfolioId === portfolioId);
+        const likely = findLikelyDuplicates(newTrades, portfolioTrades);
+        if (likely.length > 0) {
+          pendingImportRef.current = result;
+          setLikelyDuplicates(likely);
+          return;
+        }
+      }
+
+      // Add to Firestore
+      await Promise.all([
+        addTrades(newTrades, portfolioId),
+        addCashEvents(newCashEvents, portfolioId),
+        addCorporateActions(newActions, portfolioId),
+      ]);
+      
+      // Reload trades, income and corporate actions
+      const [updatedTrades, updatedCashEvents, updatedActions] = await Promise.all([
+        getTrades(portfolioIds),
+        getCashEvents(portfolioIds),
+        getCorporateActions(portfolioIds),
+      ]);
+      setTrades(updatedTrades);
+      setCashEvents(updatedCashEvents);
+      setCorporateActions(updatedActions);
       
+      const skipped = result.trades.length - newTrades.length + result.cashEvents.length - newCashEvents.length;
+      toast({
+        title: "Trades imported",
+        description: `${newTrades.length} trades and ${newCashEvents.length} income events saved. ${skipped} duplicates skipped.`,
+      });
+      reportPositionDifferences(result, updatedTrades.filter(t => t.portfolioId === portfolioId), updatedActions);
+    } catch (error) {
+      console.error('Error importing trades:', error);
+      toast({
+        title: "Import failed",
+        description: "Could not import trades.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handle a CSV parsed with the adapter for the detected broker
+  const handleImport = async (result: ParseResult, broker: BrokerAdapter) => {
+    if (!activePortfolio) return;
+    
+    try {
       if (result.errors.length > 0) {
         toast({
           title: "Import warnings",
@@ -127,38 +302,41 @@ export default function Holdings() {
         });
       }
 
-      if (result.trades.length === 0) {
+      const { rowErrors } = result.diagnostics;
+      if (rowErrors.length > 0) {
         toast({
-          title: "No trades found",
-          description: "The CSV file contained no valid trades.",
+          title: `${rowErrors.length} rows could not be read`,
+          description: rowErrors.slice(0, 3)
+            .map(e => `Row ${e.row}: ${e.reason}${e.value ? ` (${e.value})` : ''}`)
+            .join(', ') + (rowErrors.length > 3 ? ', …' : ''),
           variant: "destructive",
         });
-        return;
       }
 
-      // Filter duplicates
-      const existingIds = await getExistingTransactionIds();
-      const newTrades = filterDuplicates(result.trades, existingIds);
-
-      if (newTrades.length === 0) {
+      if (result.trades.length === 0 && result.cashEvents.length === 0 && result.corporateActions.length === 0) {
         toast({
-          title: "No new trades",
-          description: "All trades in the file already exist.",
+          title: "No trades found",
+          description: `The ${broker.name} file contained no valid trades.`,
+          variant: "destructive",
         });
         return;
       }
 
-      // Add to Firestore
-      await addTrades(newTrades);
+      // Map ISIN/CUSIP/FIGI-only rows to symbols, asking the user when unsure
+      seedIdentifierMap([...trades, ...result.trades]);
+      const matches = await resolveIdentifiers(getUnresolvedSecurities(result));
+      const resolved = applyResolvedSymbols(result, new Map(
+        matches.filter(m => m.symbol).map(m => [m.identifier, m.symbol as string])
+      ));
       
-      // Reload trades
-      const updatedTrades = await getTrades();
-      setTrades(updatedTrades);
+      const ambiguous = matches.filter(m => !m.symbol);
+      if (ambiguous.length > 0) {
+        pendingImportRef.current = resolved;
+        setIdentifierMatches(ambiguous);
+        return;
+      }
       
-      toast({
-        title: "Trades imported",
-        description: `${newTrades.length} trades saved. ${result.trades.length - newTrades.length} duplicates skipped.`,
-      });
+      await saveImport(resolved);
     } catch (error) {
       console.error('Error importing trades:', error);
       toast({
@@ -169,10 +347,79 @@ export default function Holdings() {
     }
   };
 
+  // Finish an import once the user picked listings for ambiguous identifiers
+  const handleConfirmIdentifiers = async (symbols: Map<string, string>) => {
+    const pending = pendingImportRef.current;
+    pendingImportRef.current = null;
+    setIdentifierMatches(null);
+    if (!pending) return;
+    
+    saveIdentifierMappings(symbols);
+    await saveImport(applyResolvedSymbols(pending, symbols));
+  };
+
+  const handleCancelIdentifiers = () => {
+    pendingImportRef.current = null;
+    setIdentifierMatches(null);
+  };
+
+  // Finish an import once the user decided which likely duplicates to keep
+  const handleConfirmDuplicates = async (acceptedIds: Set<string>) => {
+    const pending = pendingImportRef.current;
+    const rejectedIds = new Set(
+      (likelyDuplicates || [])
+        .map(d => d.trade.brokerTransactionId)
+        .filter(id => !acceptedIds.has(id))
+    );
+    pendingImportRef.current = null;
+    setLikelyDuplicates(null);
+    if (!pending) return;
+    
+    await saveImport(pending, rejectedIds);
+  };
+
+  const handleCancelDuplicates = () => {
+    pendingImportRef.current = null;
+    setLikelyDuplicates(null);
+  };
+
+  // Handle a manually entered trade
+  const handleAddTrade = async (trade: Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>) => {
+    if (!activePortfolio) return;
+    
+    await addTrades([trade], activePortfolio.id);
+    setTrades(await getTrades(portfolioIds));
+    toast({
+      title: "Trade added",
+      description: `${trade.action === 'BUY' ? 'Bought' : 'Sold'} ${formatQuantity(trade.shares)} ${trade.ticker}`,
+    });
+  };
+
+  // Start a trade in a security picked from the search palette
+  const handleTradeFromSearch = (result: SymbolSearchResult) => {
+    const currency = trades.find(t => t.ticker === result.symbol)?.priceCurrency || getListingCurrency(result.symbol);
+    setTradeDraft({
+      brokerTransactionId: '',
+      action: 'BUY',
+      timestamp: new Date().toISOString(),
+      isin: '',
+      ticker: result.symbol,
+      name: result.name,
+      shares: 0,
+      pricePerShare: 0,
+      priceCurrency: currency,
+      totalValue: 0,
+      totalCurrency: currency,
+      exchangeRate: 1,
+      source: 'manual',
+    });
+    setIsTradeDialogOpen(true);
+  };
+
   // Handle delete holdings
   const handleDeleteHoldings = async (tickersToDelete: string[]) => {
     try {
-      await Promise.all(tickersToDelete.map(ticker => deleteTradesByTicker(ticker)));
+      await Promise.all(tickersToDelete.map(ticker => deleteTradesByTicker(ticker, portfolioIds)));
       setTrades(prev => prev.filter(t => !tickersToDelete.includes(t.ticker)));
       toast({
         title: "Holdings deleted",
@@ -200,11 +447,51 @@ export default function Holdings() {
               <div className="w-8 h-8 rounded-xl bg-gradient-full flex items-center justify-center">
                 <Sparkles className="h-4 w-4 text-white" />
               </div>
-              <h1 className="text-lg font-bold font-display">Portfolio</h1>
+              <h1 className="sr-only">Portfolio</h1>
+              <PortfolioSwitcher />
             </div>
             
             <div className="flex items-center gap-1">
-              <ImportSheet onImport={handleImport} />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsSearchOpen(true)}
+                className="h-9 w-9 rounded-xl hover:bg-primary/10"
+              >
+                <Search className="h-5 w-5" />
+              </Button>
+              {/* Imports go into one portfolio, so not from the "All portfolios" view */}
+              {activePortfolio && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setTradeDraft(undefined);
+                      setIsTradeDialogOpen(true);
+                    }}
+                    className="h-9 w-9 rounded-xl hover:bg-primary/10"
+                  >
+                    <Plus className="h-5 w-5" />
+                  </Button>
+                  <ImportSheet onImport={handleImport} />
+                </>
+              )}
+              <Link to="/dividends">
+                <Button variant="ghost" size="icon" className="h-9 w-9 rounded-xl hover:bg-primary/10">
+                  <Coins className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Link to="/fees">
+                <Button variant="ghost" size="icon" className="h-9 w-9 rounded-xl hover:bg-primary/10">
+                  <Receipt className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Link to="/reconcile">
+                <Button variant="ghost" size="icon" className="h-9 w-9 rounded-xl hover:bg-primary/10">
+                  <Scale className="h-5 w-5" />
+                </Button>
+              </Link>
               <Link to="/settings">
                 <Button variant="ghost" size="icon" className="h-9 w-9 rounded-xl hover:bg-primary/10">
                   <Settings className="h-5 w-5" />
@@ -220,6 +507,9 @@ export default function Holdings() {
           <TradingChart 
             holdings={holdings} 
             trades={trades}
+            corporateActions={corporateActions}
+            cashEvents={cashEvents}
+            fx={fx}
             isLoading={isLoading}
           />
           
@@ -235,17 +525,57 @@ export default function Holdings() {
             </div>
           )}
 
-          <PortfolioSummary holdings={holdings} />
+          <PortfolioSummary
+            holdings={holdings}
+            baseCurrency={fx.baseCurrency}
+            dividendIncome={dividendIncome}
+            returns={returns}
+          />
         </div>
 
         <div className="w-full px-4 lg:px-6 xl:px-8 pb-6">
           <HoldingsTable 
             holdings={holdings} 
             isLoading={isLoading || dbLoading}
+            baseCurrency={fx.baseCurrency}
+            prices={prices}
             onDeleteHoldings={handleDeleteHoldings}
           />
         </div>
+
+        {closedPositions.length > 0 && (
+          <div className="w-full px-4 lg:px-6 xl:px-8 pb-6">
+            <ClosedPositionsTable positions={closedPositions} baseCurrency={fx.baseCurrency} />
+          </div>
+        )}
       </main>
+
+      <TradeDialog
+        open={isTradeDialogOpen}
+        onOpenChange={setIsTradeDialogOpen}
+        onSave={handleAddTrade}
+        trades={trades}
+        corporateActions={corporateActions}
+        draft={tradeDraft}
+      />
+
+      <SymbolSearch
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onAddTrade={activePortfolio ? handleTradeFromSearch : undefined}
+      />
+
+      <IdentifierMatchDialog
+        matches={identifierMatches}
+        onConfirm={handleConfirmIdentifiers}
+        onCancel={handleCancelIdentifiers}
+      />
+
+      <DuplicateReviewDialog
+        duplicates={likelyDuplicates}
+        onConfirm={handleConfirmDuplicates}
+        onCancel={handleCancelDuplicates}
+      />
     </div>
   );
 }
@@ -0,0 +1,397 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Scale, Upload, Plus, X, CheckCircle2 } from 'lucide-react';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DecorativeBubbles } from '@/components/DecorativeBubbles';
+import { GradientCard } from '@/components/GradientCard';
+import { TradeDialog } from '@/components/TradeDialog';
+import { BrokerPosition, CorporateAction, PositionDifference, Trade } from '@/types/portfolio';
+import { calculateHoldings, formatQuantity } from '@/lib/calculations';
+import { buildAdjustingTrade, reconcilePositions } from '@/lib/reconciliation';
+import { toLocalDate } from '@/lib/locale';
+import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { useFxRates } from '@/hooks/use-fx-rates';
+import { addTrades, getCorporateActions, getTrades } from '@/services/firestoreService';
+import { parsePositionsCSV } from '@/services/importService';
+
+type NewTrade = Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
+
+const today = () => toLocalDate(new Date());
+
+const positionSchema = z.object({
+  ticker: z.string()
+    .trim()
+    .min(1, 'Enter a ticker')
+    .regex(/^[A-Z0-9.\-^=]+$/i, 'Ticker can only contain letters, numbers, dots and dashes'),
+  shares: z.coerce.number().positive('Quantity must be greater than 0'),
+  averageCost: z.coerce.number().min(0, 'Average cost cannot be negative'),
+  currency: z.string().trim().regex(/^[A-Z]{3}$/i, 'Enter a 3-letter currency code'),
+});
+
+function formatCost(value: number | null, currency: string): string {
+  return value !== null ? `${value.toFixed(2)} ${currency}` : '—';
+}
+
+// "2-for-1 split", "1-for-10 reverse split"
+function formatSplit(ratio: number): string {
+  return ratio >= 1
+    ? `${formatQuantity(ratio)}-for-1 split`
+    : `1-for-${formatQuantity(Math.round(1 / ratio))} reverse split`;
+}
+
+function describeDifference(difference: PositionDifference): string {
+  if (difference.status === 'matched') return 'Matches';
+  if (difference.status === 'missing') return 'Not in portfolio';
+  if (difference.status === 'not-at-broker') return 'Not at broker';
+  if (difference.issue === 'split' && difference.splitRatio) return `Unrecorded ${formatSplit(difference.splitRatio)}?`;
+  if (difference.issue === 'average-cost') return 'Average cost differs';
+  return difference.brokerShares > difference.computedShares ? 'Missing buys' : 'Missing sells';
+}
+
+export default function Reconcile() {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [positions, setPositions] = useState<BrokerPosition[]>([]);
+  const [asOf, setAsOf] = useState(today);
+  const [draft, setDraft] = useState<NewTrade | null>(null);
+
+  const [ticker, setTicker] = useState('');
+  const [shares, setShares] = useState('');
+  const [averageCost, setAverageCost] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [entryError, setEntryError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const { activePortfolio, isLoading: portfoliosLoading } = usePortfolios();
+
+  // Load the active portfolio's trades and the corporate actions applied to them
+  useEffect(() => {
+    if (portfoliosLoading) return;
+    if (!activePortfolio) {
+      setIsLoading(false);
+      return;
+    }
+
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        const [firestoreTrades, firestoreActions] = await Promise.all([
+          getTrades([activePortfolio.id]),
+          getCorporateActions([activePortfolio.id]),
+        ]);
+        setTrades(firestoreTrades);
+        setCorporateActions(firestoreActions);
+      } catch (error) {
+        console.error('Error loading trades:', error);
+        toast({
+          title: "Database error",
+          description: "Could not load trades from database.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadData();
+  }, [toast, activePortfolio, portfoliosLoading]);
+
+  const fx = useFxRates(trades);
+
+  // Holdings as they were at the end of the snapshot date
+  const differences = useMemo(() => {
+    if (positions.length === 0) return [];
+    const cutoff = new Date(`${asOf}T23:59:59.999`);
+    const holdings = calculateHoldings(
+      trades.filter(t => new Date(t.timestamp) <= cutoff),
+      new Map(),
+      null,
+      preferences.costBasisMethod,
+      fx,
+      corporateActions.filter(a => new Date(a.effectiveDate) <= cutoff)
+    );
+    return reconcilePositions(holdings, positions);
+  }, [trades, corporateActions, positions, asOf, preferences.costBasisMethod, fx]);
+
+  const issues = differences.filter(d => d.status !== 'matched');
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { positions: parsed, errors, rowErrors } = parsePositionsCSV(await file.text());
+    if (errors.length > 0 || parsed.length === 0) {
+      toast({
+        title: "Could not read positions",
+        description: errors.join(', ') || 'The file contained no positions.',
+        variant: "destructive",
+      });
+      return;
+    }
+    if (rowErrors.length > 0) {
+      toast({
+        title: `${rowErrors.length} rows could not be read`,
+        description: rowErrors.slice(0, 3)
+          .map(e => `Row ${e.row}: ${e.reason}${e.value ? ` (${e.value})` : ''}`)
+          .join(', ') + (rowErrors.length > 3 ? ', …' : ''),
+        variant: "destructive",
+      });
+    }
+    setPositions(parsed);
+  };
+
+  const handleAddPosition = () => {
+    const validation = positionSchema.safeParse({ ticker, shares, averageCost: averageCost || 0, currency });
+    if (!validation.success) {
+      setEntryError(validation.error.errors[0].message);
+      return;
+    }
+
+    const values = validation.data;
+    const symbol = values.ticker.toUpperCase();
+    const position: BrokerPosition = {
+      ticker: symbol,
+      isin: '',
+      name: symbol,
+      shares: values.shares,
+      costBasis: values.averageCost > 0 ? values.averageCost * values.shares : null,
+      currency: values.currency.toUpperCase(),
+    };
+    setPositions(prev => [...prev.filter(p => p.ticker !== symbol), position]);
+    setTicker('');
+    setShares('');
+    setAverageCost('');
+    setEntryError(null);
+  };
+
+  const handleAdjust = (difference: PositionDifference) => {
+    const trade = buildAdjustingTrade(difference, new Date(`${asOf}T12:00:00`).toISOString());
+    if (trade) setDraft(trade);
+  };
+
+  const handleSaveTrade = async (trade: NewTrade) => {
+    if (!activePortfolio) return;
+
+    await addTrades([trade], activePortfolio.id);
+    setTrades(await getTrades([activePortfolio.id]));
+    toast({
+      title: "Adjusting trade added",
+      description: `${trade.action === 'BUY' ? 'Bought' : 'Sold'} ${formatQuantity(trade.shares)} ${trade.ticker}`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative">
+      {/* Decorative bubbles */}
+      <DecorativeBubbles variant="subtle" className="fixed" />
+
+      {/* Header */}
+      <header className="glass-strong sticky top-0 z-20 safe-area-top border-b border-border/30">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link to="/">
+              <Button variant="ghost" size="icon" className="touch-target rounded-xl hover:bg-primary/10">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-xl font-bold font-display">Reconcile Positions</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 safe-area-bottom relative z-10">
+        {!portfoliosLoading && !activePortfolio ? (
+          <GradientCard className="p-8 text-center">
+            <Scale className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="font-semibold">Choose a portfolio</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              A broker snapshot is compared with one portfolio. Pick it in the portfolio switcher first.
+            </p>
+          </GradientCard>
+        ) : (
+          <>
+            {/* Broker snapshot */}
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
+                Broker Positions{activePortfolio ? ` · ${activePortfolio.name}` : ''}
+              </h2>
+
+              <GradientCard className="p-4 space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="reconcile-date">As of</Label>
+                    <Input
+                      id="reconcile-date"
+                      type="date"
+                      value={asOf}
+                      max={today()}
+                      onChange={(e) => setAsOf(e.target.value || today())}
+                      className="w-40"
+                    />
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={handleFile}
+                  />
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload CSV
+                  </Button>
+                  {positions.length > 0 && (
+                    <Button variant="ghost" onClick={() => setPositions([])}>
+                      Clear
+                    </Button>
+                  )}
+                </div>
+
+                {/* Manual entry */}
+                <div className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_1fr_90px_auto] gap-2 items-end">
+                  <Input placeholder="Ticker" value={ticker} onChange={(e) => setTicker(e.target.value)} />
+                  <Input placeholder="Shares" inputMode="decimal" value={shares} onChange={(e) => setShares(e.target.value)} />
+                  <Input placeholder="Avg cost (optional)" inputMode="decimal" value={averageCost} onChange={(e) => setAverageCost(e.target.value)} />
+                  <Input placeholder="USD" value={currency} onChange={(e) => setCurrency(e.target.value)} />
+                  <Button onClick={handleAddPosition}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {entryError && <p className="text-sm text-destructive">{entryError}</p>}
+
+                {positions.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {positions.map(position => (
+                      <span
+                        key={position.ticker}
+                        className="inline-flex items-center gap-1 rounded-lg bg-secondary/50 px-2 py-1 text-xs font-medium"
+                      >
+                        {position.ticker} · {formatQuantity(position.shares)}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${position.ticker}`}
+                          onClick={() => setPositions(prev => prev.filter(p => p.ticker !== position.ticker))}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Upload the positions export from your broker (ticker or ISIN, quantity and optionally cost),
+                    or enter each position by hand.
+                  </p>
+                )}
+              </GradientCard>
+            </section>
+
+            {/* Differences */}
+            {isLoading ? (
+              <GradientCard className="p-4 space-y-3">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </GradientCard>
+            ) : positions.length > 0 && issues.length === 0 ? (
+              <GradientCard className="p-8 text-center">
+                <CheckCircle2 className="h-10 w-10 mx-auto text-profit mb-3" />
+                <p className="font-semibold">Everything matches</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  All {positions.length} positions match the holdings computed from your trades.
+                </p>
+              </GradientCard>
+            ) : positions.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
+                  {issues.length} Difference{issues.length === 1 ? '' : 's'}
+                </h2>
+
+                <div className="glass rounded-2xl overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <div className="min-w-[640px]">
+                      <div className="grid grid-cols-[minmax(120px,1.5fr)_repeat(2,1fr)_minmax(140px,1.5fr)_minmax(120px,1.2fr)] bg-secondary/30">
+                        {['', 'Computed', 'Broker', 'Avg Cost', ''].map((heading, i) => (
+                          <div
+                            key={i}
+                            className={i === 0
+                              ? "py-2.5 px-4 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider"
+                              : "py-2.5 px-2 text-center text-[10px] font-semibold text-muted-foreground uppercase tracking-wider"}
+                          >
+                            {heading}
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="divide-y divide-border/20">
+                        {differences.map((difference) => (
+                          <div
+                            key={difference.ticker}
+                            className="grid grid-cols-[minmax(120px,1.5fr)_repeat(2,1fr)_minmax(140px,1.5fr)_minmax(120px,1.2fr)]"
+                          >
+                            <div className="py-3.5 px-4">
+                              <p className="font-semibold text-sm leading-tight">{difference.ticker}</p>
+                              <p className={difference.status === 'matched'
+                                ? "text-[10px] text-muted-foreground font-medium"
+                                : "text-[10px] text-loss font-medium"}
+                              >
+                                {describeDifference(difference)}
+                              </p>
+                            </div>
+                            <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                              <p className="text-sm">{formatQuantity(difference.computedShares)}</p>
+                            </div>
+                            <div className="py-3.5 px-2 text-center flex items-center justify-center">
+                              <p className="text-sm font-semibold">{formatQuantity(difference.brokerShares)}</p>
+                            </div>
+                            <div className="py-3.5 px-2 text-center flex flex-col items-center justify-center">
+                              <p className="text-sm">{formatCost(difference.computedAverageCost, difference.currency)}</p>
+                              <p className="text-[10px] text-muted-foreground">
+                                Broker {formatCost(difference.brokerAverageCost, difference.currency)}
+                              </p>
+                            </div>
+                            <div className="py-3.5 px-2 flex items-center justify-center">
+                              {difference.issue === 'split' ? (
+                                <Link to={`/asset/${difference.ticker}`}>
+                                  <Button variant="outline" size="sm">Record split</Button>
+                                </Link>
+                              ) : difference.issue === 'missing-trades' && (
+                                <Button variant="outline" size="sm" onClick={() => handleAdjust(difference)}>
+                                  Adjust
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+
+      <TradeDialog
+        open={draft !== null}
+        onOpenChange={(open) => !open && setDraft(null)}
+        onSave={handleSaveTrade}
+        trades={trades}
+        corporateActions={corporateActions}
+        draft={draft ?? undefined}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Trash2, Pencil, Check, Wallet, ChevronRight, LogOut, User, Sparkles } from 'lucide-react';
+import { ArrowLeft, Trash2, Pencil, Check, Archive, ArchiveRestore, Wallet, ChevronRight, LogOut, User, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
@@ -17,37 +17,106 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePortfolios } from '@/hooks/use-portfolios';
+import { SUPPORTED_BASE_CURRENCIES } from '@/services/fxService';
+import { LOCAL_TIME_ZONE } from '@/lib/locale';
+import type { CostBasisMethod } from '@/types/portfolio';
 import { getCurrentUser, signOut } from '@/lib/auth';
 
+const COST_BASIS_METHODS: { value: CostBasisMethod; label: string; description: string }[] = [
+  { value: 'FIFO', label: 'FIFO', description: 'First in, first out' },
+  { value: 'LIFO', label: 'LIFO', description: 'Last in, first out' },
+  { value: 'HIFO', label: 'HIFO', description: 'Highest cost first' },
+];
+
+// Zones brokers commonly export in
+const IMPORT_TIME_ZONES: { value: string; label: string }[] = [
+  { value: LOCAL_TIME_ZONE, label: 'This device' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Berlin', label: 'Central Europe' },
+  { value: 'America/New_York', label: 'New York' },
+  { value: 'America/Chicago', label: 'Chicago' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+];
+
 export default function Settings() {
   const { toast } = useToast();
   const navigate = useNavigate();
   const user = getCurrentUser();
+  const { preferences, updatePreferences } = usePreferences();
   
-  // Mock portfolio data - in production this would come from context/state
-  const [portfolioName, setPortfolioName] = useState('My Portfolio');
-  const [isEditing, setIsEditing] = useState(false);
-  const [editValue, setEditValue] = useState(portfolioName);
+  const { portfolios, renamePortfolio, archivePortfolio, deletePortfolio } = usePortfolios();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const [loggingOut, setLoggingOut] = useState(false);
 
-  const handleSaveName = () => {
-    if (editValue.trim()) {
-      setPortfolioName(editValue.trim());
-      setIsEditing(false);
+  const handleSaveName = async (portfolioId: string) => {
+    const name = editValue.trim();
+    if (!name) return;
+    
+    try {
+      await renamePortfolio(portfolioId, name);
+      setEditingId(null);
       toast({
         title: 'Portfolio renamed',
-        description: `Portfolio is now called "${editValue.trim()}"`,
+        description: `Portfolio is now called "${name}"`,
+      });
+    } catch (error) {
+      console.error('Error renaming portfolio:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to rename portfolio. Please try again.',
+        variant: 'destructive',
       });
     }
   };
 
-  const handleDeletePortfolio = () => {
-    toast({
-      title: 'Portfolio deleted',
-      description: 'All trades have been removed.',
-      variant: 'destructive',
-    });
+  const handleArchivePortfolio = async (portfolioId: string, archived: boolean) => {
+    try {
+      await archivePortfolio(portfolioId, archived);
+      toast({
+        title: archived ? 'Portfolio archived' : 'Portfolio restored',
+        description: archived
+          ? 'It is hidden from the switcher and the "All portfolios" view.'
+          : 'It is shown in the switcher again.',
+      });
+    } catch (error) {
+      console.error('Error archiving portfolio:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update portfolio. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeletePortfolio = async (portfolioId: string) => {
+    try {
+      await deletePortfolio(portfolioId);
+      toast({
+        title: 'Portfolio deleted',
+        description: 'All trades have been removed.',
+        variant: 'destructive',
+      });
+    } catch (error) {
+      console.error('Error deleting portfolio:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete portfolio. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const handleLogout = async () => {
@@ -145,80 +214,174 @@ export default function Settings() {
         {/* Portfolio Section */}
         <section className="space-y-3">
           <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
-            Portfolio
+            Portfolios
+          </h2>
+          
+          <GradientCard className="p-4 divide-y divide-border/30">
+            {portfolios.map(portfolio => (
+              <div key={portfolio.id} className="flex items-center justify-between gap-2 py-3 first:pt-0 last:pb-0">
+                {editingId === portfolio.id ? (
+                  <div className="flex-1 flex items-center gap-2">
+                    <Input
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      className="flex-1 rounded-xl bg-secondary/50 border-border/30"
+                      autoFocus
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveName(portfolio.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                    />
+                    <Button size="icon" onClick={() => handleSaveName(portfolio.id)} className="touch-target rounded-xl bg-gradient-primary">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="min-w-0">
+                      <p className={cn("font-semibold truncate", portfolio.archived && "text-muted-foreground")}>
+                        {portfolio.name}
+                      </p>
+                      {portfolio.archived && <p className="text-xs text-muted-foreground">Archived</p>}
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditValue(portfolio.name);
+                          setEditingId(portfolio.id);
+                        }}
+                        className="touch-target rounded-xl hover:bg-primary/10"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleArchivePortfolio(portfolio.id, !portfolio.archived)}
+                        className="touch-target rounded-xl hover:bg-primary/10"
+                        title={portfolio.archived ? 'Restore' : 'Archive'}
+                      >
+                        {portfolio.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="touch-target rounded-xl text-destructive hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="glass-strong border-border/30 safe-area-inset">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="font-display">Delete Portfolio?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This will permanently delete "{portfolio.name}" and all {' '}
+                              related trades. This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="touch-target rounded-xl">Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeletePortfolio(portfolio.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 touch-target rounded-xl"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+            {portfolios.length === 0 && (
+              <p className="text-sm text-muted-foreground">No portfolios yet</p>
+            )}
+          </GradientCard>
+        </section>
+
+        {/* Calculations Section */}
+        <section className="space-y-3">
+          <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-1">
+            Calculations
           </h2>
           
           <GradientCard className="p-4 space-y-4">
-            {/* Portfolio Name */}
             <div className="flex items-center justify-between gap-4">
-              {isEditing ? (
-                <div className="flex-1 flex items-center gap-2">
-                  <Input
-                    value={editValue}
-                    onChange={(e) => setEditValue(e.target.value)}
-                    className="flex-1 rounded-xl bg-secondary/50 border-border/30"
-                    autoFocus
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') handleSaveName();
-                      if (e.key === 'Escape') {
-                        setIsEditing(false);
-                        setEditValue(portfolioName);
-                      }
-                    }}
-                  />
-                  <Button size="icon" onClick={handleSaveName} className="touch-target rounded-xl bg-gradient-primary">
-                    <Check className="h-4 w-4" />
-                  </Button>
-                </div>
-              ) : (
-                <>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Portfolio Name</p>
-                    <p className="font-semibold">{portfolioName}</p>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => {
-                      setEditValue(portfolioName);
-                      setIsEditing(true);
-                    }}
-                    className="touch-target rounded-xl hover:bg-primary/10"
-                  >
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                </>
-              )}
+              <div>
+                <p className="text-sm text-muted-foreground">Base Currency</p>
+                <p className="text-xs text-muted-foreground/80">
+                  Totals and P/L are converted to this currency
+                </p>
+              </div>
+              <Select
+                value={preferences.baseCurrency}
+                onValueChange={(value) => updatePreferences({ baseCurrency: value })}
+              >
+                <SelectTrigger className="w-40 rounded-xl bg-secondary/50 border-border/30">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_BASE_CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
-            {/* Delete Portfolio */}
-            <div className="pt-4 border-t border-border/30">
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button variant="destructive" className="w-full gap-2 touch-target rounded-xl">
-                    <Trash2 className="h-4 w-4" />
-                    Delete Portfolio
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent className="glass-strong border-border/30 safe-area-inset">
-                  <AlertDialogHeader>
-                    <AlertDialogTitle className="font-display">Delete Portfolio?</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      This will permanently delete "{portfolioName}" and all {' '}
-                      related trades. This action cannot be undone.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel className="touch-target rounded-xl">Cancel</AlertDialogCancel>
-                    <AlertDialogAction
-                      onClick={handleDeletePortfolio}
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90 touch-target rounded-xl"
-                    >
-                      Delete
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-border/30">
+              <div>
+                <p className="text-sm text-muted-foreground">Cost Basis Method</p>
+                <p className="text-xs text-muted-foreground/80">
+                  How sells are matched to tax lots
+                </p>
+              </div>
+              <Select
+                value={preferences.costBasisMethod}
+                onValueChange={(value) => updatePreferences({ costBasisMethod: value as CostBasisMethod })}
+              >
+                <SelectTrigger className="w-40 rounded-xl bg-secondary/50 border-border/30">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COST_BASIS_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label} · {method.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-border/30">
+              <div>
+                <p className="text-sm text-muted-foreground">Import Time Zone</p>
+                <p className="text-xs text-muted-foreground/80">
+                  For imported dates that don't include one
+                </p>
+              </div>
+              <Select
+                value={preferences.importTimeZone}
+                onValueChange={(value) => updatePreferences({ importTimeZone: value })}
+              >
+                <SelectTrigger className="w-40 rounded-xl bg-secondary/50 border-border/30">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_TIME_ZONES.map((zone) => (
+                    <SelectItem key={zone.value} value={zone.value}>
+                      {zone.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </GradientCard>
         </section>
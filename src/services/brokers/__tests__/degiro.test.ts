@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { degiroAdapter } from '../degiro';
+import csv from './fixtures/degiro.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('degiroAdapter', () => {
+  it('detects the Transactions export', () => {
+    expect(degiroAdapter.detect(rows[0].map(normalizeHeader))).toBe(true);
+    expect(degiroAdapter.detect(['date', 'ticker', 'quantity', 'price'])).toBe(false);
+    expect(detectBroker(rows)).toBe(degiroAdapter);
+  });
+
+  it('reads comma decimals and day-first dates for the whole file', () => {
+    const { trades, diagnostics } = degiroAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(diagnostics.rowErrors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-05T15:31:00.000Z',
+      isin: 'US0378331005',
+      ticker: 'US0378331005',
+      name: 'APPLE INC',
+      shares: 10,
+      pricePerShare: 183.64,
+      priceCurrency: 'USD',
+      totalValue: 1677.08,
+      totalCurrency: 'EUR',
+      exchangeRate: 1.095,
+      fees: 0.5,
+      feesCurrency: 'EUR',
+      source: 'degiro',
+    });
+  });
+
+  it('reads a negative quantity as a sell', () => {
+    const { trades } = degiroAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(trades[1]).toMatchObject({
+      action: 'SELL',
+      timestamp: '2024-02-19T09:05:00.000Z',
+      isin: 'NL0010273215',
+      shares: 2,
+      pricePerShare: 850,
+      priceCurrency: 'EUR',
+      totalValue: 1700,
+      exchangeRate: 1,
+      fees: 4.9,
+    });
+  });
+
+  it('uses an explicit decimal separator over the detected one', () => {
+    const { trades } = degiroAdapter.parse(rows, { timeZone: 'UTC', decimalSeparator: '.' });
+
+    expect(trades[0].pricePerShare).toBe(183640);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { etoroAdapter } from '../etoro';
+import csv from './fixtures/etoro.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('etoroAdapter', () => {
+  it('detects the Account Activity sheet', () => {
+    expect(etoroAdapter.detect(rows[0].map(normalizeHeader))).toBe(true);
+    expect(etoroAdapter.detect(['date', 'type', 'amount', 'units'])).toBe(false);
+    expect(detectBroker(rows)).toBe(etoroAdapter);
+  });
+
+  it('prices opened and closed positions from amount and units', () => {
+    const { trades } = etoroAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-02T15:30:05.000Z',
+      ticker: 'AAPL',
+      shares: 2.5,
+      pricePerShare: 200,
+      priceCurrency: 'USD',
+      totalValue: 500,
+      exchangeRate: 1,
+      source: 'etoro',
+    });
+    expect(trades[1]).toMatchObject({
+      action: 'SELL',
+      timestamp: '2024-03-20T16:00:00.000Z',
+      shares: 2.5,
+      pricePerShare: 208,
+      totalValue: 520,
+    });
+  });
+
+  it('maps dividends to cash events and skips other asset types', () => {
+    const { cashEvents, diagnostics } = etoroAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({ type: 'DIVIDEND', ticker: 'AAPL', amount: 0.48, currency: 'USD', source: 'etoro' }),
+    ]);
+    expect(diagnostics.skipReasons).toEqual({ 'Unsupported asset type: Crypto': 1 });
+  });
+});
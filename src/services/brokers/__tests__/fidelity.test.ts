@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { fidelityAdapter } from '../fidelity';
+import csv from './fixtures/fidelity.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('fidelityAdapter', () => {
+  it('detects the account history after its blank lines', () => {
+    const header = rows.find(row => row[0] === 'Run Date');
+    expect(fidelityAdapter.detect(header.map(normalizeHeader))).toBe(true);
+    expect(fidelityAdapter.detect(['run date', 'action', 'symbol', 'price', 'amount'])).toBe(false);
+    expect(detectBroker(rows)).toBe(fidelityAdapter);
+  });
+
+  it('parses bought and sold actions', () => {
+    const { trades, diagnostics } = fidelityAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(diagnostics.rowErrors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-05T00:00:00.000Z',
+      ticker: 'AAPL',
+      name: 'APPLE INC',
+      shares: 10,
+      pricePerShare: 183.64,
+      priceCurrency: 'USD',
+      totalValue: 1836.4,
+      exchangeRate: 1,
+      source: 'fidelity',
+    });
+    expect(trades[1]).toMatchObject({
+      action: 'SELL',
+      timestamp: '2024-03-12T00:00:00.000Z',
+      ticker: 'MSFT',
+      shares: 5,
+      pricePerShare: 402.1,
+      totalValue: 2010.45,
+      fees: 0.05,
+    });
+  });
+
+  it('maps dividends to cash events and ignores transfers and disclaimers', () => {
+    const { cashEvents, diagnostics } = fidelityAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({ type: 'DIVIDEND', ticker: 'AAPL', amount: 2.4, currency: 'USD', source: 'fidelity' }),
+    ]);
+    expect(diagnostics.totalRows).toBe(4);
+    expect(diagnostics.skipReasons).toEqual({ 'Ignored: Electronic Funds Tra': 1 });
+  });
+});
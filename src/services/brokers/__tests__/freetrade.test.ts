@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { freetradeAdapter } from '../freetrade';
+import csv from './fixtures/freetrade.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('freetradeAdapter', () => {
+  it('detects the activity feed export', () => {
+    expect(freetradeAdapter.detect(rows[0].map(normalizeHeader))).toBe(true);
+    expect(freetradeAdapter.detect(['title', 'type', 'timestamp', 'ticker'])).toBe(false);
+    expect(detectBroker(rows)).toBe(freetradeAdapter);
+  });
+
+  it('parses orders with the FX fee and stamp duty', () => {
+    const { trades, diagnostics } = freetradeAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(diagnostics.rowErrors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      brokerTransactionId: 'FT-ORDER-0001',
+      action: 'BUY',
+      timestamp: '2024-01-05T15:31:22.000Z',
+      isin: 'US0378331005',
+      ticker: 'AAPL',
+      name: 'Apple',
+      shares: 1,
+      pricePerShare: 183.64,
+      priceCurrency: 'USD',
+      totalValue: 146.08,
+      totalCurrency: 'GBP',
+      exchangeRate: 0.7915,
+      fees: 0.73,
+      feesCurrency: 'GBP',
+      source: 'freetrade',
+    });
+    expect(trades[1]).toMatchObject({
+      brokerTransactionId: 'FT-ORDER-0002',
+      ticker: 'VOD.L',
+      shares: 100,
+      pricePerShare: 0.7,
+      priceCurrency: 'GBP',
+      totalValue: 70.35,
+      taxes: 0.35,
+      taxesCurrency: 'GBP',
+    });
+    expect(trades[1].fees).toBeUndefined();
+  });
+
+  it('takes gross dividends and withheld tax in the instrument currency', () => {
+    const { cashEvents, diagnostics } = freetradeAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({
+        type: 'DIVIDEND',
+        ticker: 'AAPL',
+        amount: 0.24,
+        currency: 'USD',
+        withholdingTax: 0.04,
+        withholdingTaxCurrency: 'USD',
+      }),
+    ]);
+    expect(diagnostics.skipReasons).toEqual({ 'Ignored: TOP_UP': 1 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { revolutAdapter } from '../revolut';
+import csv from './fixtures/revolut.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('revolutAdapter', () => {
+  it('detects the account statement', () => {
+    expect(revolutAdapter.detect(rows[0].map(normalizeHeader))).toBe(true);
+    expect(revolutAdapter.detect(['date', 'ticker', 'quantity', 'price'])).toBe(false);
+    expect(detectBroker(rows)).toBe(revolutAdapter);
+  });
+
+  it('parses orders with currency-prefixed amounts', () => {
+    const { trades } = revolutAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-05T14:30:12.123Z',
+      ticker: 'AAPL',
+      shares: 2,
+      pricePerShare: 185.5,
+      priceCurrency: 'USD',
+      totalValue: 371,
+      totalCurrency: 'USD',
+      exchangeRate: 1.095,
+      source: 'revolut',
+    });
+    expect(trades[1]).toMatchObject({ action: 'SELL', ticker: 'AAPL', shares: 1, pricePerShare: 170.25, totalValue: 170.25 });
+  });
+
+  it('maps dividends to cash events and skips top-ups', () => {
+    const { cashEvents, diagnostics } = revolutAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({ type: 'DIVIDEND', ticker: 'AAPL', amount: 0.41, currency: 'USD', source: 'revolut' }),
+    ]);
+    expect(diagnostics.skipReasons).toEqual({ 'Ignored: CASH TOP-UP': 1 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseCSVTable, readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { schwabAdapter } from '../schwab';
+import csv from './fixtures/schwab.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('schwabAdapter', () => {
+  it('detects the transaction history below its title line', () => {
+    expect(schwabAdapter.detect(rows[1].map(normalizeHeader))).toBe(true);
+    expect(schwabAdapter.detect(['date', 'action', 'symbol', 'quantity', 'price', 'amount'])).toBe(false);
+    expect(detectBroker(rows)).toBe(schwabAdapter);
+  });
+
+  it('parses month-first dates and dollar amounts', () => {
+    const { trades, diagnostics } = schwabAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(diagnostics.rowErrors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-05T00:00:00.000Z',
+      ticker: 'AAPL',
+      name: 'APPLE INC',
+      shares: 10,
+      pricePerShare: 183.64,
+      priceCurrency: 'USD',
+      totalValue: 1836.4,
+      exchangeRate: 1,
+      source: 'schwab',
+    });
+    expect(trades[0].fees).toBeUndefined();
+    expect(trades[1]).toMatchObject({
+      action: 'SELL',
+      timestamp: '2024-03-12T00:00:00.000Z',
+      ticker: 'MSFT',
+      shares: 5,
+      pricePerShare: 402.1,
+      totalValue: 2010.45,
+      fees: 0.05,
+      feesCurrency: 'USD',
+    });
+  });
+
+  it('dates "as of" rows by their posting date and skips options and transfers', () => {
+    const { cashEvents, diagnostics } = schwabAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({ type: 'DIVIDEND', timestamp: '2024-02-15T00:00:00.000Z', ticker: 'AAPL', amount: 2.4 }),
+    ]);
+    expect(diagnostics.skipReasons).toEqual({
+      'Unsupported security': 1,
+      'Ignored: MoneyLink Transfer': 1,
+    });
+  });
+
+  it('gives rows the same IDs as the generic CSV parser', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const adapter = schwabAdapter.parse(rows, { timeZone: 'UTC' });
+    const generic = parseCSVTable(rows.slice(1), 'csv', { timeZone: 'UTC' });
+
+    expect(generic.trades.map(t => t.brokerTransactionId)).toEqual(
+      expect.arrayContaining(adapter.trades.map(t => t.brokerTransactionId))
+    );
+    expect(generic.cashEvents.map(e => e.brokerTransactionId)).toEqual(
+      adapter.cashEvents.map(e => e.brokerTransactionId)
+    );
+  });
+});
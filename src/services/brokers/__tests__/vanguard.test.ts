@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { readCSVRows } from '@/services/importService';
+import { detectBroker } from '@/services/brokers';
+import { normalizeHeader } from '../adapter';
+import { vanguardAdapter } from '../vanguard';
+import csv from './fixtures/vanguard.csv?raw';
+
+const rows = readCSVRows(csv);
+
+describe('vanguardAdapter', () => {
+  it('detects the transactions table, not the holdings above it', () => {
+    const header = rows.find(row => row.includes('Trade Date'));
+    expect(vanguardAdapter.detect(rows[0].map(normalizeHeader))).toBe(false);
+    expect(vanguardAdapter.detect(header.map(normalizeHeader))).toBe(true);
+    expect(detectBroker(rows)).toBe(vanguardAdapter);
+  });
+
+  it('parses buys and sells', () => {
+    const { trades, diagnostics } = vanguardAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(diagnostics.rowErrors).toEqual([]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      action: 'BUY',
+      timestamp: '2024-01-05T00:00:00.000Z',
+      ticker: 'VTI',
+      name: 'VANGUARD TOTAL STOCK MARKET ETF',
+      shares: 10,
+      pricePerShare: 235.5,
+      priceCurrency: 'USD',
+      totalValue: 2355,
+      exchangeRate: 1,
+      source: 'vanguard',
+    });
+    expect(trades[1]).toMatchObject({
+      action: 'SELL',
+      timestamp: '2024-04-02T00:00:00.000Z',
+      shares: 4,
+      pricePerShare: 250.25,
+      totalValue: 1001,
+      fees: 1,
+      feesCurrency: 'USD',
+    });
+  });
+
+  it('maps dividends to cash events and skips sweeps', () => {
+    const { cashEvents, diagnostics } = vanguardAdapter.parse(rows, { timeZone: 'UTC' });
+
+    expect(cashEvents).toEqual([
+      expect.objectContaining({ type: 'DIVIDEND', timestamp: '2024-03-27T00:00:00.000Z', ticker: 'VTI', amount: 9.13 }),
+    ]);
+    expect(diagnostics.skipReasons).toEqual({ 'Ignored: Sweep in': 1 });
+  });
+});
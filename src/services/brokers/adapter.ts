@@ -0,0 +1,219 @@
+/**
+ * Broker Import Adapters
+ * Each adapter recognizes one broker's export from its header row, parses
+ * the file's rows (tokenized beforehand, see readCSVRows) and maps every
+ * row to a trade or cash event.
+ */
+
+import type { CashEventType, TradeAction, TradeSource } from '@/types/portfolio';
+import {
+  detectDateOrder,
+  detectDecimalSeparator,
+  LOCAL_TIME_ZONE,
+  type DateOrder,
+  type DecimalSeparator,
+} from '@/lib/locale';
+import {
+  numberRepeatedIds,
+  parseNumber,
+  type ParseOptions,
+  type ParseResult,
+  type ParsedCashEvent,
+  type ParsedCorporateAction,
+  type ParsedTrade,
+  type RowError,
+} from '@/services/importService';
+
+// Header rows are searched for in the first lines (some exports start with a title or summary)
+const HEADER_SEARCH_LINES = 30;
+
+export interface BrokerAdapter {
+  id: TradeSource;
+  name: string;
+  description: string;
+  /** True when a (normalized) header row comes from this broker's export */
+  detect: (headers: string[]) => boolean;
+  /** True when columns are matched by alias, so the user can remap them before parsing */
+  mappable: boolean;
+  parse: (rows: string[][], options?: ParseOptions) => ParseResult;
+}
+
+/**
+ * A data row keyed by normalized header. Unnamed columns are named after the
+ * column before them plus " currency" (Degiro leaves currency headers blank).
+ */
+export type BrokerRow = Record<string, string>;
+
+/**
+ * What became of a row. `skip` is for rows that aren't trades (deposits,
+ * options); `error` is for trade rows that can't be read.
+ */
+export type MappedRow =
+  | { trade: ParsedTrade }
+  | { cashEvent: ParsedCashEvent }
+  | { skip: string }
+  | { error: string; value?: string };
+
+export interface RowContext {
+  rowIndex: number;
+  timeZone: string;             // For dates without a UTC offset
+  dateOrder: DateOrder;         // Detected once for the whole file
+  decimalSeparator: DecimalSeparator;
+}
+
+// What a row is: a trade, or a cash ledger entry
+export type RowKind = TradeAction | CashEventType;
+
+interface RowAdapterConfig {
+  id: TradeSource;
+  name: string;
+  description: string;
+  requiredHeaders: string[];    // Normalized header names that identify the export
+  dateHeaders: string[];        // Columns the file's date order is detected from
+  numberHeaders: string[];      // Columns the file's decimal separator is detected from
+  dateOrder: DateOrder;         // When every date could be read either way ("05/01/2024")
+  mapRow: (row: BrokerRow, context: RowContext) => MappedRow;
+}
+
+export function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalized header cells of the first rows, for detection
+ */
+export function getHeaderCandidates(rows: string[][]): { index: number; headers: string[] }[] {
+  return rows
+    .slice(0, HEADER_SEARCH_LINES)
+    .map((row, index) => ({ index, headers: row.map(normalizeHeader) }))
+    .filter(candidate => candidate.headers.length > 1);
+}
+
+function toRow(headers: string[], values: string[]): BrokerRow {
+  const row: BrokerRow = {};
+  headers.forEach((header, i) => {
+    const key = header || (i > 0 && headers[i - 1] ? `${headers[i - 1]} currency` : `column ${i}`);
+    row[key] = values[i]?.trim() ?? '';
+  });
+  return row;
+}
+
+/**
+ * Number from a broker cell, ignoring currency codes ("USD 1,234.50").
+ * The separator is the one detected for the whole file, since "1,095"
+ * alone could be either.
+ */
+export function parseAmount(value: string | undefined, decimal: DecimalSeparator): number | null {
+  return parseNumber(value?.replace(/\b[A-Z]{3}\b/g, ''), decimal);
+}
+
+/**
+ * Kind of the first rule whose keyword appears in a broker's action text.
+ * Rules are checked in order, so specific phrases go before general ones.
+ */
+export function matchRowKind(text: string, rules: [string, RowKind][]): RowKind | null {
+  const normalized = text.toLowerCase();
+  return rules.find(([keyword]) => normalized.includes(keyword))?.[1] ?? null;
+}
+
+export function isTradeAction(kind: RowKind): kind is TradeAction {
+  return kind === 'BUY' || kind === 'SELL';
+}
+
+/**
+ * Shared result for an adapter parse, with the same diagnostics as parseCSV
+ */
+export function buildParseResult(
+  trades: ParsedTrade[],
+  cashEvents: ParsedCashEvent[],
+  totalRows: number,
+  skipReasons: Record<string, number>,
+  errors: string[] = [],
+  rowErrors: RowError[] = [],
+  corporateActions: ParsedCorporateAction[] = []
+): ParseResult {
+  const warnings: string[] = [];
+  if (trades.length === 0 && cashEvents.length === 0 && corporateActions.length === 0 && totalRows > 0) {
+    warnings.push(`0 trades detected from ${totalRows} rows. Check if the CSV format is supported.`);
+  }
+
+  return {
+    trades: numberRepeatedIds(trades),
+    cashEvents: numberRepeatedIds(cashEvents),
+    corporateActions,
+    errors,
+    diagnostics: {
+      totalRows,
+      tradesImported: trades.length,
+      cashEventsImported: cashEvents.length,
+      corporateActionsImported: corporateActions.length,
+      rowsSkipped: totalRows - trades.length - cashEvents.length - corporateActions.length,
+      skipReasons,
+      rowErrors,
+      warnings,
+      totalInvested: trades.reduce((sum, t) => (t.action === 'BUY' ? sum + t.shares * t.pricePerShare : sum), 0),
+      uniqueTickers: [...new Set(trades.map(t => t.ticker))],
+    },
+  };
+}
+
+/**
+ * Adapter for a single-table export: finds the header row, then maps each
+ * data row on its own
+ */
+export function createRowAdapter(config: RowAdapterConfig): BrokerAdapter {
+  const detect = (headers: string[]) => config.requiredHeaders.every(h => headers.includes(h));
+
+  const parse = (rows: string[][], options: ParseOptions = {}): ParseResult => {
+    const trades: ParsedTrade[] = [];
+    const cashEvents: ParsedCashEvent[] = [];
+    const skipReasons: Record<string, number> = {};
+    const rowErrors: RowError[] = [];
+    const errors: string[] = [];
+    const timeZone = options.timeZone || LOCAL_TIME_ZONE;
+
+    const addSkipReason = (reason: string) => {
+      skipReasons[reason] = (skipReasons[reason] || 0) + 1;
+    };
+
+    const header = getHeaderCandidates(rows).find(candidate => detect(candidate.headers));
+    if (!header) {
+      return buildParseResult(trades, cashEvents, 0, skipReasons, [`Not a ${config.name} export`]);
+    }
+
+    // Blank lines and footnotes are left out
+    const dataRows = rows
+      .map((values, index) => ({ index, values }))
+      .slice(header.index + 1)
+      .filter(({ values }) => values.filter(Boolean).length >= 2)
+      .map(({ index, values }) => ({ index, row: toRow(header.headers, values) }));
+
+    const columnValues = (columns: string[]) => dataRows.flatMap(({ row }) => columns.map(column => row[column] || ''));
+    const dateOrder = options.dateOrder ?? detectDateOrder(columnValues(config.dateHeaders), config.dateOrder);
+    const decimalSeparator = options.decimalSeparator ?? detectDecimalSeparator(columnValues(config.numberHeaders));
+
+    for (const { index: i, row } of dataRows) {
+      try {
+        const mapped = config.mapRow(row, { rowIndex: i, timeZone, dateOrder, decimalSeparator });
+        if ('trade' in mapped) {
+          trades.push(mapped.trade);
+        } else if ('cashEvent' in mapped) {
+          cashEvents.push(mapped.cashEvent);
+        } else if ('error' in mapped) {
+          addSkipReason(mapped.error);
+          rowErrors.push({ row: i + 1, reason: mapped.error, ...(mapped.value ? { value: mapped.value } : {}) });
+        } else {
+          addSkipReason(mapped.skip);
+        }
+      } catch (e) {
+        errors.push(`Row ${i + 1}: Parse error`);
+        addSkipReason('Parse error');
+        rowErrors.push({ row: i + 1, reason: 'Parse error', ...(e instanceof Error ? { value: e.message } : {}) });
+      }
+    }
+
+    return buildParseResult(trades, cashEvents, dataRows.length, skipReasons, errors, rowErrors);
+  };
+
+  return { id: config.id, name: config.name, description: config.description, detect, mappable: false, parse };
+}
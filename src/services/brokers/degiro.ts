@@ -0,0 +1,55 @@
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import { createRowAdapter, parseAmount } from './adapter';
+
+/**
+ * Degiro "Transactions" export. Rows have an ISIN but no ticker, so securities
+ * are resolved from the ISIN; sells have a negative quantity.
+ */
+export const degiroAdapter = createRowAdapter({
+  id: 'degiro',
+  name: 'Degiro',
+  description: 'Import the Transactions CSV from Degiro (Activity → Transactions → Export).',
+  requiredHeaders: ['product', 'isin', 'venue', 'quantity', 'price', 'order id'],
+  dateHeaders: ['date'],
+  numberHeaders: ['quantity', 'price', 'local value', 'value', 'exchange rate', 'total'],
+  dateOrder: 'DMY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime([row['date'], row['time']].join(' '), dateOrder, timeZone);
+    const isin = row['isin'].toUpperCase();
+    const quantity = parseAmount(row['quantity'], decimalSeparator);
+    const price = parseAmount(row['price'], decimalSeparator);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['date'] };
+    if (!isin) return { error: 'Missing ticker/ISIN' };
+    if (!quantity) return { error: 'Invalid shares', value: row['quantity'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['price'] };
+
+    const shares = Math.abs(quantity);
+    const action = quantity < 0 ? 'SELL' : 'BUY';
+    const priceCurrency = (row['price currency'] || 'EUR').toUpperCase();
+    const totalCurrency = (row['value currency'] || priceCurrency).toUpperCase();
+    const feeColumn = Object.keys(row).find(key => key.startsWith('transaction') && !key.endsWith('currency'));
+    const fees = Math.abs(parseAmount(feeColumn ? row[feeColumn] : undefined, decimalSeparator) || 0);
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(row['order id'], [isin, timestamp, action, shares, price]),
+        action,
+        timestamp,
+        isin,
+        // Resolved to a symbol after parsing (see getUnresolvedSecurities)
+        ticker: isin,
+        name: row['product'] || isin,
+        shares,
+        pricePerShare: price,
+        priceCurrency,
+        totalValue: Math.abs(parseAmount(row['value'], decimalSeparator) || shares * price),
+        totalCurrency,
+        exchangeRate: parseAmount(row['exchange rate'], decimalSeparator) || 1,
+        ...(fees > 0 ? { fees, feesCurrency: (row[`${feeColumn} currency`] || totalCurrency).toUpperCase() } : {}),
+        source: 'degiro',
+      },
+    };
+  },
+});
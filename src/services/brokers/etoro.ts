@@ -0,0 +1,89 @@
+import type { CashEventType } from '@/types/portfolio';
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import { createRowAdapter, parseAmount } from './adapter';
+
+// eToro activity types that reach the cash ledger
+const CASH_EVENT_TYPES: Record<string, CashEventType> = {
+  'dividend': 'DIVIDEND',
+  'interest payment': 'INTEREST',
+  'sdrt': 'FEE',
+  'rollover fee': 'FEE',
+  'overnight fee': 'FEE',
+};
+
+// Only real shares are tracked, not CFDs or crypto
+const SUPPORTED_ASSET_TYPES = ['stocks', 'etf', ''];
+
+/**
+ * eToro account statement, "Account Activity" sheet saved as CSV. Amounts are
+ * in the USD account currency; "Details" holds the instrument ("AAPL/USD").
+ */
+export const etoroAdapter = createRowAdapter({
+  id: 'etoro',
+  name: 'eToro',
+  description: 'Import the Account Activity sheet of your eToro account statement, saved as CSV.',
+  requiredHeaders: ['date', 'type', 'details', 'amount', 'units', 'position id'],
+  dateHeaders: ['date'],
+  numberHeaders: ['amount', 'units'],
+  dateOrder: 'DMY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['date'], dateOrder, timeZone);
+    const type = row['type'].toLowerCase();
+    const [instrument, quoteCurrency] = row['details'].split('/');
+    const ticker = instrument ? normalizeBrokerSymbol(instrument, { currency: quoteCurrency }) : '';
+    const amount = Math.abs(parseAmount(row['amount'], decimalSeparator) || 0);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['date'] };
+    if (!SUPPORTED_ASSET_TYPES.includes((row['asset type'] || '').toLowerCase())) {
+      return { skip: `Unsupported asset type: ${row['asset type']}` };
+    }
+
+    const cashEventType = CASH_EVENT_TYPES[type];
+    if (cashEventType) {
+      if (!amount) return { error: `Invalid ${row['type']}` };
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, cashEventType, amount]),
+          type: cashEventType,
+          timestamp,
+          isin: '',
+          ticker,
+          name: ticker,
+          amount,
+          currency: 'USD',
+          withholdingTax: 0,
+          withholdingTaxCurrency: 'USD',
+          source: 'etoro',
+        },
+      };
+    }
+
+    const action = type === 'open position' ? 'BUY' : type === 'position closed' ? 'SELL' : null;
+    if (!action) return { skip: `Ignored: ${row['type'].substring(0, 20)}` };
+
+    const shares = Math.abs(parseAmount(row['units'], decimalSeparator) || 0);
+    if (!ticker) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['units'] };
+    if (!amount) return { error: 'Invalid price', value: row['amount'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, action, shares, amount / shares]),
+        action,
+        timestamp,
+        isin: '',
+        ticker,
+        name: ticker,
+        shares,
+        pricePerShare: amount / shares,
+        priceCurrency: 'USD',
+        totalValue: amount,
+        totalCurrency: 'USD',
+        exchangeRate: 1,
+        source: 'etoro',
+      },
+    };
+  },
+});
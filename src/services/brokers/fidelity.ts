@@ -0,0 +1,90 @@
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import {
+  createRowAdapter,
+  isTradeAction,
+  matchRowKind,
+  parseAmount,
+  type RowKind,
+} from './adapter';
+
+const ACTIONS: [string, RowKind][] = [
+  ['you bought', 'BUY'],
+  ['reinvestment', 'BUY'],
+  ['you sold', 'SELL'],
+  ['foreign tax', 'WITHHOLDING_TAX'],
+  ['dividend received', 'DIVIDEND'],
+  ['capital gain', 'DIVIDEND'],
+  ['interest earned', 'INTEREST'],
+  ['fee charged', 'FEE'],
+];
+
+/**
+ * Fidelity account history. Actions are sentences such as
+ * "YOU BOUGHT APPLE INC (AAPL) (Cash)"; the file ends with disclaimer lines.
+ */
+export const fidelityAdapter = createRowAdapter({
+  id: 'fidelity',
+  name: 'Fidelity',
+  description: 'Import the account history CSV from Fidelity (Activity & Orders → Download).',
+  requiredHeaders: ['run date', 'action', 'symbol', 'price ($)', 'amount ($)'],
+  dateHeaders: ['run date'],
+  numberHeaders: ['quantity', 'price ($)', 'commission ($)', 'fees ($)', 'amount ($)'],
+  dateOrder: 'MDY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['run date'], dateOrder, timeZone);
+    const kind = matchRowKind(row['action'], ACTIONS);
+    const ticker = normalizeBrokerSymbol(row['symbol']);
+    const name = row['description'] || row['security description'] || ticker;
+    const amount = Math.abs(parseAmount(row['amount ($)'], decimalSeparator) || 0);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['run date'] };
+    if (!kind) return { skip: `Ignored: ${row['action'].substring(0, 20)}` };
+
+    if (!isTradeAction(kind)) {
+      if (!amount) return { error: `Invalid ${row['action'].substring(0, 20)}` };
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, amount]),
+          type: kind,
+          timestamp,
+          isin: '',
+          ticker,
+          name,
+          amount,
+          currency: 'USD',
+          withholdingTax: 0,
+          withholdingTaxCurrency: 'USD',
+          source: 'fidelity',
+        },
+      };
+    }
+
+    const shares = Math.abs(parseAmount(row['quantity'], decimalSeparator) || 0);
+    const price = parseAmount(row['price ($)'], decimalSeparator);
+    const fees = Math.abs(parseAmount(row['commission ($)'], decimalSeparator) || 0) + Math.abs(parseAmount(row['fees ($)'], decimalSeparator) || 0);
+    if (!ticker) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['quantity'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['price ($)'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, shares, price]),
+        action: kind,
+        timestamp,
+        isin: '',
+        ticker,
+        name,
+        shares,
+        pricePerShare: price,
+        priceCurrency: 'USD',
+        totalValue: amount || shares * price,
+        totalCurrency: 'USD',
+        exchangeRate: 1,
+        ...(fees > 0 ? { fees, feesCurrency: 'USD' } : {}),
+        source: 'fidelity',
+      },
+    };
+  },
+});
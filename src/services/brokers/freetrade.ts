@@ -0,0 +1,91 @@
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import { createRowAdapter, parseAmount } from './adapter';
+
+/**
+ * Freetrade activity feed export. Orders are "ORDER" rows with a BUY/SELL side;
+ * stamp duty and the FX fee are charged in the account currency.
+ */
+export const freetradeAdapter = createRowAdapter({
+  id: 'freetrade',
+  name: 'Freetrade',
+  description: 'Import the activity feed CSV from Freetrade (Activity → Export).',
+  requiredHeaders: ['title', 'type', 'timestamp', 'buy / sell', 'ticker', 'isin'],
+  dateHeaders: ['timestamp'],
+  numberHeaders: ['quantity', 'price per share', 'total amount', 'fx rate'],
+  dateOrder: 'DMY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['timestamp'], dateOrder, timeZone);
+    const type = row['type'].toUpperCase();
+    const isin = row['isin'].toUpperCase();
+    const accountCurrency = (row['account currency'] || 'GBP').toUpperCase();
+    const instrumentCurrency = (row['instrument currency'] || accountCurrency).toUpperCase();
+    const ticker = normalizeBrokerSymbol(row['ticker'], { currency: instrumentCurrency, isin });
+    const name = row['title'] || ticker || isin;
+
+    if (!timestamp) return { error: 'Invalid date', value: row['timestamp'] };
+
+    if (type === 'DIVIDEND' || type === 'INTEREST_FROM_CASH') {
+      const gross = parseAmount(row['dividend gross distribution amount'], decimalSeparator);
+      // Gross dividends are in the instrument currency, everything else in the account currency
+      const [amount, currency] = gross
+        ? [gross, instrumentCurrency]
+        : [parseAmount(row['total amount'], decimalSeparator) || 0, accountCurrency];
+      if (!amount) return { error: `Invalid ${type}` };
+      if (type === 'DIVIDEND' && !ticker && !isin) return { error: 'Missing ticker/ISIN' };
+
+      const cashEventType = type === 'DIVIDEND' ? 'DIVIDEND' : 'INTEREST';
+      const cashEventTicker = type === 'DIVIDEND' ? ticker || isin : '';
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [cashEventTicker, timestamp, cashEventType, Math.abs(amount)]),
+          type: cashEventType,
+          timestamp,
+          isin,
+          ticker: cashEventTicker,
+          name,
+          amount: Math.abs(amount),
+          currency,
+          withholdingTax: gross ? Math.abs(parseAmount(row['dividend withheld tax amount'], decimalSeparator) || 0) : 0,
+          withholdingTaxCurrency: currency,
+          source: 'freetrade',
+        },
+      };
+    }
+
+    if (type !== 'ORDER' && type !== 'FREESHARE_ORDER') return { skip: `Ignored: ${row['type'].substring(0, 20)}` };
+
+    const side = row['buy / sell'].toUpperCase();
+    const shares = Math.abs(parseAmount(row['quantity'], decimalSeparator) || 0);
+    const price = parseAmount(row['price per share'], decimalSeparator) || parseAmount(row['price per share in account currency'], decimalSeparator);
+    const priceCurrency = parseAmount(row['price per share'], decimalSeparator) ? instrumentCurrency : accountCurrency;
+    const taxes = Math.abs(parseAmount(row['stamp duty'], decimalSeparator) || 0);
+    const fees = Math.abs(parseAmount(row['fx fee amount'], decimalSeparator) || 0);
+
+    if (side !== 'BUY' && side !== 'SELL') return { error: 'Could not determine BUY/SELL' };
+    if (!ticker && !isin) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['quantity'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['price per share'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(row['order id'], [ticker || isin, timestamp, side, shares, price]),
+        action: side,
+        timestamp,
+        isin,
+        ticker: ticker || isin,
+        name,
+        shares,
+        pricePerShare: price,
+        priceCurrency,
+        totalValue: Math.abs(parseAmount(row['total amount'], decimalSeparator) || shares * price),
+        totalCurrency: accountCurrency,
+        exchangeRate: parseAmount(row['fx rate'], decimalSeparator) || 1,
+        ...(fees > 0 ? { fees, feesCurrency: accountCurrency } : {}),
+        ...(taxes > 0 ? { taxes, taxesCurrency: accountCurrency } : {}),
+        source: 'freetrade',
+      },
+    };
+  },
+});
@@ -0,0 +1,321 @@
+import type { BrokerPosition, CashEventType } from '@/types/portfolio';
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { detectDecimalSeparator, parseDateTime, LOCAL_TIME_ZONE } from '@/lib/locale';
+import {
+  buildTransactionId,
+  parseCSVTable,
+  type BrokerTransfer,
+  type ParseOptions,
+  type ParseResult,
+  type ParsedCashEvent,
+  type ParsedCorporateAction,
+  type ParsedTrade,
+  type RowError,
+} from '@/services/importService';
+import { buildParseResult, normalizeHeader, parseAmount, type BrokerAdapter } from './adapter';
+
+/**
+ * One table of an activity statement. A section repeats its header for each
+ * asset category, so a section can have several tables.
+ */
+interface StatementTable {
+  header: string[];             // Normalized, without the section and row kind cells
+  rows: { index: number; values: string[] }[];
+}
+
+interface Instrument {
+  isin: string;
+  name: string;
+  exchange: string;
+}
+
+// Cash sections and the cash event type of their rows
+const CASH_SECTIONS: Record<string, CashEventType> = {
+  'Dividends': 'DIVIDEND',
+  'Withholding Tax': 'WITHHOLDING_TAX',
+  'Interest': 'INTEREST',
+  'Fees': 'FEE',
+};
+
+// Sections whose amount, quantity and cost basis show the statement's decimal separator
+const NUMBER_SECTIONS = [...Object.keys(CASH_SECTIONS), 'Deposits & Withdrawals', 'Open Positions'];
+const NUMBER_COLUMNS = ['amount', 'quantity', 'cost basis'];
+
+// "AAPL(US0378331005) Cash Dividend USD 0.24 per Share"
+const SECURITY_PATTERN = /^([^(]+?)\s*\(([A-Z]{2}[A-Z0-9]{9}\d)\)/;
+
+// "NVDA(US67066G1040) Split 10 for 1 (NVDA, NVIDIA CORP, US67066G1040)"
+const SPLIT_PATTERN = /\bSplit\s+([\d.]+)\s+for\s+([\d.]+)/i;
+
+/**
+ * Group an activity statement's rows by section name ("Trades", "Dividends", ...)
+ */
+function readSections(rows: string[][]): Map<string, StatementTable[]> {
+  const sections = new Map<string, StatementTable[]>();
+
+  rows.forEach((values, index) => {
+    const [section, kind] = values;
+    if (!section) return;
+
+    if (kind === 'Header') {
+      const tables = sections.get(section) || [];
+      tables.push({ header: values.slice(2).map(normalizeHeader), rows: [] });
+      sections.set(section, tables);
+    } else if (kind === 'Data') {
+      sections.get(section)?.at(-1)?.rows.push({ index, values: values.slice(2) });
+    }
+  });
+
+  return sections;
+}
+
+function getValue(table: StatementTable, values: string[], column: string): string {
+  const index = table.header.indexOf(column);
+  return index >= 0 ? values[index]?.trim() ?? '' : '';
+}
+
+// Summary lines ("Total", "Total in USD", "Total Dividends in USD") sit among the data rows
+function isTotalRow(table: StatementTable, values: string[]): boolean {
+  return getValue(table, values, 'currency').startsWith('Total');
+}
+
+/**
+ * ISIN, name and listing exchange per symbol, from "Financial Instrument Information"
+ */
+function readInstruments(tables: StatementTable[] = []): Map<string, Instrument> {
+  const instruments = new Map<string, Instrument>();
+
+  for (const table of tables) {
+    for (const { values } of table.rows) {
+      const instrument = {
+        isin: getValue(table, values, 'security id').toUpperCase(),
+        name: getValue(table, values, 'description'),
+        exchange: getValue(table, values, 'listing exch'),
+      };
+      // Renamed securities list every symbol they traded under ("FB, META")
+      for (const symbol of getValue(table, values, 'symbol').split(',')) {
+        if (symbol.trim()) instruments.set(symbol.trim(), instrument);
+      }
+    }
+  }
+
+  return instruments;
+}
+
+/**
+ * Parse an activity statement: trades, cash sections, splits, deposits and
+ * open positions. Files without sections (Flex Queries) are one trades table.
+ */
+export function parseIBKRStatement(rows: string[][], options: ParseOptions = {}): ParseResult {
+  const sections = readSections(rows);
+  if (!sections.has('Trades')) {
+    return parseCSVTable(rows, 'ibkr', options);
+  }
+
+  const timeZone = options.timeZone || LOCAL_TIME_ZONE;
+  const decimal = options.decimalSeparator ?? detectDecimalSeparator(
+    NUMBER_SECTIONS.flatMap(section => (sections.get(section) || []).flatMap(table =>
+      table.rows.flatMap(({ values }) => NUMBER_COLUMNS.map(column => getValue(table, values, column)))
+    ))
+  );
+  const instruments = readInstruments(sections.get('Financial Instrument Information'));
+  const trades: ParsedTrade[] = [];
+  const cashEvents: ParsedCashEvent[] = [];
+  const corporateActions: ParsedCorporateAction[] = [];
+  const positions: BrokerPosition[] = [];
+  const transfers: BrokerTransfer[] = [];
+  const skipReasons: Record<string, number> = {};
+  const rowErrors: RowError[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let totalRows = 0;
+
+  const addSkipReason = (reason: string, count = 1) => {
+    skipReasons[reason] = (skipReasons[reason] || 0) + count;
+  };
+  const rejectRow = (index: number, reason: string, value?: string) => {
+    addSkipReason(reason);
+    rowErrors.push({ row: index + 1, reason, ...(value ? { value } : {}) });
+  };
+
+  const toTicker = (symbol: string, currency: string) => {
+    const instrument = instruments.get(symbol);
+    return normalizeBrokerSymbol(symbol, { exchange: instrument?.exchange, currency, isin: instrument?.isin });
+  };
+
+  // Trades: stock orders go through the column-alias parser, with the
+  // instrument's ISIN, name and exchange added as extra columns
+  for (const table of sections.get('Trades') || []) {
+    const orders = table.rows.filter(({ values }) => {
+      const discriminator = getValue(table, values, 'datadiscriminator');
+      return !discriminator || discriminator === 'Order' || discriminator === 'Trade';
+    });
+    const stockOrders = orders.filter(({ values }) => getValue(table, values, 'asset category') === 'Stocks');
+    totalRows += orders.length;
+
+    for (const { values } of orders) {
+      const category = getValue(table, values, 'asset category');
+      if (category !== 'Stocks') addSkipReason(`Unsupported asset type: ${category}`);
+    }
+    if (stockOrders.length === 0) continue;
+
+    const result = parseCSVTable([
+      [...table.header, 'description', 'security id', 'listing exch'],
+      ...stockOrders.map(({ values }) => {
+        const instrument = instruments.get(getValue(table, values, 'symbol'));
+        return [...values, instrument?.name || '', instrument?.isin || '', instrument?.exchange || ''];
+      }),
+    ], 'ibkr', options);
+
+    trades.push(...result.trades);
+    errors.push(...result.errors);
+    warnings.push(...result.diagnostics.warnings.filter(w => !warnings.includes(w)));
+    for (const [reason, count] of Object.entries(result.diagnostics.skipReasons)) {
+      addSkipReason(reason, count);
+    }
+    // Row numbers of the extracted table (header first) back to the statement
+    rowErrors.push(...result.diagnostics.rowErrors.map(error => ({
+      ...error,
+      row: (stockOrders[error.row - 2]?.index ?? error.row - 1) + 1,
+    })));
+  }
+
+  // Dividends, withholding tax, interest and fees
+  for (const [section, type] of Object.entries(CASH_SECTIONS)) {
+    for (const table of sections.get(section) || []) {
+      for (const { index, values } of table.rows) {
+        if (isTotalRow(table, values)) continue;
+        totalRows++;
+
+        const date = getValue(table, values, 'date');
+        const timestamp = parseDateTime(date, 'YMD', timeZone);
+        const amount = parseAmount(getValue(table, values, 'amount'), decimal);
+        const description = getValue(table, values, 'description');
+        if (!timestamp) {
+          rejectRow(index, 'Invalid date', date);
+          continue;
+        }
+        if (!amount) {
+          rejectRow(index, `Invalid ${section}`, getValue(table, values, 'amount'));
+          continue;
+        }
+
+        const currency = getValue(table, values, 'currency').toUpperCase();
+        const security = description.match(SECURITY_PATTERN);
+        if (type === 'DIVIDEND' && !security) {
+          rejectRow(index, 'Missing ticker/ISIN', description);
+          continue;
+        }
+        const ticker = security ? toTicker(security[1].trim(), currency) : '';
+
+        cashEvents.push({
+          brokerTransactionId: buildTransactionId(undefined, [ticker || security?.[2] || '', timestamp, type, Math.abs(amount)]),
+          type,
+          timestamp,
+          isin: security?.[2] || '',
+          ticker,
+          name: (security && instruments.get(security[1].trim())?.name) || ticker || description,
+          // Dividends and interest are credits; tax and fees are debits, so refunds come out negative
+          amount: type === 'DIVIDEND' || type === 'INTEREST' ? amount : -amount,
+          currency,
+          withholdingTax: 0,
+          withholdingTaxCurrency: currency,
+          source: 'ibkr',
+        });
+      }
+    }
+  }
+
+  // Corporate actions: splits are imported, anything else has to be added by hand
+  let otherActions = 0;
+  for (const table of sections.get('Corporate Actions') || []) {
+    for (const { index, values } of table.rows) {
+      if (getValue(table, values, 'asset category').startsWith('Total') || isTotalRow(table, values)) continue;
+      totalRows++;
+
+      const description = getValue(table, values, 'description');
+      const split = description.match(SPLIT_PATTERN);
+      const security = description.match(SECURITY_PATTERN);
+      if (!split || !security) {
+        otherActions++;
+        addSkipReason('Unsupported corporate action');
+        continue;
+      }
+
+      const dateValue = getValue(table, values, 'date/time') || getValue(table, values, 'report date');
+      const timestamp = parseDateTime(dateValue, 'YMD', timeZone);
+      const ratio = Number(split[1]) / Number(split[2]);
+      if (!timestamp || !(ratio > 0)) {
+        rejectRow(index, timestamp ? 'Invalid split ratio' : 'Invalid date', timestamp ? split[0] : dateValue);
+        continue;
+      }
+
+      const ticker = toTicker(security[1].trim(), getValue(table, values, 'currency').toUpperCase());
+      const brokerTransactionId = `ibkr_split_${ticker}_${timestamp.substring(0, 10)}`;
+      if (corporateActions.some(a => a.brokerTransactionId === brokerTransactionId)) {
+        addSkipReason('Duplicate split row');
+        continue;
+      }
+      corporateActions.push({ brokerTransactionId, type: 'SPLIT', effectiveDate: timestamp, ticker, ratio, source: 'ibkr' });
+    }
+  }
+  if (otherActions > 0) {
+    warnings.push(`${otherActions} corporate actions other than splits were not imported. Add them from the asset page.`);
+  }
+
+  // Deposits & withdrawals and open positions are statement figures, not transactions
+  for (const table of sections.get('Deposits & Withdrawals') || []) {
+    for (const { values } of table.rows) {
+      if (isTotalRow(table, values)) continue;
+      const timestamp = parseDateTime(getValue(table, values, 'settle date'), 'YMD', timeZone);
+      const amount = parseAmount(getValue(table, values, 'amount'), decimal);
+      if (!timestamp || !amount) continue;
+      transfers.push({
+        timestamp,
+        amount,
+        currency: getValue(table, values, 'currency').toUpperCase(),
+        description: getValue(table, values, 'description'),
+      });
+    }
+  }
+
+  for (const table of sections.get('Open Positions') || []) {
+    for (const { values } of table.rows) {
+      const discriminator = getValue(table, values, 'datadiscriminator');
+      if ((discriminator && discriminator !== 'Summary') || getValue(table, values, 'asset category') !== 'Stocks') continue;
+
+      const symbol = getValue(table, values, 'symbol');
+      const currency = getValue(table, values, 'currency').toUpperCase();
+      const shares = parseAmount(getValue(table, values, 'quantity'), decimal);
+      if (!symbol || shares === null) continue;
+
+      positions.push({
+        ticker: toTicker(symbol, currency),
+        isin: instruments.get(symbol)?.isin || '',
+        name: instruments.get(symbol)?.name || symbol,
+        shares,
+        costBasis: parseAmount(getValue(table, values, 'cost basis'), decimal),
+        currency,
+      });
+    }
+  }
+
+  const result = buildParseResult(trades, cashEvents, totalRows, skipReasons, errors, rowErrors, corporateActions);
+  result.diagnostics.warnings.push(...warnings);
+  return { ...result, statement: { positions, transfers } };
+}
+
+/**
+ * Interactive Brokers activity statement (sections of "<name>,Header/Data,...") or Flex Query CSV
+ */
+export const ibkrAdapter: BrokerAdapter = {
+  id: 'ibkr',
+  name: 'Interactive Brokers',
+  description: 'Import an IBKR activity statement or Flex Query CSV export.',
+  detect: (headers) =>
+    (['statement', 'trades'].includes(headers[0]) && headers[1] === 'header') ||
+    (headers.includes('symbol') && ['t. price', 'tradeprice', 'ibcommission'].some(h => headers.includes(h))),
+  // Columns come from the statement's trades section, not the first line
+  mappable: false,
+  parse: (rows, options) => parseIBKRStatement(rows, options),
+};
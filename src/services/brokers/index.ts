@@ -0,0 +1,65 @@
+/**
+ * Broker Adapter Registry
+ * Picks the adapter for an export from its header row. Files that no adapter
+ * recognizes fall back to the generic column-alias parser.
+ */
+
+import type { TradeSource } from '@/types/portfolio';
+import { parseCSVTable } from '@/services/importService';
+import { getHeaderCandidates, type BrokerAdapter } from './adapter';
+import { trading212Adapter } from './trading212';
+import { ibkrAdapter } from './ibkr';
+import { degiroAdapter } from './degiro';
+import { revolutAdapter } from './revolut';
+import { etoroAdapter } from './etoro';
+import { schwabAdapter } from './schwab';
+import { fidelityAdapter } from './fidelity';
+import { vanguardAdapter } from './vanguard';
+import { freetradeAdapter } from './freetrade';
+
+export type { BrokerAdapter } from './adapter';
+
+export const BROKER_ADAPTERS: BrokerAdapter[] = [
+  trading212Adapter,
+  ibkrAdapter,
+  degiroAdapter,
+  revolutAdapter,
+  etoroAdapter,
+  schwabAdapter,
+  fidelityAdapter,
+  vanguardAdapter,
+  freetradeAdapter,
+];
+
+export const GENERIC_ADAPTER: BrokerAdapter = {
+  id: 'csv',
+  name: 'CSV',
+  description: 'Import trades from any CSV with date, ticker, quantity and price columns.',
+  detect: () => true,
+  mappable: true,
+  parse: (rows, options) => parseCSVTable(rows, 'csv', options),
+};
+
+/**
+ * Adapter for an export, from the first header row a broker recognizes
+ */
+export function detectBroker(rows: string[][]): BrokerAdapter {
+  for (const { headers } of getHeaderCandidates(rows)) {
+    const adapter = BROKER_ADAPTERS.find(a => a.detect(headers));
+    if (adapter) return adapter;
+  }
+  return GENERIC_ADAPTER;
+}
+
+export function getBrokerAdapter(source: TradeSource): BrokerAdapter | undefined {
+  return BROKER_ADAPTERS.find(a => a.id === source);
+}
+
+/**
+ * Display name for where a trade came from
+ */
+export function getSourceName(source: TradeSource): string {
+  if (source === 'manual') return 'Manual';
+  if (source === 'csv') return 'CSV import';
+  return getBrokerAdapter(source)?.name || source;
+}
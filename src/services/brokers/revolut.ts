@@ -0,0 +1,82 @@
+import type { CashEventType } from '@/types/portfolio';
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import { createRowAdapter, parseAmount } from './adapter';
+
+// Revolut types other than orders that reach the cash ledger
+const CASH_EVENT_TYPES: Record<string, CashEventType> = {
+  'dividend': 'DIVIDEND',
+  'dividend tax (correction)': 'WITHHOLDING_TAX',
+  'custody fee': 'FEE',
+};
+
+/**
+ * Revolut stocks account statement. Types are "BUY - MARKET", "SELL - LIMIT",
+ * "DIVIDEND", "CASH TOP-UP" and so on; amounts carry their currency ("USD 12.50").
+ */
+export const revolutAdapter = createRowAdapter({
+  id: 'revolut',
+  name: 'Revolut',
+  description: 'Import the account statement CSV from Revolut Stocks.',
+  requiredHeaders: ['date', 'ticker', 'type', 'quantity', 'price per share', 'total amount', 'currency'],
+  dateHeaders: ['date'],
+  numberHeaders: ['quantity', 'price per share', 'total amount', 'fx rate'],
+  dateOrder: 'DMY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['date'], dateOrder, timeZone);
+    const type = row['type'].toLowerCase();
+    const currency = (row['currency'] || 'USD').toUpperCase();
+    const ticker = normalizeBrokerSymbol(row['ticker'], { currency });
+    const amount = Math.abs(parseAmount(row['total amount'], decimalSeparator) || 0);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['date'] };
+
+    const cashEventType = CASH_EVENT_TYPES[type];
+    if (cashEventType) {
+      if (!amount) return { error: `Invalid ${row['type']}` };
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, cashEventType, amount]),
+          type: cashEventType,
+          timestamp,
+          isin: '',
+          ticker,
+          name: ticker,
+          amount,
+          currency,
+          withholdingTax: 0,
+          withholdingTaxCurrency: currency,
+          source: 'revolut',
+        },
+      };
+    }
+
+    const action = type.startsWith('buy') ? 'BUY' : type.startsWith('sell') ? 'SELL' : null;
+    if (!action) return { skip: `Ignored: ${row['type'].substring(0, 20)}` };
+
+    const shares = Math.abs(parseAmount(row['quantity'], decimalSeparator) || 0);
+    const price = parseAmount(row['price per share'], decimalSeparator);
+    if (!ticker) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['quantity'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['price per share'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, action, shares, price]),
+        action,
+        timestamp,
+        isin: '',
+        ticker,
+        name: ticker,
+        shares,
+        pricePerShare: price,
+        priceCurrency: currency,
+        totalValue: amount || shares * price,
+        totalCurrency: currency,
+        exchangeRate: parseAmount(row['fx rate'], decimalSeparator) || 1,
+        source: 'revolut',
+      },
+    };
+  },
+});
@@ -0,0 +1,94 @@
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import {
+  createRowAdapter,
+  isTradeAction,
+  matchRowKind,
+  parseAmount,
+  type RowKind,
+} from './adapter';
+
+const ACTIONS: [string, RowKind][] = [
+  ['reinvest shares', 'BUY'],
+  ['buy', 'BUY'],
+  ['sell', 'SELL'],
+  ['nra tax', 'WITHHOLDING_TAX'],
+  ['foreign tax', 'WITHHOLDING_TAX'],
+  ['div', 'DIVIDEND'],
+  ['cap gain', 'DIVIDEND'],
+  ['interest', 'INTEREST'],
+  ['fee', 'FEE'],
+];
+
+/**
+ * Charles Schwab brokerage transaction history. Dates may read
+ * "01/05/2024 as of 01/04/2024"; the first date is the posting date.
+ */
+export const schwabAdapter = createRowAdapter({
+  id: 'schwab',
+  name: 'Charles Schwab',
+  description: 'Import the transaction history CSV from Schwab (History → Export).',
+  requiredHeaders: ['date', 'action', 'symbol', 'quantity', 'price', 'fees & comm', 'amount'],
+  dateHeaders: ['date'],
+  numberHeaders: ['quantity', 'price', 'fees & comm', 'amount'],
+  dateOrder: 'MDY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['date'], dateOrder, timeZone);
+    const kind = matchRowKind(row['action'], ACTIONS);
+    const symbol = row['symbol'];
+    const amount = Math.abs(parseAmount(row['amount'], decimalSeparator) || 0);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['date'] };
+    if (!kind) return { skip: `Ignored: ${row['action'].substring(0, 20)}` };
+    // Options are listed as "AAPL 01/19/2024 150.00 C"
+    if (symbol.includes(' ')) return { skip: 'Unsupported security' };
+
+    const ticker = normalizeBrokerSymbol(symbol);
+
+    if (!isTradeAction(kind)) {
+      if (!amount) return { error: `Invalid ${row['action'].substring(0, 20)}` };
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, amount]),
+          type: kind,
+          timestamp,
+          isin: '',
+          ticker,
+          name: row['description'] || ticker,
+          amount,
+          currency: 'USD',
+          withholdingTax: 0,
+          withholdingTaxCurrency: 'USD',
+          source: 'schwab',
+        },
+      };
+    }
+
+    const shares = Math.abs(parseAmount(row['quantity'], decimalSeparator) || 0);
+    const price = parseAmount(row['price'], decimalSeparator);
+    const fees = Math.abs(parseAmount(row['fees & comm'], decimalSeparator) || 0);
+    if (!ticker) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['quantity'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['price'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, shares, price]),
+        action: kind,
+        timestamp,
+        isin: '',
+        ticker,
+        name: row['description'] || ticker,
+        shares,
+        pricePerShare: price,
+        priceCurrency: 'USD',
+        totalValue: amount || shares * price,
+        totalCurrency: 'USD',
+        exchangeRate: 1,
+        ...(fees > 0 ? { fees, feesCurrency: 'USD' } : {}),
+        source: 'schwab',
+      },
+    };
+  },
+});
@@ -0,0 +1,14 @@
+import { parseCSVTable } from '@/services/importService';
+import type { BrokerAdapter } from './adapter';
+
+/**
+ * Trading212 history export, read by the generic column-alias parser
+ */
+export const trading212Adapter: BrokerAdapter = {
+  id: 'trading212',
+  name: 'Trading212',
+  description: 'Import your trades from Trading212 CSV export.',
+  detect: (headers) => ['action', 'time', 'no. of shares', 'price / share'].every(h => headers.includes(h)),
+  mappable: true,
+  parse: (rows, options) => parseCSVTable(rows, 'trading212', options),
+};
@@ -0,0 +1,90 @@
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { parseDateTime } from '@/lib/locale';
+import { buildTransactionId } from '@/services/importService';
+import {
+  createRowAdapter,
+  isTradeAction,
+  matchRowKind,
+  parseAmount,
+  type RowKind,
+} from './adapter';
+
+const TRANSACTION_TYPES: [string, RowKind][] = [
+  ['reinvestment', 'BUY'],
+  ['buy', 'BUY'],
+  ['sell', 'SELL'],
+  ['withholding', 'WITHHOLDING_TAX'],
+  ['dividend', 'DIVIDEND'],
+  ['capital gain', 'DIVIDEND'],
+  ['interest', 'INTEREST'],
+  ['fee', 'FEE'],
+];
+
+/**
+ * Vanguard brokerage download. The file lists holdings first and transactions
+ * after a second header row, which is the one this adapter reads.
+ */
+export const vanguardAdapter = createRowAdapter({
+  id: 'vanguard',
+  name: 'Vanguard',
+  description: 'Import the transaction download CSV from your Vanguard brokerage account.',
+  requiredHeaders: ['trade date', 'transaction type', 'investment name', 'symbol', 'shares', 'share price', 'net amount'],
+  dateHeaders: ['trade date'],
+  numberHeaders: ['shares', 'share price', 'commissions and fees', 'principal amount', 'net amount'],
+  dateOrder: 'MDY',
+  mapRow: (row, { timeZone, dateOrder, decimalSeparator }) => {
+    const timestamp = parseDateTime(row['trade date'], dateOrder, timeZone);
+    const kind = matchRowKind(row['transaction type'], TRANSACTION_TYPES);
+    const ticker = normalizeBrokerSymbol(row['symbol']);
+    const name = row['investment name'] || ticker;
+    const amount = Math.abs(parseAmount(row['net amount'], decimalSeparator) || 0);
+
+    if (!timestamp) return { error: 'Invalid date', value: row['trade date'] };
+    if (!kind) return { skip: `Ignored: ${row['transaction type'].substring(0, 20)}` };
+
+    if (!isTradeAction(kind)) {
+      if (!amount) return { error: `Invalid ${row['transaction type'].substring(0, 20)}` };
+      return {
+        cashEvent: {
+          brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, amount]),
+          type: kind,
+          timestamp,
+          isin: '',
+          ticker,
+          name,
+          amount,
+          currency: 'USD',
+          withholdingTax: 0,
+          withholdingTaxCurrency: 'USD',
+          source: 'vanguard',
+        },
+      };
+    }
+
+    const shares = Math.abs(parseAmount(row['shares'], decimalSeparator) || 0);
+    const price = parseAmount(row['share price'], decimalSeparator);
+    const fees = Math.abs(parseAmount(row['commissions and fees'], decimalSeparator) || 0);
+    if (!ticker) return { error: 'Missing ticker/ISIN' };
+    if (shares <= 0) return { error: 'Invalid shares', value: row['shares'] };
+    if (!price || price <= 0) return { error: 'Invalid price', value: row['share price'] };
+
+    return {
+      trade: {
+        brokerTransactionId: buildTransactionId(undefined, [ticker, timestamp, kind, shares, price]),
+        action: kind,
+        timestamp,
+        isin: '',
+        ticker,
+        name,
+        shares,
+        pricePerShare: price,
+        priceCurrency: 'USD',
+        totalValue: Math.abs(parseAmount(row['principal amount'], decimalSeparator) || 0) || shares * price,
+        totalCurrency: 'USD',
+        exchangeRate: 1,
+        ...(fees > 0 ? { fees, feesCurrency: 'USD' } : {}),
+        source: 'vanguard',
+      },
+    };
+  },
+});
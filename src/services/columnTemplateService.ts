@@ -0,0 +1,56 @@
+/**
+ * Column Template Service
+ * Saves the column mapping a user chose for an import file, keyed by the
+ * file's header signature, so the next file with the same headers reuses it
+ */
+
+import type { ColumnMapping } from '@/services/importService';
+import { normalizeHeader } from '@/services/brokers/adapter';
+
+const STORAGE_KEY = 'column-templates';
+
+export interface ColumnTemplate {
+  name: string;
+  signature: string;            // Normalized header row
+  mapping: ColumnMapping;
+}
+
+/**
+ * Header row in a form that ignores case and spacing
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+export function getColumnTemplates(): ColumnTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.warn('Could not read column templates:', error);
+  }
+  return [];
+}
+
+/**
+ * Saved template for a file with these headers, if any
+ */
+export function findColumnTemplate(headers: string[]): ColumnTemplate | null {
+  const signature = getHeaderSignature(headers);
+  return getColumnTemplates().find(t => t.signature === signature) || null;
+}
+
+/**
+ * Save a mapping for these headers. Replaces an earlier template for the same headers.
+ */
+export function saveColumnTemplate(name: string, headers: string[], mapping: ColumnMapping) {
+  const signature = getHeaderSignature(headers);
+  const templates = getColumnTemplates().filter(t => t.signature !== signature);
+  templates.push({ name: name.trim(), signature, mapping });
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.warn('Could not save column templates:', error);
+  }
+}
@@ -2,6 +2,7 @@ import {
   collection,
   doc,
   getDocs,
+  setDoc,
   writeBatch,
   deleteDoc,
   updateDoc,
@@ -9,17 +10,35 @@ import {
   where,
   serverTimestamp,
   Timestamp,
+  type DocumentReference,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { getCurrentUserId } from '@/lib/auth';
-import type { Trade, TradeSource } from '@/types/portfolio';
+import type {
+  Trade,
+  TradeSource,
+  LotSelection,
+  CashEvent,
+  CashEventType,
+  CorporateAction,
+  Portfolio,
+} from '@/types/portfolio';
 
+const PORTFOLIOS_COLLECTION = 'portfolios';
 const TRADES_COLLECTION = 'trades';
+const CASH_EVENTS_COLLECTION = 'cashEvents';
+const CORPORATE_ACTIONS_COLLECTION = 'corporateActions';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+const DEFAULT_PORTFOLIO_NAME = 'My Portfolio';
 
 // Firestore document type (with Timestamp)
 interface FirestoreTradeDoc {
   id: string;
   userId: string;
+  portfolioId: string;
   brokerTransactionId: string;
   action: 'BUY' | 'SELL';
   timestamp: string;
@@ -32,10 +51,87 @@ interface FirestoreTradeDoc {
   totalValue: number;
   totalCurrency: string;
   exchangeRate: number;
+  fees?: number;
+  feesCurrency?: string;
+  taxes?: number;
+  taxesCurrency?: string;
+  lotSelection?: LotSelection[];
   source: TradeSource;
   createdAt: Timestamp | null;
 }
 
+interface FirestoreCashEventDoc {
+  id: string;
+  userId: string;
+  portfolioId: string;
+  brokerTransactionId: string;
+  type: CashEventType;
+  timestamp: string;
+  isin: string;
+  ticker: string;
+  name: string;
+  amount: number;
+  currency: string;
+  withholdingTax: number;
+  withholdingTaxCurrency: string;
+  source: TradeSource;
+  createdAt: Timestamp | null;
+}
+
+type FirestoreCorporateActionDoc = Omit<CorporateAction, 'createdAt'> & { createdAt: Timestamp | null };
+
+type FirestorePortfolioDoc = Omit<Portfolio, 'createdAt'> & { createdAt: Timestamp | null };
+
+/**
+ * Query a user's documents, narrowed to the given portfolios.
+ * A single portfolio is filtered in Firestore, several on the client.
+ */
+async function getPortfolioDocs(collectionName: string, portfolioIds?: string[]) {
+  const userId = getCurrentUserId();
+  const ref = collection(db, collectionName);
+  
+  if (portfolioIds?.length === 1) {
+    const q = query(ref, where('userId', '==', userId), where('portfolioId', '==', portfolioIds[0]));
+    return (await getDocs(q)).docs;
+  }
+  
+  const docs = (await getDocs(query(ref, where('userId', '==', userId)))).docs;
+  if (!portfolioIds) return docs;
+  
+  const ids = new Set(portfolioIds);
+  return docs.filter(docSnap => ids.has(docSnap.data().portfolioId));
+}
+
+/**
+ * Delete documents in batches of at most MAX_BATCH_SIZE
+ */
+async function deleteDocsInBatches(refs: DocumentReference[]): Promise<void> {
+  for (let i = 0; i < refs.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + MAX_BATCH_SIZE).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Create one document per item, committing MAX_BATCH_SIZE writes at a time
+ * so imports of any size stay under Firestore's batch limit
+ */
+async function addDocsInBatches(
+  collectionName: string,
+  items: Record<string, unknown>[],
+  fields: Record<string, unknown>
+): Promise<void> {
+  for (let i = 0; i < items.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const item of items.slice(i, i + MAX_BATCH_SIZE)) {
+      const docRef = doc(collection(db, collectionName));
+      batch.set(docRef, { ...item, id: docRef.id, ...fields, createdAt: serverTimestamp() });
+    }
+    await batch.commit();
+  }
+}
+
 /**
  * Convert Firestore document to Trade object
  */
@@ -49,17 +145,14 @@ function firestoreToTrade(doc: FirestoreTradeDoc): Trade {
 }
 
 /**
- * Get all trades for the current user
+ * Get trades for the current user, optionally only from some portfolios
  */
-export async function getTrades(): Promise<Trade[]> {
-  const userId = getCurrentUserId();
-  
-  const tradesRef = collection(db, TRADES_COLLECTION);
-  const q = query(tradesRef, where('userId', '==', userId));
-  const snapshot = await getDocs(q);
+export async function getTrades(portfolioIds?: string[]): Promise<Trade[]> {
+  if (portfolioIds?.length === 0) return [];
+  const docs = await getPortfolioDocs(TRADES_COLLECTION, portfolioIds);
   
   const trades: Trade[] = [];
-  snapshot.forEach((docSnap) => {
+  docs.forEach((docSnap) => {
     const data = docSnap.data() as FirestoreTradeDoc;
     trades.push(firestoreToTrade({ ...data, id: docSnap.id }));
   });
@@ -71,25 +164,16 @@ export async function getTrades(): Promise<Trade[]> {
 }
 
 /**
- * Add multiple trades to Firestore (batch write)
+ * Add multiple trades to a portfolio (batch writes)
  */
-export async function addTrades(trades: Omit<Trade, 'id' | 'userId' | 'createdAt'>[]): Promise<void> {
+export async function addTrades(
+  trades: Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>[],
+  portfolioId: string
+): Promise<void> {
   if (trades.length === 0) return;
   
   const userId = getCurrentUserId();
-  const batch = writeBatch(db);
-  
-  for (const trade of trades) {
-    const docRef = doc(collection(db, TRADES_COLLECTION));
-    batch.set(docRef, {
-      ...trade,
-      id: docRef.id,
-      userId,
-      createdAt: serverTimestamp(),
-    });
-  }
-  
-  await batch.commit();
+  await addDocsInBatches(TRADES_COLLECTION, trades, { userId, portfolioId });
 }
 
 /**
@@ -110,10 +194,10 @@ export async function tradeExists(brokerTransactionId: string): Promise<boolean>
 }
 
 /**
- * Get existing broker transaction IDs for duplicate detection
+ * Get existing broker transaction IDs in a portfolio for duplicate detection
  */
-export async function getExistingTransactionIds(): Promise<Set<string>> {
-  const trades = await getTrades();
+export async function getExistingTransactionIds(portfolioId: string): Promise<Set<string>> {
+  const trades = await getTrades([portfolioId]);
   return new Set(trades.map(t => t.brokerTransactionId));
 }
 
@@ -127,9 +211,9 @@ export async function deleteTrade(tradeId: string): Promise<void> {
 }
 
 /**
- * Delete all trades for a given ticker
+ * Delete all trades for a given ticker, optionally only in some portfolios
  */
-export async function deleteTradesByTicker(ticker: string): Promise<void> {
+export async function deleteTradesByTicker(ticker: string, portfolioIds?: string[]): Promise<void> {
   const userId = getCurrentUserId();
   
   const tradesRef = collection(db, TRADES_COLLECTION);
@@ -140,13 +224,12 @@ export async function deleteTradesByTicker(ticker: string): Promise<void> {
   );
   
   const snapshot = await getDocs(q);
-  const batch = writeBatch(db);
-  
-  snapshot.forEach((doc) => {
-    batch.delete(doc.ref);
-  });
+  const ids = portfolioIds ? new Set(portfolioIds) : null;
+  const refs = snapshot.docs
+    .filter(docSnap => !ids || ids.has(docSnap.data().portfolioId))
+    .map(docSnap => docSnap.ref);
   
-  await batch.commit();
+  await deleteDocsInBatches(refs);
 }
 
 /**
@@ -163,13 +246,7 @@ export async function deleteTradesBySource(source: TradeSource): Promise<void> {
   );
   
   const snapshot = await getDocs(q);
-  const batch = writeBatch(db);
-  
-  snapshot.forEach((doc) => {
-    batch.delete(doc.ref);
-  });
-  
-  await batch.commit();
+  await deleteDocsInBatches(snapshot.docs.map(docSnap => docSnap.ref));
 }
 
 /**
@@ -177,7 +254,7 @@ export async function deleteTradesBySource(source: TradeSource): Promise<void> {
  */
 export async function updateTrade(
   tradeId: string, 
-  updates: Partial<Omit<Trade, 'id' | 'userId' | 'createdAt'>>
+  updates: Partial<Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>>
 ): Promise<void> {
   getCurrentUserId(); // Verify user is authenticated
   const docRef = doc(db, TRADES_COLLECTION, tradeId);
@@ -194,10 +271,232 @@ export async function clearAllTrades(): Promise<void> {
   const q = query(tradesRef, where('userId', '==', userId));
   const snapshot = await getDocs(q);
   
-  const batch = writeBatch(db);
-  snapshot.forEach((doc) => {
-    batch.delete(doc.ref);
+  await deleteDocsInBatches(snapshot.docs.map(docSnap => docSnap.ref));
+}
+
+// ==================== CASH EVENTS ====================
+
+/**
+ * Get dividend, withholding tax and interest events for the current user,
+ * optionally only from some portfolios
+ */
+export async function getCashEvents(portfolioIds?: string[]): Promise<CashEvent[]> {
+  if (portfolioIds?.length === 0) return [];
+  const docs = await getPortfolioDocs(CASH_EVENTS_COLLECTION, portfolioIds);
+  
+  const events: CashEvent[] = [];
+  docs.forEach((docSnap) => {
+    const data = docSnap.data() as FirestoreCashEventDoc;
+    events.push({
+      ...data,
+      id: docSnap.id,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+    });
+  });
+  
+  // Sort by timestamp descending
+  events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  
+  return events;
+}
+
+/**
+ * Add multiple cash events to a portfolio (batch writes)
+ */
+export async function addCashEvents(
+  events: Omit<CashEvent, 'id' | 'userId' | 'portfolioId' | 'createdAt'>[],
+  portfolioId: string
+): Promise<void> {
+  if (events.length === 0) return;
+  
+  const userId = getCurrentUserId();
+  await addDocsInBatches(CASH_EVENTS_COLLECTION, events, { userId, portfolioId });
+}
+
+/**
+ * Get existing cash event transaction IDs in a portfolio for duplicate detection
+ */
+export async function getExistingCashEventIds(portfolioId: string): Promise<Set<string>> {
+  const events = await getCashEvents([portfolioId]);
+  return new Set(events.map(e => e.brokerTransactionId));
+}
+
+// ==================== CORPORATE ACTIONS ====================
+
+/**
+ * Same action recorded in several portfolios (a split imported into each)
+ */
+function corporateActionKey(action: CorporateAction): string {
+  return [action.type, action.ticker, action.effectiveDate.substring(0, 10), action.ratio, action.newTicker || ''].join('|');
+}
+
+/**
+ * Get splits, ticker changes, spinoffs and mergers for the current user,
+ * optionally only from some portfolios. Actions saved before they had a
+ * portfolio are in every portfolio. An action recorded in several of the
+ * portfolios is returned once, so it isn't applied twice.
+ */
+export async function getCorporateActions(portfolioIds?: string[]): Promise<CorporateAction[]> {
+  if (portfolioIds?.length === 0) return [];
+  const userId = getCurrentUserId();
+  
+  const actionsRef = collection(db, CORPORATE_ACTIONS_COLLECTION);
+  const snapshot = await getDocs(query(actionsRef, where('userId', '==', userId)));
+  const ids = portfolioIds ? new Set(portfolioIds) : null;
+  const seen = new Set<string>();
+  
+  const actions: CorporateAction[] = [];
+  snapshot.forEach((docSnap) => {
+    const data = docSnap.data() as FirestoreCorporateActionDoc;
+    if (ids && data.portfolioId && !ids.has(data.portfolioId)) return;
+    
+    const action = {
+      ...data,
+      id: docSnap.id,
+      portfolioId: data.portfolioId || '',
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+    };
+    const key = corporateActionKey(action);
+    if (seen.has(key)) return;
+    seen.add(key);
+    actions.push(action);
+  });
+  
+  // Sort by effective date ascending (the order they are applied)
+  actions.sort((a, b) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime());
+  
+  return actions;
+}
+
+/**
+ * Add corporate actions to a portfolio (batch writes)
+ */
+export async function addCorporateActions(
+  actions: Omit<CorporateAction, 'id' | 'userId' | 'portfolioId' | 'createdAt'>[],
+  portfolioId: string
+): Promise<void> {
+  if (actions.length === 0) return;
+  
+  const userId = getCurrentUserId();
+  // Firestore rejects undefined fields
+  const items = actions.map(action =>
+    Object.fromEntries(Object.entries(action).filter(([, value]) => value !== undefined))
+  );
+  await addDocsInBatches(CORPORATE_ACTIONS_COLLECTION, items, { userId, portfolioId });
+}
+
+/**
+ * Get existing corporate action transaction IDs in a portfolio for duplicate detection
+ */
+export async function getExistingCorporateActionIds(portfolioId: string): Promise<Set<string>> {
+  const actions = await getCorporateActions([portfolioId]);
+  return new Set(actions.map(a => a.brokerTransactionId).filter(Boolean));
+}
+
+/**
+ * Delete a corporate action by ID
+ */
+export async function deleteCorporateAction(actionId: string): Promise<void> {
+  getCurrentUserId(); // Verify user is authenticated
+  const docRef = doc(db, CORPORATE_ACTIONS_COLLECTION, actionId);
+  await deleteDoc(docRef);
+}
+
+// ==================== PORTFOLIOS ====================
+
+/**
+ * Give trades and cash events saved before portfolios existed a portfolio
+ */
+async function assignUnscopedDocs(portfolioId: string): Promise<void> {
+  const userId = getCurrentUserId();
+  
+  for (const collectionName of [TRADES_COLLECTION, CASH_EVENTS_COLLECTION]) {
+    const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+    const refs = snapshot.docs.filter(docSnap => !docSnap.data().portfolioId).map(docSnap => docSnap.ref);
+    
+    for (let i = 0; i < refs.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      refs.slice(i, i + MAX_BATCH_SIZE).forEach(ref => batch.update(ref, { portfolioId }));
+      await batch.commit();
+    }
+  }
+}
+
+/**
+ * Get all portfolios for the current user, oldest first.
+ * Creates a default portfolio (holding any existing trades) on first use.
+ */
+export async function getPortfolios(): Promise<Portfolio[]> {
+  const userId = getCurrentUserId();
+  
+  const portfoliosRef = collection(db, PORTFOLIOS_COLLECTION);
+  const snapshot = await getDocs(query(portfoliosRef, where('userId', '==', userId)));
+  
+  const portfolios: Portfolio[] = [];
+  snapshot.forEach((docSnap) => {
+    const data = docSnap.data() as FirestorePortfolioDoc;
+    portfolios.push({
+      ...data,
+      id: docSnap.id,
+      archived: !!data.archived,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null,
+    });
   });
   
-  await batch.commit();
+  if (portfolios.length === 0) {
+    const portfolio = await createPortfolio(DEFAULT_PORTFOLIO_NAME);
+    await assignUnscopedDocs(portfolio.id);
+    return [portfolio];
+  }
+  
+  portfolios.sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  return portfolios;
+}
+
+/**
+ * Create a portfolio
+ */
+export async function createPortfolio(name: string): Promise<Portfolio> {
+  const userId = getCurrentUserId();
+  const docRef = doc(collection(db, PORTFOLIOS_COLLECTION));
+  
+  await setDoc(docRef, {
+    id: docRef.id,
+    userId,
+    name,
+    archived: false,
+    createdAt: serverTimestamp(),
+  });
+  
+  return { id: docRef.id, userId, name, archived: false, createdAt: new Date() };
+}
+
+/**
+ * Rename a portfolio
+ */
+export async function renamePortfolio(portfolioId: string, name: string): Promise<void> {
+  getCurrentUserId(); // Verify user is authenticated
+  await updateDoc(doc(db, PORTFOLIOS_COLLECTION, portfolioId), { name });
+}
+
+/**
+ * Archive or restore a portfolio
+ */
+export async function setPortfolioArchived(portfolioId: string, archived: boolean): Promise<void> {
+  getCurrentUserId(); // Verify user is authenticated
+  await updateDoc(doc(db, PORTFOLIOS_COLLECTION, portfolioId), { archived });
+}
+
+/**
+ * Delete a portfolio with all of its trades, cash events and corporate actions
+ */
+export async function deletePortfolio(portfolioId: string): Promise<void> {
+  const docs = await Promise.all([
+    getPortfolioDocs(TRADES_COLLECTION, [portfolioId]),
+    getPortfolioDocs(CASH_EVENTS_COLLECTION, [portfolioId]),
+    getPortfolioDocs(CORPORATE_ACTIONS_COLLECTION, [portfolioId]),
+  ]);
+  
+  await deleteDocsInBatches(docs.flat().map(docSnap => docSnap.ref));
+  await deleteDoc(doc(db, PORTFOLIOS_COLLECTION, portfolioId));
 }
@@ -0,0 +1,127 @@
+/**
+ * FX Rate Service
+ * Fetches historical and live exchange rates for Yahoo-style currency pairs
+ * (e.g. EURUSD=X) from the market data provider chain and builds converters
+ * into a base currency
+ */
+
+import type { FxConverter } from '@/types/portfolio';
+import { normalizeCurrency } from '@/lib/currency';
+import { fetchHistory } from '@/services/marketData';
+
+// Configuration
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes for live rates
+const DEFAULT_HISTORY_DAYS = 365 * 5;
+
+export const SUPPORTED_BASE_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY', 'SEK', 'NOK', 'DKK', 'PLN',
+];
+
+interface FxSeries {
+  live: number;
+  points: { time: number; rate: number }[]; // Sorted ascending, time in ms
+  from: number;
+  fetchedAt: number;
+}
+
+const seriesCache = new Map<string, FxSeries>();
+
+/**
+ * Converter that ignores exchange rates (minor units are still scaled)
+ */
+export function createIdentityConverter(baseCurrency = 'USD'): FxConverter {
+  return {
+    baseCurrency,
+    rate: (currency: string) => 1 / normalizeCurrency(currency).divisor,
+  };
+}
+
+/**
+ * Fetch daily closes for a currency pair since a given time
+ */
+async function fetchPairSeries(from: string, to: string, since: number): Promise<FxSeries | null> {
+  const pair = `${from}${to}=X`;
+  const series = await fetchHistory(pair, { interval: '1d', from: since });
+
+  const points = (series?.points || []).map(p => ({ time: p.time, rate: p.close }));
+  const live = series?.price ?? points[points.length - 1]?.rate;
+  if (!live) {
+    console.warn(`No FX data for ${pair}`);
+    return null;
+  }
+
+  return { live, points, from: since, fetchedAt: Date.now() };
+}
+
+/**
+ * Find the close on or before a date (binary search)
+ */
+function rateOnOrBefore(series: FxSeries, date: string): number | null {
+  const target = new Date(date).getTime();
+  const { points } = series;
+  if (points.length === 0 || isNaN(target) || target < points[0].time) return null;
+
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (points[mid].time <= target) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return points[lo].rate;
+}
+
+/**
+ * Load rates for all currencies and return a converter into the base currency.
+ * Currencies without data convert at 1 (same as the base currency).
+ */
+export async function loadFxConverter(
+  currencies: string[],
+  baseCurrency: string,
+  since?: string
+): Promise<FxConverter> {
+  const sinceTime = since
+    ? new Date(since).getTime()
+    : Date.now() - DEFAULT_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+  const majors = [...new Set(currencies.map(c => normalizeCurrency(c).currency))]
+    .filter(c => c && c !== baseCurrency);
+
+  const seriesByCurrency = new Map<string, FxSeries>();
+
+  await Promise.all(majors.map(async (currency) => {
+    const cacheKey = `${currency}${baseCurrency}`;
+    const cached = seriesCache.get(cacheKey);
+
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL && cached.from <= sinceTime) {
+      seriesByCurrency.set(currency, cached);
+      return;
+    }
+
+    const series = await fetchPairSeries(currency, baseCurrency, sinceTime);
+    if (series) {
+      seriesCache.set(cacheKey, series);
+      seriesByCurrency.set(currency, series);
+    } else if (cached) {
+      // Use stale rates rather than none
+      seriesByCurrency.set(currency, cached);
+    }
+  }));
+
+  return {
+    baseCurrency,
+    rate: (currency: string, date?: string) => {
+      const { currency: major, divisor } = normalizeCurrency(currency);
+      if (major === baseCurrency) return 1 / divisor;
+
+      const series = seriesByCurrency.get(major);
+      if (!series) return 1 / divisor;
+
+      const rate = date ? rateOnOrBefore(series, date) ?? series.live : series.live;
+      return rate / divisor;
+    },
+  };
+}
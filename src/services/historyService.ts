@@ -0,0 +1,114 @@
+/**
+ * Price History Service
+ * Fetches historical closes from the market data provider chain
+ * STOCKS ONLY - no crypto
+ */
+
+import type { ChartRange, PriceHistory } from '@/types/portfolio';
+import { resolveStockTicker } from '@/services/priceService';
+import { fetchHistory, type HistoryInterval, type HistoryRange } from '@/services/marketData';
+
+// Configuration
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes, same as the yahoo-price endpoint's s-maxage
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+interface RangeConfig {
+  range: HistoryRange;
+  interval: HistoryInterval;
+}
+
+const RANGE_CONFIG: Record<Exclude<ChartRange, 'All'>, RangeConfig> = {
+  '1D': { range: '1d', interval: '5m' },
+  '5D': { range: '5d', interval: '15m' },
+  '1M': { range: '1mo', interval: '1d' },
+  '3M': { range: '3mo', interval: '1d' },
+  '6M': { range: '6mo', interval: '1d' },
+  'YTD': { range: 'ytd', interval: '1d' },
+  '1Y': { range: '1y', interval: '1d' },
+  '5Y': { range: '5y', interval: '1wk' },
+};
+
+// Smallest Yahoo range covering the first trade, used for 'All'
+const ALL_RANGES: { days: number; config: RangeConfig }[] = [
+  { days: 30, config: { range: '1mo', interval: '1d' } },
+  { days: 91, config: { range: '3mo', interval: '1d' } },
+  { days: 182, config: { range: '6mo', interval: '1d' } },
+  { days: 365, config: { range: '1y', interval: '1d' } },
+  { days: 730, config: { range: '2y', interval: '1d' } },
+  { days: 1826, config: { range: '5y', interval: '1wk' } },
+  { days: 3652, config: { range: '10y', interval: '1wk' } },
+];
+
+interface CacheEntry {
+  history: PriceHistory;
+  fetchedAt: number;
+}
+
+const historyCache = new Map<string, CacheEntry>();
+
+/**
+ * Yahoo range and interval for a chart range.
+ * 'All' picks the smallest range that reaches back to `since`.
+ */
+export function getRangeConfig(range: ChartRange, since?: string): RangeConfig {
+  if (range !== 'All') return RANGE_CONFIG[range];
+
+  const days = since ? (Date.now() - new Date(since).getTime()) / MS_PER_DAY : Infinity;
+  const match = ALL_RANGES.find(r => days < r.days);
+  return match ? match.config : { range: 'max', interval: '1mo' };
+}
+
+/**
+ * Fetch historical closes for one ticker
+ */
+async function fetchPriceHistory(ticker: string, config: RangeConfig): Promise<PriceHistory | null> {
+  const symbol = resolveStockTicker(ticker);
+  const series = await fetchHistory(symbol, config);
+  if (!series) {
+    console.warn(`No price history for ${symbol}`);
+    return null;
+  }
+
+  return {
+    ticker,
+    currency: series.currency,
+    previousClose: series.previousClose,
+    points: series.points,
+  };
+}
+
+/**
+ * Load price histories for the given tickers, keyed by ticker.
+ * Results are cached for a few minutes; pass force to bypass the cache.
+ * Tickers without data are left out.
+ */
+export async function loadPriceHistories(
+  tickers: string[],
+  range: ChartRange,
+  since?: string,
+  force = false
+): Promise<Map<string, PriceHistory>> {
+  const config = getRangeConfig(range, since);
+  const histories = new Map<string, PriceHistory>();
+
+  await Promise.all(tickers.map(async (ticker) => {
+    const cacheKey = `${ticker}|${config.range}|${config.interval}`;
+    const cached = historyCache.get(cacheKey);
+
+    if (!force && cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+      histories.set(ticker, cached.history);
+      return;
+    }
+
+    const history = await fetchPriceHistory(ticker, config);
+    if (history) {
+      historyCache.set(cacheKey, { history, fetchedAt: Date.now() });
+      histories.set(ticker, history);
+    } else if (cached) {
+      // Use stale closes rather than none
+      histories.set(ticker, cached.history);
+    }
+  }));
+
+  return histories;
+}
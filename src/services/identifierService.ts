@@ -0,0 +1,125 @@
+/**
+ * Identifier Resolution Service
+ * Maps ISIN, CUSIP and FIGI codes from broker exports to Yahoo symbols,
+ * using a local mapping table first and Yahoo search as a fallback
+ */
+
+import { normalizeCurrency } from '@/lib/currency';
+import { getListingCurrency } from '@/lib/symbols';
+import { searchSymbols, type SymbolSearchResult } from '@/services/yahooService';
+
+const STORAGE_KEY = 'identifier-map';
+
+export type IdentifierType = 'ISIN' | 'CUSIP' | 'FIGI';
+
+/**
+ * A security from an import file that has no ticker, only an identifier
+ */
+export interface UnresolvedSecurity {
+  identifier: string;
+  name: string;
+  currency: string;             // Trade currency, used to pick between listings
+}
+
+export interface IdentifierMatch extends UnresolvedSecurity {
+  type: IdentifierType;
+  candidates: SymbolSearchResult[];
+  symbol: string | null;        // null when the user has to pick a listing
+}
+
+/**
+ * Detect whether a value is an ISIN, CUSIP or FIGI
+ */
+export function detectIdentifierType(value: string): IdentifierType | null {
+  const code = value.trim().toUpperCase();
+  if (/^BBG[0-9A-Z]{9}$/.test(code)) return 'FIGI';
+  if (/^[A-Z]{2}[0-9A-Z]{9}\d$/.test(code)) return 'ISIN';
+  if (/^\d{3}[0-9A-Z]{5}\d$/.test(code)) return 'CUSIP';
+  return null;
+}
+
+function loadIdentifierMap(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.warn('Could not read identifier map:', error);
+  }
+  return {};
+}
+
+function saveIdentifierMap(map: Record<string, string>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(map));
+  } catch (error) {
+    console.warn('Could not save identifier map:', error);
+  }
+}
+
+/**
+ * Remember the symbol for an identifier (e.g. after the user confirmed it)
+ */
+export function saveIdentifierMappings(symbols: Map<string, string>) {
+  if (symbols.size === 0) return;
+  const map = loadIdentifierMap();
+  for (const [identifier, symbol] of symbols) {
+    map[identifier.toUpperCase()] = symbol;
+  }
+  saveIdentifierMap(map);
+}
+
+/**
+ * Add identifier → ticker pairs from trades that have both. Existing entries win.
+ */
+export function seedIdentifierMap(trades: { isin: string; ticker: string }[]) {
+  const map = loadIdentifierMap();
+  let changed = false;
+
+  for (const trade of trades) {
+    const identifier = trade.isin.trim().toUpperCase();
+    if (!identifier || trade.ticker === identifier || map[identifier]) continue;
+    if (!detectIdentifierType(identifier) || detectIdentifierType(trade.ticker)) continue;
+    map[identifier] = trade.ticker;
+    changed = true;
+  }
+
+  if (changed) saveIdentifierMap(map);
+}
+
+/**
+ * Pick the listing traded in the given currency, if exactly one is
+ */
+function pickByCurrency(candidates: SymbolSearchResult[], currency: string): SymbolSearchResult | null {
+  const target = normalizeCurrency(currency).currency;
+  const matching = candidates.filter(c => normalizeCurrency(getListingCurrency(c.symbol)).currency === target);
+  return matching.length === 1 ? matching[0] : null;
+}
+
+/**
+ * Resolve identifiers to Yahoo symbols. Known identifiers come from the
+ * mapping table; the rest are searched on Yahoo. A single search result,
+ * or the only listing in the trade currency, is accepted automatically and
+ * saved to the table; anything else is left for the user to confirm.
+ */
+export async function resolveIdentifiers(securities: UnresolvedSecurity[]): Promise<IdentifierMatch[]> {
+  const map = loadIdentifierMap();
+  const resolved = new Map<string, string>();
+
+  const matches = await Promise.all(securities.map(async (security): Promise<IdentifierMatch> => {
+    const identifier = security.identifier.toUpperCase();
+    const type = detectIdentifierType(identifier) || 'ISIN';
+
+    if (map[identifier]) {
+      return { ...security, identifier, type, candidates: [], symbol: map[identifier] };
+    }
+
+    const candidates = await searchSymbols(identifier);
+    const picked = candidates.length === 1 ? candidates[0] : pickByCurrency(candidates, security.currency);
+    if (picked) resolved.set(identifier, picked.symbol);
+
+    return { ...security, identifier, type, candidates, symbol: picked?.symbol || null };
+  }));
+
+  saveIdentifierMappings(resolved);
+  return matches;
+}
@@ -0,0 +1,111 @@
+/**
+ * Import File Service
+ * Reads and parses broker exports in a Web Worker, so multi-year statements
+ * don't block the page. The file is streamed through the CSV tokenizer in
+ * chunks and progress is reported as it is read.
+ */
+
+import { createCsvStreamParser } from '@/lib/csv';
+import type { TradeSource } from '@/types/portfolio';
+import type { ParseOptions, ParseResult } from '@/services/importService';
+import { detectBroker, getBrokerAdapter, GENERIC_ADAPTER, type BrokerAdapter } from '@/services/brokers';
+
+// Bytes read before the header and sample rows are shown for column mapping
+const INSPECT_BYTES = 64 * 1024;
+
+export interface ImportFileRequest {
+  file: File;
+  source?: TradeSource;         // Adapter to use; detected from the headers when omitted
+  options?: ParseOptions;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; source: TradeSource; result: ParseResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Read a file as rows of trimmed cells, chunk by chunk. `onProgress` gets the
+ * fraction of the file read so far (0-1).
+ */
+export async function readCSVFile(file: File, onProgress?: (progress: number) => void): Promise<string[][]> {
+  const rows: string[][] = [];
+  const parser = createCsvStreamParser(row => rows.push(row.map(cell => cell.trim())));
+  const decoder = new TextDecoder();
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.write(decoder.decode(value, { stream: true }));
+    onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+  }
+
+  parser.write(decoder.decode());
+  parser.end();
+  return rows;
+}
+
+/**
+ * Read and parse a file with the requested (or detected) broker adapter.
+ * Runs inside the worker, or on the page where workers aren't available.
+ */
+export async function parseFile(
+  request: ImportFileRequest,
+  onProgress?: (progress: number) => void
+): Promise<{ source: TradeSource; result: ParseResult }> {
+  const rows = await readCSVFile(request.file, onProgress);
+  const adapter = request.source
+    ? getBrokerAdapter(request.source) || GENERIC_ADAPTER
+    : detectBroker(rows);
+  return { source: adapter.id, result: adapter.parse(rows, request.options) };
+}
+
+/**
+ * Parse an import file off the main thread. Resolves with the adapter that
+ * read the file and its result.
+ */
+export function parseImportFile(
+  request: ImportFileRequest,
+  onProgress?: (progress: number) => void
+): Promise<{ broker: BrokerAdapter; result: ParseResult }> {
+  const toBroker = (source: TradeSource) => getBrokerAdapter(source) || GENERIC_ADAPTER;
+
+  if (typeof Worker === 'undefined') {
+    return parseFile(request, onProgress).then(({ source, result }) => ({ broker: toBroker(source), result }));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve({ broker: toBroker(message.source), result: message.result });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * The start of a file as text, enough for the header and a few sample rows
+ */
+export function readFileHead(file: File): Promise<string> {
+  return file.slice(0, INSPECT_BYTES).text();
+}
@@ -1,15 +1,43 @@
 /**
  * CSV Import Service for Stock Portfolio
  * 
- * Parses Trading212 and IBKR CSV exports and maps to Firestore schema.
+ * Parses Trading212 and generic CSV exports and maps to Firestore schema
+ * (other brokers have their own adapters in services/brokers).
  * Features:
  * - Flexible column detection via aliases
- * - Skip Deposit/Dividend/etc rows
- * - Duplicate detection via brokerTransactionId
+ * - Dividend, withholding tax and interest rows parsed as cash events
+ * - Trade fee and tax columns summed onto each trade; standalone fee rows kept as FEE events
+ * - Stock split open/close row pairs parsed as SPLIT corporate actions
+ * - Skip Deposit/Transfer/etc rows
+ * - Date order, decimal separator and time zone detected per file (or given as options)
+ * - Duplicate detection via brokerTransactionId (a content hash when the file has no ID column)
+ * - Likely duplicates of trades entered elsewhere found by ticker, size, price and time
+ * - Broker positions snapshots parsed for reconciliation
  * - Maps to exact Firestore schema
  */
 
-import { Trade, TradeAction, TradeSource } from '@/types/portfolio';
+import {
+  Trade,
+  TradeAction,
+  TradeSource,
+  CashEvent,
+  CashEventType,
+  CorporateAction,
+  BrokerPosition,
+} from '@/types/portfolio';
+import { normalizeBrokerSymbol } from '@/lib/symbols';
+import { isBlankRow, parseCSVRows } from '@/lib/csv';
+import {
+  detectDateOrder,
+  detectDecimalSeparator,
+  hasAmbiguousDates,
+  parseDateTime,
+  parseLocaleNumber,
+  LOCAL_TIME_ZONE,
+  type DateOrder,
+  type DecimalSeparator,
+} from '@/lib/locale';
+import { detectIdentifierType, type UnresolvedSecurity } from '@/services/identifierService';
 
 // ==================== COLUMN ALIASES ====================
 
@@ -69,11 +97,26 @@ const COLUMN_ALIASES = {
     'settlement currency'
   ],
   
+  // Withholding tax on dividends (Trading212)
+  withholdingTax: [
+    'withholding tax', 'tax withheld', 'withholding'
+  ],
+  
+  // Currency for withholding tax
+  withholdingTaxCurrency: [
+    'currency (withholding tax)', 'withholding tax currency'
+  ],
+  
   // Exchange rate
   exchangeRate: [
     'exchange rate', 'fx rate', 'rate', 'conversion rate'
   ],
   
+  // Listing exchange (IBKR code or MIC)
+  exchange: [
+    'exchange', 'listing exch', 'listing exchange', 'market identifier'
+  ],
+  
   // Date/Time
   time: [
     'time', 'date', 'execution time', 'timestamp', 'trade date',
@@ -88,6 +131,17 @@ const COLUMN_ALIASES = {
   ],
 };
 
+// Trade costs may be spread over several columns (Trading212, IBKR), so these are summed
+const FEE_COLUMN_ALIASES = [
+  'currency conversion fee', 'transaction fee', 'finra fee', 'sec fee',
+  'comm/fee', 'commission', 'fees', 'fee'
+];
+
+const TAX_COLUMN_ALIASES = [
+  'french transaction tax', 'stamp duty reserve tax', 'stamp duty',
+  'financial transaction tax', 'transaction tax', 'ptm levy'
+];
+
 // ==================== ACTION RECOGNITION ====================
 
 const BUY_ACTIONS = [
@@ -100,13 +154,22 @@ const SELL_ACTIONS = [
   'sale', 'close', 'reduce', 'dispose'
 ];
 
+// Checked before IGNORED_ACTIONS so these rows reach the income ledger
+const CASH_EVENT_ACTIONS: Record<CashEventType, string[]> = {
+  WITHHOLDING_TAX: ['withholding tax', 'tax withheld', 'withholding'],
+  DIVIDEND: ['dividend', 'dividends', 'distribution'],
+  INTEREST: ['interest', 'lending interest', 'interest payment', 'interest on cash'],
+  FEE: ['fee', 'fees', 'commission', 'stamp duty'],
+};
+
+// Trading212 reports a split as a "close" row for the old shares and an "open" row for the new ones
+const SPLIT_ACTIONS = ['stock split', 'split open', 'split close'];
+
 const IGNORED_ACTIONS = [
   'deposit', 'withdrawal', 'withdraw',
-  'dividend', 'dividends', 'div', 'distribution',
-  'interest', 'lending interest', 'interest payment',
   'fx', 'fx conversion', 'currency conversion', 'forex',
   'fee', 'fees', 'commission', 'service fee',
-  'tax', 'taxes', 'withholding tax', 'tax withheld',
+  'tax', 'taxes',
   'transfer', 'internal transfer', 'account transfer',
   'split', 'stock split', 'reverse split',
   'merger', 'spinoff', 'spin-off', 'corporate action',
@@ -128,6 +191,22 @@ function isIgnoredAction(action: string): boolean {
   );
 }
 
+function getCashEventType(action: string): CashEventType | null {
+  const normalized = normalize(action);
+  
+  for (const [type, actions] of Object.entries(CASH_EVENT_ACTIONS)) {
+    if (actions.some(a => normalized.includes(a))) {
+      return type as CashEventType;
+    }
+  }
+  return null;
+}
+
+function isSplitAction(action: string): boolean {
+  const normalized = normalize(action);
+  return SPLIT_ACTIONS.some(split => normalized.includes(split));
+}
+
 function getTradeAction(action: string): TradeAction | null {
   const normalized = normalize(action);
   
@@ -142,22 +221,29 @@ function getTradeAction(action: string): TradeAction | null {
 
 // ==================== COLUMN DETECTION ====================
 
-interface ColumnMap {
-  action: number | null;
-  ticker: number | null;
-  name: number | null;
-  isin: number | null;
-  shares: number | null;
-  pricePerShare: number | null;
-  priceCurrency: number | null;
-  total: number | null;
-  totalCurrency: number | null;
-  exchangeRate: number | null;
-  time: number | null;
-  id: number | null;
-}
-
-function detectColumns(headers: string[]): ColumnMap {
+// A fee or tax amount column and its currency column
+interface CostColumn {
+  amount: number;
+  currency: number | null;
+}
+
+export type ColumnField = keyof typeof COLUMN_ALIASES;
+
+/**
+ * Header index for each field (null when the file has no such column)
+ */
+export type ColumnMapping = Record<ColumnField, number | null>;
+
+interface ColumnMap extends ColumnMapping {
+  fees: CostColumn[];
+  taxes: CostColumn[];
+}
+
+/**
+ * Match headers to fields by alias. Fields in `mapping` (chosen by the user)
+ * replace the guesses and are never read as fee or tax columns.
+ */
+function detectColumns(headers: string[], mapping: Partial<ColumnMapping> = {}): ColumnMap {
   const columnMap: ColumnMap = {
     action: null,
     ticker: null,
@@ -168,9 +254,14 @@ function detectColumns(headers: string[]): ColumnMap {
     priceCurrency: null,
     total: null,
     totalCurrency: null,
+    withholdingTax: null,
+    withholdingTaxCurrency: null,
     exchangeRate: null,
+    exchange: null,
     time: null,
     id: null,
+    fees: [],
+    taxes: [],
   };
 
   const normalizedHeaders = headers.map(h => normalize(h));
@@ -181,123 +272,430 @@ function detectColumns(headers: string[]): ColumnMap {
       
       if (Object.values(columnMap).includes(i)) continue;
       
+      const key = field as ColumnField;
       if (aliases.includes(header)) {
-        columnMap[field as keyof ColumnMap] = i;
+        columnMap[key] = i;
         break;
       }
       
       const partialMatch = aliases.find(alias => 
         header.includes(alias) || alias.includes(header)
       );
-      if (partialMatch && columnMap[field as keyof ColumnMap] === null) {
-        columnMap[field as keyof ColumnMap] = i;
+      if (partialMatch && columnMap[key] === null) {
+        columnMap[key] = i;
       }
     }
   }
 
+  Object.assign(columnMap, mapping);
+
+  // Every remaining fee/tax column, with its "Currency (<column>)" column if there is one
+  for (let i = 0; i < normalizedHeaders.length; i++) {
+    const header = normalizedHeaders[i];
+    if (Object.values(columnMap).includes(i) || header.startsWith('currency (')) continue;
+    
+    const isTax = TAX_COLUMN_ALIASES.some(alias => header.includes(alias));
+    const isFee = !isTax && FEE_COLUMN_ALIASES.some(alias => header.includes(alias));
+    if (!isTax && !isFee) continue;
+    
+    const currency = normalizedHeaders.indexOf(`currency (${header})`);
+    (isTax ? columnMap.taxes : columnMap.fees).push({ amount: i, currency: currency >= 0 ? currency : null });
+  }
+
   return columnMap;
 }
 
 // ==================== VALUE PARSING ====================
 
-function parseNumber(value: string | undefined): number | null {
-  if (!value || value.trim() === '' || value.trim() === '-') return null;
+/**
+ * Parse a number. Without a separator (known for the whole file), it is guessed from the value itself.
+ */
+export function parseNumber(value: string | undefined, decimal?: DecimalSeparator): number | null {
+  return parseLocaleNumber(value, decimal ?? detectDecimalSeparator(value ? [value] : []));
+}
+
+export function parseCSVLine(line: string): string[] {
+  return readCSVRows(line)[0] ?? [''];
+}
+
+/**
+ * Tokenize a CSV text into rows of trimmed cells. Quoted cells may span lines.
+ */
+export function readCSVRows(csvContent: string): string[][] {
+  return parseCSVRows(csvContent).map(row => row.map(cell => cell.trim()));
+}
+
+/**
+ * How dates and numbers are written in one file
+ */
+interface RowFormat {
+  dateOrder: DateOrder;
+  decimal: DecimalSeparator;
+  timeZone: string;
+}
+
+export interface ParseOptions {
+  mapping?: Partial<ColumnMapping>;   // User-chosen columns, replacing detected ones
+  timeZone?: string;                  // For times without a UTC offset (default: this device)
+  dateOrder?: DateOrder;              // Default: detected from the file
+  decimalSeparator?: DecimalSeparator; // Default: detected from the file
+}
+
+/**
+ * Date order and decimal separator from all values in the file's date and number columns
+ */
+function detectRowFormat(rows: string[][], columns: ColumnMap, options: ParseOptions): RowFormat {
+  const numberColumns = [columns.shares, columns.pricePerShare, columns.total, columns.exchangeRate];
   
-  let cleaned = value
-    .replace(/[$€£¥₹₿]/g, '')
-    .replace(/\s/g, '')
-    .trim();
+  return {
+    dateOrder: options.dateOrder ?? detectDateOrder(
+      rows.map(values => getCell(values, columns.time) || ''),
+      'DMY'
+    ),
+    decimal: options.decimalSeparator ?? detectDecimalSeparator(
+      rows.flatMap(values => numberColumns.map(column => getCell(values, column) || ''))
+    ),
+    timeZone: options.timeZone || LOCAL_TIME_ZONE,
+  };
+}
+
+/**
+ * 53-bit string hash (cyrb53), the same in every browser and session
+ */
+function hashContent(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * The file's own transaction ID, or a hash of the normalized row fields.
+ * The source is left out, so a file gets the same IDs whether it is read by
+ * a broker adapter or the generic parser, and on every re-import.
+ * Trades hash [ticker, timestamp, action, shares, price]; cash events
+ * [ticker, timestamp, type, amount].
+ */
+export function buildTransactionId(value: string | undefined, content: (string | number)[]): string {
+  return value?.trim()
+    ? value.trim()
+    : `tx_${hashContent(content.join('|'))}`;
+}
+
+/**
+ * Number repeated IDs within one file (e.g. two identical fills in the same
+ * second), so each row is kept and the numbering is the same on every import
+ */
+export function numberRepeatedIds<T extends { brokerTransactionId: string }>(rows: T[]): T[] {
+  const counts = new Map<string, number>();
+  return rows.map(row => {
+    const count = (counts.get(row.brokerTransactionId) || 0) + 1;
+    counts.set(row.brokerTransactionId, count);
+    return count > 1 ? { ...row, brokerTransactionId: `${row.brokerTransactionId}_${count}` } : row;
+  });
+}
+
+function getCell(values: string[], column: number | null): string | undefined {
+  return column !== null ? values[column] : undefined;
+}
+
+/**
+ * Sum of a row's fee or tax columns, in the currency of the first non-zero one
+ */
+function sumCostColumns(
+  values: string[],
+  costColumns: CostColumn[],
+  decimal: DecimalSeparator
+): { amount: number; currency: string } | null {
+  let amount = 0;
+  let currency = '';
   
-  const hasCommaDecimal = /\d,\d{1,2}$/.test(cleaned);
-  if (hasCommaDecimal) {
-    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
-  } else {
-    cleaned = cleaned.replace(/,/g, '');
+  for (const column of costColumns) {
+    const value = Math.abs(parseNumber(getCell(values, column.amount), decimal) || 0);
+    if (value === 0) continue;
+    amount += value;
+    currency = currency || getCell(values, column.currency)?.trim().toUpperCase() || '';
   }
   
-  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
-    cleaned = '-' + cleaned.slice(1, -1);
+  return amount > 0 ? { amount, currency } : null;
+}
+
+/**
+ * Yahoo symbol for the row's ticker, using its exchange, currency and ISIN
+ */
+function getRowTicker(values: string[], columns: ColumnMap): string {
+  const ticker = getCell(values, columns.ticker)?.trim() || '';
+  
+  // Identifiers in the ticker column are resolved later (see getUnresolvedSecurities)
+  if (detectIdentifierType(ticker)) return ticker.toUpperCase();
+  
+  return normalizeBrokerSymbol(ticker, {
+    exchange: getCell(values, columns.exchange),
+    currency: getCell(values, columns.priceCurrency),
+    isin: getCell(values, columns.isin),
+  });
+}
+
+export type ParsedTrade = Omit<Trade, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
+
+export type ParsedCashEvent = Omit<CashEvent, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
+
+/**
+ * Map a dividend/withholding tax/interest row to a cash event
+ */
+function parseCashEventRow(
+  values: string[],
+  columns: ColumnMap,
+  type: CashEventType,
+  source: TradeSource,
+  timestamp: string,
+  decimal: DecimalSeparator
+): ParsedCashEvent | null {
+  const ticker = getRowTicker(values, columns);
+  const isin = getCell(values, columns.isin)?.trim().toUpperCase() || '';
+  const name = getCell(values, columns.name)?.trim() || ticker || isin;
+  
+  // Dividends and withholding tax must belong to a security
+  if ((type === 'DIVIDEND' || type === 'WITHHOLDING_TAX') && !ticker && !isin) return null;
+  
+  let amount = parseNumber(getCell(values, columns.total), decimal);
+  if (amount === null) {
+    const shares = parseNumber(getCell(values, columns.shares), decimal);
+    const price = parseNumber(getCell(values, columns.pricePerShare), decimal);
+    if (shares !== null && price !== null) {
+      amount = shares * price;
+    }
   }
+  if (amount === null || amount === 0) return null;
   
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? null : num;
+  const currency = (
+    getCell(values, columns.totalCurrency)?.trim() ||
+    getCell(values, columns.priceCurrency)?.trim() ||
+    'USD'
+  ).toUpperCase();
+  
+  const withholdingTax = type === 'DIVIDEND'
+    ? Math.abs(parseNumber(getCell(values, columns.withholdingTax), decimal) || 0)
+    : 0;
+  const withholdingTaxCurrency = getCell(values, columns.withholdingTaxCurrency)?.trim().toUpperCase() || currency;
+  
+  return {
+    brokerTransactionId: buildTransactionId(
+      getCell(values, columns.id),
+      [ticker || isin, timestamp, type, Math.abs(amount)]
+    ),
+    type,
+    timestamp,
+    isin,
+    ticker: ticker || isin,
+    name,
+    amount: Math.abs(amount),
+    currency,
+    withholdingTax,
+    withholdingTaxCurrency,
+    source,
+  };
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+export type ParsedCorporateAction = Omit<CorporateAction, 'id' | 'userId' | 'portfolioId' | 'createdAt'>;
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
+interface SplitLeg {
+  ticker: string;
+  isin: string;
+  timestamp: string;
+  shares: number;
+  opening: boolean;
+}
 
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
+/**
+ * Map one side of a stock split (old shares closed or new shares opened)
+ */
+function parseSplitLeg(
+  values: string[],
+  columns: ColumnMap,
+  action: string,
+  timestamp: string,
+  decimal: DecimalSeparator
+): SplitLeg | null {
+  const normalized = normalize(action);
+  const opening = normalized.includes('open');
+  if (!opening && !normalized.includes('close')) return null;
+  
+  const ticker = getRowTicker(values, columns);
+  const isin = getCell(values, columns.isin)?.trim().toUpperCase() || '';
+  const shares = Math.abs(parseNumber(getCell(values, columns.shares), decimal) || 0);
+  if ((!ticker && !isin) || shares === 0) return null;
+  
+  return { ticker: ticker || isin, isin, timestamp, shares, opening };
+}
+
+/**
+ * Pair close/open split legs for the same security and day into SPLIT actions
+ */
+function pairSplitLegs(legs: SplitLeg[], source: TradeSource): ParsedCorporateAction[] {
+  const actions: ParsedCorporateAction[] = [];
+  const byKey = new Map<string, { close?: SplitLeg; open?: SplitLeg }>();
+  
+  for (const leg of legs) {
+    const key = `${leg.ticker}|${leg.timestamp.substring(0, 10)}`;
+    const pair = byKey.get(key) || {};
+    if (leg.opening) {
+      pair.open = leg;
     } else {
-      current += char;
+      pair.close = leg;
     }
+    byKey.set(key, pair);
   }
-  result.push(current.trim());
-
-  return result;
+  
+  for (const { close, open } of byKey.values()) {
+    if (!close || !open) continue;
+    
+    actions.push({
+      brokerTransactionId: `${source}_split_${close.ticker}_${close.timestamp.substring(0, 10)}`,
+      type: 'SPLIT',
+      effectiveDate: close.timestamp < open.timestamp ? close.timestamp : open.timestamp,
+      ticker: close.ticker,
+      ratio: open.shares / close.shares,
+      source,
+    });
+  }
+  
+  return actions;
 }
 
 // ==================== MAIN PARSER ====================
 
+/**
+ * A data row that could not be imported and why
+ */
+export interface RowError {
+  row: number;                  // Line number in the file
+  reason: string;
+  value?: string;               // The cell (or error message) that failed
+}
+
 export interface ImportDiagnostics {
   totalRows: number;
   tradesImported: number;
+  cashEventsImported: number;
+  corporateActionsImported: number;
   rowsSkipped: number;
   skipReasons: Record<string, number>;
+  rowErrors: RowError[];
   warnings: string[];
   totalInvested: number;
   uniqueTickers: string[];
 }
 
+/**
+ * A deposit (positive) or withdrawal (negative) listed in a statement
+ */
+export interface BrokerTransfer {
+  timestamp: string;
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+/**
+ * Account figures that a full statement reports besides transactions (IBKR)
+ */
+export interface BrokerStatement {
+  positions: BrokerPosition[];
+  transfers: BrokerTransfer[];
+}
+
 export interface ParseResult {
-  trades: Omit<Trade, 'id' | 'userId' | 'createdAt'>[];
+  trades: ParsedTrade[];
+  cashEvents: ParsedCashEvent[];
+  corporateActions: ParsedCorporateAction[];
   errors: string[];
   diagnostics: ImportDiagnostics;
+  statement?: BrokerStatement;
 }
 
 /**
- * Parse a CSV file and return trades matching Firestore schema
+ * Headers, the first data rows and the detected mapping, for reviewing columns before parsing
+ */
+export function inspectCSV(csvContent: string, sampleRows = 3): {
+  headers: string[];
+  samples: string[][];
+  columns: ColumnMapping;
+} {
+  const rows = readCSVRows(csvContent).filter(row => !isBlankRow(row));
+  const headers = rows[0] ?? [];
+  const { fees, taxes, ...columns } = detectColumns(headers);
+  
+  return {
+    headers,
+    samples: rows.slice(1, sampleRows + 1),
+    columns,
+  };
+}
+
+/**
+ * Parse a CSV file and return trades matching Firestore schema.
+ * Rows that can't be read are listed in `diagnostics.rowErrors`.
  */
 export function parseCSV(
   csvContent: string,
-  source: TradeSource = 'csv'
+  source: TradeSource = 'csv',
+  options: ParseOptions = {}
+): ParseResult {
+  return parseCSVTable(readCSVRows(csvContent), source, options);
+}
+
+/**
+ * Parse already tokenized CSV rows (header row first), e.g. from the import worker
+ */
+export function parseCSVTable(
+  table: string[][],
+  source: TradeSource = 'csv',
+  options: ParseOptions = {}
 ): ParseResult {
-  const trades: Omit<Trade, 'id' | 'userId' | 'createdAt'>[] = [];
+  const trades: ParsedTrade[] = [];
+  const cashEvents: ParsedCashEvent[] = [];
+  const corporateActions: ParsedCorporateAction[] = [];
+  const splitLegs: SplitLeg[] = [];
   const errors: string[] = [];
   const skipReasons: Record<string, number> = {};
+  const rowErrors: RowError[] = [];
   const warnings: string[] = [];
   
   const addSkipReason = (reason: string) => {
     skipReasons[reason] = (skipReasons[reason] || 0) + 1;
   };
+  
+  // Skipped because the row is broken, not because it's a deposit or similar
+  const rejectRow = (lineIndex: number, reason: string, value?: string) => {
+    addSkipReason(reason);
+    rowErrors.push({ row: lineIndex + 1, reason, ...(value ? { value } : {}) });
+  };
 
   try {
-    const lines = csvContent.split(/\r?\n/).filter(line => line.trim());
+    const rows = table.filter(row => !isBlankRow(row));
     
-    if (lines.length < 2) {
+    if (rows.length < 2) {
       errors.push('CSV file is empty or has no data rows');
       return {
         trades,
+        cashEvents,
+        corporateActions,
         errors,
         diagnostics: {
           totalRows: 0,
           tradesImported: 0,
+          cashEventsImported: 0,
+          corporateActionsImported: 0,
           rowsSkipped: 0,
           skipReasons,
+          rowErrors,
           warnings,
           totalInvested: 0,
           uniqueTickers: [],
@@ -305,8 +703,9 @@ export function parseCSV(
       };
     }
 
-    const headers = parseCSVLine(lines[0]);
-    const columns = detectColumns(headers);
+    const headers = rows[0];
+    const columns = detectColumns(headers, options.mapping);
+    const format = detectRowFormat(rows.slice(1), columns, options);
 
     console.log('=== CSV Import Debug ===');
     console.log('Headers:', headers);
@@ -319,12 +718,17 @@ export function parseCSV(
       errors.push('Could not detect ticker/symbol column. Headers: ' + headers.join(', '));
       return {
         trades,
+        cashEvents,
+        corporateActions,
         errors,
         diagnostics: {
-          totalRows: lines.length - 1,
+          totalRows: rows.length - 1,
           tradesImported: 0,
-          rowsSkipped: lines.length - 1,
+          cashEventsImported: 0,
+          corporateActionsImported: 0,
+          rowsSkipped: rows.length - 1,
           skipReasons,
+          rowErrors,
           warnings,
           totalInvested: 0,
           uniqueTickers: [],
@@ -335,23 +739,58 @@ export function parseCSV(
     if (!hasSharesColumn) {
       warnings.push('Could not detect shares/quantity column');
     }
+    
+    if (columns.time === null) {
+      warnings.push('Could not detect date column');
+    } else if (!options.dateOrder && hasAmbiguousDates(rows.slice(1).map(values => getCell(values, columns.time) || ''))) {
+      warnings.push(`Dates like 05/01 were read as ${format.dateOrder === 'DMY' ? 'day/month' : 'month/day'}`);
+    }
 
     let dataRowCount = 0;
 
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
+    for (let i = 1; i < rows.length; i++) {
       dataRowCount++;
 
       try {
-        const values = parseCSVLine(line);
+        const values = rows[i];
 
         // Get action
         const actionValue = columns.action !== null ? values[columns.action] : '';
         const action = actionValue?.trim() || '';
+        
+        // Get timestamp (checked once the row is known to be a trade or cash event)
+        const timeValue = getCell(values, columns.time)?.trim();
+        const timestamp = parseDateTime(timeValue, format.dateOrder, format.timeZone);
+        const isIgnored = action && !isSplitAction(action) && !getCashEventType(action) && isIgnoredAction(action);
+        if (!timestamp && !isIgnored) {
+          rejectRow(i, timeValue ? 'Invalid date' : 'Missing date', timeValue);
+          continue;
+        }
+
+        // Split legs are paired into corporate actions after all rows are read
+        if (action && isSplitAction(action)) {
+          const leg = parseSplitLeg(values, columns, action, timestamp!, format.decimal);
+          if (leg) {
+            splitLegs.push(leg);
+          } else {
+            rejectRow(i, `Invalid ${action.substring(0, 20)}`);
+          }
+          continue;
+        }
+
+        // Dividends, withholding tax, interest and fees go to the cash ledger
+        const cashEventType = action ? getCashEventType(action) : null;
+        if (cashEventType) {
+          const cashEvent = parseCashEventRow(values, columns, cashEventType, source, timestamp!, format.decimal);
+          if (cashEvent) {
+            cashEvents.push(cashEvent);
+          } else {
+            rejectRow(i, `Invalid ${action.substring(0, 20)}`);
+          }
+          continue;
+        }
 
-        // Skip ignored actions (Deposit, Dividend, etc.)
+        // Skip ignored actions (Deposit, Transfer, etc.)
         if (action && isIgnoredAction(action)) {
           addSkipReason(`Ignored: ${action.substring(0, 20)}`);
           continue;
@@ -363,28 +802,26 @@ export function parseCSV(
         if (action) {
           tradeAction = getTradeAction(action);
           if (!tradeAction) {
-            addSkipReason(`Unknown action: ${action.substring(0, 20)}`);
+            rejectRow(i, 'Unknown action', action);
             continue;
           }
         }
 
         // Infer from quantity sign if no action
         if (!tradeAction && columns.shares !== null) {
-          const qty = parseNumber(values[columns.shares]);
+          const qty = parseNumber(values[columns.shares], format.decimal);
           if (qty !== null) {
             tradeAction = qty < 0 ? 'SELL' : 'BUY';
           }
         }
 
         if (!tradeAction) {
-          addSkipReason('Could not determine BUY/SELL');
+          rejectRow(i, 'Could not determine BUY/SELL');
           continue;
         }
 
-        // Get ticker (priority: ticker > isin)
-        const ticker = columns.ticker !== null 
-          ? values[columns.ticker]?.trim().toUpperCase() 
-          : '';
+        // Get ticker (priority: ticker > isin), as a Yahoo symbol
+        const ticker = getRowTicker(values, columns);
         
         // Get name
         const name = columns.name !== null 
@@ -397,34 +834,34 @@ export function parseCSV(
           : '';
 
         if (!ticker && !isin) {
-          addSkipReason('Missing ticker/ISIN');
+          rejectRow(i, 'Missing ticker/ISIN');
           continue;
         }
 
         // Get shares (absolute value)
-        const rawShares = columns.shares !== null ? parseNumber(values[columns.shares]) : null;
+        const rawShares = columns.shares !== null ? parseNumber(values[columns.shares], format.decimal) : null;
         const shares = rawShares !== null ? Math.abs(rawShares) : 0;
 
         if (shares <= 0) {
-          addSkipReason('Invalid shares');
+          rejectRow(i, 'Invalid shares', getCell(values, columns.shares));
           continue;
         }
 
         // Get price per share
         let pricePerShare = columns.pricePerShare !== null 
-          ? parseNumber(values[columns.pricePerShare]) 
+          ? parseNumber(values[columns.pricePerShare], format.decimal) 
           : null;
         
         // Calculate from total if no direct price
         if ((pricePerShare === null || pricePerShare <= 0) && columns.total !== null) {
-          const total = parseNumber(values[columns.total]);
+          const total = parseNumber(values[columns.total], format.decimal);
           if (total !== null && shares > 0) {
             pricePerShare = Math.abs(total) / shares;
           }
         }
 
         if (pricePerShare === null || pricePerShare <= 0) {
-          addSkipReason('Invalid price');
+          rejectRow(i, 'Invalid price', getCell(values, columns.pricePerShare) ?? getCell(values, columns.total));
           continue;
         }
 
@@ -439,28 +876,29 @@ export function parseCSV(
 
         // Get total value
         const totalValue = columns.total !== null 
-          ? Math.abs(parseNumber(values[columns.total]) || (shares * pricePerShare))
+          ? Math.abs(parseNumber(values[columns.total], format.decimal) || (shares * pricePerShare))
           : shares * pricePerShare;
 
         // Get exchange rate
         const exchangeRate = columns.exchangeRate !== null 
-          ? parseNumber(values[columns.exchangeRate]) || 1
+          ? parseNumber(values[columns.exchangeRate], format.decimal) || 1
           : 1;
 
-        // Get timestamp
-        const timeValue = columns.time !== null ? values[columns.time] : undefined;
-        const timestamp = timeValue ? new Date(timeValue).toISOString() : new Date().toISOString();
-
         // Get broker transaction ID
-        const brokerTransactionId = columns.id !== null 
-          ? values[columns.id]?.trim() 
-          : `${source}_${Date.now()}_${i}_${Math.random().toString(36).substr(2, 9)}`;
+        const brokerTransactionId = buildTransactionId(
+          getCell(values, columns.id),
+          [ticker || isin, timestamp!, tradeAction, shares, pricePerShare]
+        );
+
+        // Get fees and taxes (currency defaults to the total currency)
+        const fees = sumCostColumns(values, columns.fees, format.decimal);
+        const taxes = sumCostColumns(values, columns.taxes, format.decimal);
 
         // Create trade matching Firestore schema
-        const trade: Omit<Trade, 'id' | 'userId' | 'createdAt'> = {
+        const trade: ParsedTrade = {
           brokerTransactionId,
           action: tradeAction,
-          timestamp,
+          timestamp: timestamp!,
           isin: isin || '',
           ticker: ticker || isin,
           name: name || ticker || isin,
@@ -470,17 +908,26 @@ export function parseCSV(
           totalValue,
           totalCurrency,
           exchangeRate,
+          ...(fees && { fees: fees.amount, feesCurrency: fees.currency || totalCurrency }),
+          ...(taxes && { taxes: taxes.amount, taxesCurrency: taxes.currency || totalCurrency }),
           source,
         };
 
         trades.push(trade);
       } catch (e) {
         errors.push(`Row ${i + 1}: Parse error`);
-        addSkipReason('Parse error');
+        rejectRow(i, 'Parse error', e instanceof Error ? e.message : undefined);
       }
     }
 
-    if (trades.length === 0 && dataRowCount > 0) {
+    corporateActions.push(...pairSplitLegs(splitLegs, source));
+    const unpairedSplitLegs = splitLegs.length - corporateActions.length * 2;
+    if (unpairedSplitLegs > 0) {
+      skipReasons['Unpaired stock split'] = unpairedSplitLegs;
+    }
+    const rowsSkipped = dataRowCount - trades.length - cashEvents.length - corporateActions.length * 2;
+
+    if (trades.length === 0 && cashEvents.length === 0 && dataRowCount > 0) {
       warnings.push(`0 trades detected from ${dataRowCount} rows. Check if the CSV format is supported.`);
     }
 
@@ -496,19 +943,26 @@ export function parseCSV(
     console.log('=== Import Summary ===');
     console.log(`Total rows: ${dataRowCount}`);
     console.log(`Trades imported: ${trades.length}`);
-    console.log(`Rows skipped: ${dataRowCount - trades.length}`);
+    console.log(`Cash events imported: ${cashEvents.length}`);
+    console.log(`Corporate actions imported: ${corporateActions.length}`);
+    console.log(`Rows skipped: ${rowsSkipped}`);
     console.log(`Unique tickers: ${uniqueTickers.join(', ')}`);
     console.log(`Total invested: $${totalInvested.toFixed(2)}`);
     console.log('Skip reasons:', skipReasons);
 
     return {
-      trades,
+      trades: numberRepeatedIds(trades),
+      cashEvents: numberRepeatedIds(cashEvents),
+      corporateActions,
       errors,
       diagnostics: {
         totalRows: dataRowCount,
         tradesImported: trades.length,
-        rowsSkipped: dataRowCount - trades.length,
+        cashEventsImported: cashEvents.length,
+        corporateActionsImported: corporateActions.length,
+        rowsSkipped,
         skipReasons,
+        rowErrors,
         warnings,
         totalInvested,
         uniqueTickers,
@@ -518,12 +972,17 @@ export function parseCSV(
     errors.push('Failed to parse CSV: ' + (e instanceof Error ? e.message : 'Unknown error'));
     return {
       trades,
+      cashEvents,
+      corporateActions,
       errors,
       diagnostics: {
         totalRows: 0,
         tradesImported: 0,
+        cashEventsImported: 0,
+        corporateActionsImported: 0,
         rowsSkipped: 0,
         skipReasons,
+        rowErrors,
         warnings,
         totalInvested: 0,
         uniqueTickers: [],
@@ -532,51 +991,213 @@ export function parseCSV(
   }
 }
 
+// ==================== POSITION SNAPSHOTS ====================
+
+// Columns of a broker's positions/holdings export. Fields are matched in this
+// order, so an earlier field claims a header before a later, looser alias can.
+const POSITION_COLUMN_ALIASES = {
+  ticker: ['ticker', 'symbol', 'ticker symbol', 'instrument code'],
+  isin: ['isin', 'security id', 'cusip'],
+  shares: ['quantity', 'shares', 'no. of shares', 'units', 'qty', 'position'],
+  averageCost: ['average price', 'avg price', 'average cost', 'avg cost', 'cost price', 'average buy price', 'price / share'],
+  costBasis: ['cost basis', 'total cost', 'book cost', 'book value', 'invested', 'cost'],
+  currency: ['currency', 'ccy', 'currency code'],
+  name: ['name', 'instrument', 'security', 'description', 'security name', 'company'],
+};
+
+type PositionField = keyof typeof POSITION_COLUMN_ALIASES;
+
+export interface PositionsParseResult {
+  positions: BrokerPosition[];
+  errors: string[];
+  rowErrors: RowError[];
+}
+
 /**
- * Parse IBKR CSV export (handles section headers)
+ * Parse a broker positions snapshot (one row per holding) for reconciliation.
+ * Rows of the same ticker (lots) are added up. The cost is read from a total
+ * cost column, or from an average price column times the shares.
  */
-export function parseIBKRCSV(csvContent: string): ParseResult {
-  const lines = csvContent.split(/\r?\n/);
-  let tradesSection = '';
-  let isTradesSection = false;
-  let foundTradesHeader = false;
-
-  for (const line of lines) {
-    if (line.startsWith('Trades,Header')) {
-      isTradesSection = true;
-      foundTradesHeader = true;
-      tradesSection = line.replace('Trades,Header,', '') + '\n';
-      continue;
+export function parsePositionsCSV(csvContent: string): PositionsParseResult {
+  const rows = readCSVRows(csvContent).filter(row => !isBlankRow(row));
+  const headers = (rows[0] ?? []).map(normalize);
+  const columns = {} as Record<PositionField, number | null>;
+  const used = new Set<number>();
+
+  for (const [field, aliases] of Object.entries(POSITION_COLUMN_ALIASES)) {
+    let index = headers.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+    if (index < 0) index = headers.findIndex((h, i) => !used.has(i) && aliases.some(alias => h.includes(alias)));
+    columns[field as PositionField] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+
+  if (columns.ticker === null && columns.isin === null) {
+    return { positions: [], errors: ['Could not find a ticker or ISIN column'], rowErrors: [] };
+  }
+  if (columns.shares === null) {
+    return { positions: [], errors: ['Could not find a quantity column'], rowErrors: [] };
+  }
+
+  const decimal = detectDecimalSeparator(rows.slice(1).flatMap(values => [
+    getCell(values, columns.shares) ?? '',
+    getCell(values, columns.averageCost) ?? '',
+    getCell(values, columns.costBasis) ?? '',
+  ]));
+  const byTicker = new Map<string, BrokerPosition>();
+  const rowErrors: RowError[] = [];
+
+  rows.slice(1).forEach((values, i) => {
+    const isin = (getCell(values, columns.isin) || '').toUpperCase();
+    const currency = (getCell(values, columns.currency) || '').toUpperCase();
+    const ticker = normalizeBrokerSymbol(getCell(values, columns.ticker) || '', { currency, isin }) || isin;
+    const shares = parseNumber(getCell(values, columns.shares), decimal);
+    if (!ticker) {
+      rowErrors.push({ row: i + 2, reason: 'Missing ticker/ISIN' });
+      return;
     }
-    
-    if (isTradesSection) {
-      if (line.startsWith('Trades,Data')) {
-        tradesSection += line.replace('Trades,Data,', '') + '\n';
-      } else if (line.startsWith('Trades,Total') || line.startsWith('Trades,SubTotal')) {
-        continue;
-      } else if (line.trim() === '' || line.startsWith(',')) {
-        break;
-      }
+    if (shares === null) {
+      rowErrors.push({ row: i + 2, reason: 'Invalid quantity', value: getCell(values, columns.shares) || '' });
+      return;
     }
-  }
 
-  if (foundTradesHeader && tradesSection) {
-    return parseCSV(tradesSection, 'csv');
+    const averageCost = parseNumber(getCell(values, columns.averageCost), decimal);
+    const total = parseNumber(getCell(values, columns.costBasis), decimal);
+    const costBasis = total ?? (averageCost !== null ? averageCost * shares : null);
+
+    const existing = byTicker.get(ticker);
+    if (existing) {
+      existing.shares += shares;
+      existing.costBasis = existing.costBasis !== null && costBasis !== null ? existing.costBasis + costBasis : null;
+      return;
+    }
+    byTicker.set(ticker, {
+      ticker,
+      isin,
+      name: getCell(values, columns.name) || ticker,
+      shares,
+      costBasis,
+      currency,
+    });
+  });
+
+  return { positions: [...byTicker.values()], errors: [], rowErrors };
+}
+
+/**
+ * Securities imported without a ticker, keyed by their ISIN/CUSIP/FIGI
+ */
+export function getUnresolvedSecurities(result: ParseResult): UnresolvedSecurity[] {
+  const securities = new Map<string, UnresolvedSecurity>();
+  
+  for (const row of [...result.trades, ...result.cashEvents]) {
+    if (securities.has(row.ticker) || !detectIdentifierType(row.ticker)) continue;
+    securities.set(row.ticker, {
+      identifier: row.ticker,
+      name: row.name,
+      currency: 'priceCurrency' in row ? row.priceCurrency : row.currency,
+    });
   }
+  
+  return [...securities.values()];
+}
+
+/**
+ * Replace identifier tickers with resolved symbols. The identifier stays in `isin`.
+ */
+export function applyResolvedSymbols(result: ParseResult, symbols: Map<string, string>): ParseResult {
+  if (symbols.size === 0) return result;
+  const resolve = (ticker: string) => symbols.get(ticker) || ticker;
+  
+  return {
+    ...result,
+    trades: result.trades.map(t => ({ ...t, isin: t.isin || t.ticker, ticker: resolve(t.ticker) })),
+    cashEvents: result.cashEvents.map(e => ({ ...e, isin: e.isin || e.ticker, ticker: resolve(e.ticker) })),
+    corporateActions: result.corporateActions.map(a => ({
+      ...a,
+      ticker: resolve(a.ticker),
+      ...(a.newTicker ? { newTicker: resolve(a.newTicker) } : {}),
+    })),
+  };
+}
 
-  return parseCSV(csvContent, 'csv');
+/**
+ * Filter out cash events that already exist (by brokerTransactionId)
+ */
+export function filterDuplicateCashEvents(
+  newEvents: ParsedCashEvent[],
+  existingTransactionIds: Set<string>
+): ParsedCashEvent[] {
+  return newEvents.filter(event => !existingTransactionIds.has(event.brokerTransactionId));
+}
+
+/**
+ * Filter out corporate actions that already exist (by brokerTransactionId)
+ */
+export function filterDuplicateCorporateActions(
+  newActions: ParsedCorporateAction[],
+  existingTransactionIds: Set<string>
+): ParsedCorporateAction[] {
+  return newActions.filter(action => !existingTransactionIds.has(action.brokerTransactionId));
 }
 
 /**
  * Filter out trades that already exist (by brokerTransactionId)
  */
 export function filterDuplicates(
-  newTrades: Omit<Trade, 'id' | 'userId' | 'createdAt'>[],
+  newTrades: ParsedTrade[],
   existingTransactionIds: Set<string>
-): Omit<Trade, 'id' | 'userId' | 'createdAt'>[] {
+): ParsedTrade[] {
   return newTrades.filter(trade => !existingTransactionIds.has(trade.brokerTransactionId));
 }
 
+// Trades further apart than this are never flagged as the same trade
+export const DUPLICATE_TIME_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+// Relative price difference still treated as the same fill (rounding, fees in price)
+const DUPLICATE_PRICE_TOLERANCE = 0.005;
+
+/**
+ * An imported trade that looks like one already saved from another source
+ * (e.g. entered by hand before importing the broker file)
+ */
+export interface LikelyDuplicate {
+  trade: ParsedTrade;
+  existing: Trade;
+}
+
+/**
+ * Find imported trades matching a saved trade from a different source:
+ * same ticker, action and shares, a price within 0.5% and a time within the tolerance
+ */
+export function findLikelyDuplicates(
+  newTrades: ParsedTrade[],
+  existingTrades: Trade[],
+  toleranceMs: number = DUPLICATE_TIME_TOLERANCE_MS
+): LikelyDuplicate[] {
+  const matched = new Set<string>();
+  const duplicates: LikelyDuplicate[] = [];
+  
+  for (const trade of newTrades) {
+    const time = new Date(trade.timestamp).getTime();
+    const existing = existingTrades.find(t =>
+      !matched.has(t.id) &&
+      t.source !== trade.source &&
+      t.ticker === trade.ticker &&
+      t.action === trade.action &&
+      Math.abs(t.shares - trade.shares) < 1e-6 &&
+      Math.abs(t.pricePerShare - trade.pricePerShare) <= trade.pricePerShare * DUPLICATE_PRICE_TOLERANCE &&
+      Math.abs(new Date(t.timestamp).getTime() - time) <= toleranceMs
+    );
+    if (existing) {
+      // Each saved trade can only account for one imported trade
+      matched.add(existing.id);
+      duplicates.push({ trade, existing });
+    }
+  }
+  
+  return duplicates;
+}
+
 // Legacy exports for compatibility
 export { parseCSV as parseTrading212CSV };
 export { parseCSV as parseFlexibleCSV };
@@ -1,5 +1,7 @@
 // Logo service for stock logos (stocks only)
 
+import { normalizeBrokerSymbol, parseSymbol } from '@/lib/symbols';
+
 // Stock domain mappings for logo APIs
 const stockDomains: Record<string, string> = {
   AAPL: 'apple.com',
@@ -215,14 +217,13 @@ const logoCache = new Map<string, string | null>();
 const failedLogos = new Set<string>();
 
 /**
- * Normalize ticker - handle Trading212 ticker formats
+ * Normalize ticker - handle Trading212 and IBKR ticker formats
  */
 function normalizeTicker(ticker: string): string {
-  // Remove any exchange suffix (e.g., "AAPL_US" -> "AAPL")
-  let normalized = ticker.split('_')[0];
+  // Trading212 instrument codes ("VOW3d_EQ") carry the exchange, other "_" suffixes are dropped
+  const code = ticker.trim();
   // Remove trailing dots (UK stocks like "BP." -> "BP")
-  normalized = normalized.replace(/\.$/, '');
-  return normalized.toUpperCase();
+  return normalizeBrokerSymbol(code.endsWith('_EQ') ? code : code.split('_')[0].replace(/\.$/, ''));
 }
 
 /**
@@ -237,8 +238,9 @@ export function getStockLogoUrl(ticker: string): string | null {
     return logoCache.get(cacheKey) || null;
   }
   
-  // Check if we have a domain mapping
-  const domain = stockDomains[normalizedTicker];
+  // Check if we have a domain mapping, for the listing or the local ticker
+  const base = parseSymbol(normalizedTicker)?.base || normalizedTicker;
+  const domain = stockDomains[normalizedTicker] || stockDomains[base];
   if (domain) {
     const url = `https://logo.clearbit.com/${domain}`;
     logoCache.set(cacheKey, url);
@@ -246,7 +248,7 @@ export function getStockLogoUrl(ticker: string): string | null {
   }
   
   // Fallback: Try logo.dev API with ticker (works for many stocks)
-  const logoDevUrl = `https://img.logo.dev/${normalizedTicker.toLowerCase()}.com?token=pk_VAZ6PwmyR5icAH0FwGlvYw&size=64`;
+  const logoDevUrl = `https://img.logo.dev/${base.toLowerCase()}.com?token=pk_VAZ6PwmyR5icAH0FwGlvYw&size=64`;
   logoCache.set(cacheKey, logoDevUrl);
   return logoDevUrl;
 }
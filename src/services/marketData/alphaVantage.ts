@@ -0,0 +1,165 @@
+import { getListingCurrency, parseSymbol } from '@/lib/symbols';
+import {
+  getQueryStart,
+  request,
+  toSeriesPoints,
+  type HistoryInterval,
+  type HistoryQuery,
+  type MarketDataProvider,
+  type PriceSeries,
+} from './provider';
+
+const ALPHA_VANTAGE_URL = 'https://www.alphavantage.co/query';
+const API_KEY = import.meta.env.VITE_ALPHA_VANTAGE_API_KEY || '';
+
+// Yahoo suffixes to Alpha Vantage exchange suffixes
+const ALPHA_VANTAGE_MARKETS: Record<string, string> = {
+  '': '', L: 'LON', DE: 'DEX', TO: 'TRT', V: 'TRV',
+};
+
+// Daily series are "compact" (last 100 sessions) unless the query reaches back further
+const COMPACT_DAYS = 100;
+
+const SERIES: Partial<Record<HistoryInterval, { fn: string; key: string }>> = {
+  '1d': { fn: 'TIME_SERIES_DAILY', key: 'Time Series (Daily)' },
+  '1wk': { fn: 'TIME_SERIES_WEEKLY', key: 'Weekly Time Series' },
+  '1mo': { fn: 'TIME_SERIES_MONTHLY', key: 'Monthly Time Series' },
+};
+
+function toAlphaVantageSymbol(symbol: string): string | null {
+  const parsed = parseSymbol(symbol);
+  const market = parsed ? ALPHA_VANTAGE_MARKETS[parsed.exchange.suffix] : undefined;
+  if (!parsed || market === undefined) return null;
+  return market ? `${parsed.base.replace('-', '.')}.${market}` : parsed.base.replace('-', '.');
+}
+
+function fromAlphaVantageSymbol(symbol: string): string | null {
+  const dot = symbol.lastIndexOf('.');
+  const market = dot > 0 ? symbol.substring(dot + 1) : '';
+  const suffix = Object.keys(ALPHA_VANTAGE_MARKETS).find(s => s && ALPHA_VANTAGE_MARKETS[s] === market);
+  // Anything else after a dot is a share class ("BRK.B")
+  return parseSymbol(suffix ? `${symbol.substring(0, dot)}.${suffix}` : symbol)?.symbol || null;
+}
+
+/**
+ * Query the API. Its rate limit answers 200 with a "Note" or "Information"
+ * message, which counts as the vendor being unavailable.
+ */
+async function query(params: Record<string, string>) {
+  const response = await request(`${ALPHA_VANTAGE_URL}?${new URLSearchParams({ ...params, apikey: API_KEY })}`);
+  if (!response) return null;
+
+  const data = await response.json();
+  if (data?.Note || data?.Information) {
+    throw new Error(data.Note || data.Information);
+  }
+  return data?.['Error Message'] ? null : data;
+}
+
+const toNumber = (value: unknown) => {
+  const number = Number(value);
+  return value !== undefined && value !== 'None' && isFinite(number) ? number : undefined;
+};
+
+async function getHistory(symbol: string, historyQuery: HistoryQuery): Promise<PriceSeries | null> {
+  const avSymbol = toAlphaVantageSymbol(symbol);
+  const series = SERIES[historyQuery.interval];
+  if (!avSymbol || !series) return null;
+
+  const days = (Date.now() - getQueryStart(historyQuery)) / (24 * 60 * 60 * 1000);
+  const data = await query({
+    function: series.fn,
+    symbol: avSymbol,
+    ...(series.fn === 'TIME_SERIES_DAILY' ? { outputsize: days > COMPACT_DAYS ? 'full' : 'compact' } : {}),
+  });
+  const closes: Record<string, Record<string, string>> = data?.[series.key] || {};
+
+  const points = toSeriesPoints(
+    Object.entries(closes).map(([date, values]) => ({
+      time: new Date(`${date}T00:00:00Z`).getTime(),
+      close: toNumber(values['4. close']),
+    })),
+    historyQuery
+  );
+  if (points.length === 0) return null;
+
+  return { symbol, currency: getListingCurrency(symbol), points };
+}
+
+/**
+ * Alpha Vantage (VITE_ALPHA_VANTAGE_API_KEY): quotes, daily/weekly/monthly
+ * closes, search, news and company overview
+ */
+export const alphaVantageProvider: MarketDataProvider = {
+  id: 'alphavantage',
+  name: 'Alpha Vantage',
+  isConfigured: () => API_KEY !== '',
+  getQuote: async (symbol) => {
+    const avSymbol = toAlphaVantageSymbol(symbol);
+    if (!avSymbol) return null;
+
+    const quote = (await query({ function: 'GLOBAL_QUOTE', symbol: avSymbol }))?.['Global Quote'];
+    const price = toNumber(quote?.['05. price']);
+    if (!price) return null;
+
+    return {
+      symbol,
+      price,
+      previousClose: toNumber(quote['08. previous close']),
+      open: toNumber(quote['02. open']),
+      dayLow: toNumber(quote['04. low']),
+      dayHigh: toNumber(quote['03. high']),
+      volume: toNumber(quote['06. volume']),
+      currency: getListingCurrency(symbol),
+      timestamp: Date.now(),
+    };
+  },
+  getHistory,
+  search: async (keywords) => {
+    const data = await query({ function: 'SYMBOL_SEARCH', keywords });
+    const matches: Record<string, string>[] = Array.isArray(data?.bestMatches) ? data.bestMatches : [];
+
+    return matches.flatMap((match) => {
+      const symbol = fromAlphaVantageSymbol(match['1. symbol'] || '');
+      const type = match['3. type'] === 'Equity' ? 'EQUITY' : match['3. type'] === 'ETF' ? 'ETF' : '';
+      return symbol && type
+        ? [{ symbol, name: match['2. name'] || symbol, exchange: match['4. region'] || '', type }]
+        : [];
+    });
+  },
+  getNews: async (symbol) => {
+    const avSymbol = toAlphaVantageSymbol(symbol);
+    if (!avSymbol) return [];
+
+    const data = await query({ function: 'NEWS_SENTIMENT', tickers: avSymbol, limit: '10' });
+    const feed: Record<string, unknown>[] = Array.isArray(data?.feed) ? data.feed : [];
+
+    return feed.map((item) => {
+      // "20240115T133000"
+      const published = String(item.time_published || '')
+        .replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/, '$1-$2-$3T$4:$5:$6Z');
+      const tickers = Array.isArray(item.ticker_sentiment) ? item.ticker_sentiment as { ticker?: string }[] : [];
+      return {
+        title: String(item.title || ''),
+        link: String(item.url || ''),
+        publisher: String(item.source || 'Unknown'),
+        providerPublishTime: Math.floor(new Date(published).getTime() / 1000) || 0,
+        relatedTickers: tickers.flatMap(t => t.ticker ? [fromAlphaVantageSymbol(t.ticker) || t.ticker] : []),
+      };
+    });
+  },
+  getFundamentals: async (symbol) => {
+    const avSymbol = toAlphaVantageSymbol(symbol);
+    const overview = avSymbol ? await query({ function: 'OVERVIEW', symbol: avSymbol }) : null;
+    if (!overview?.Symbol) return null;
+
+    return {
+      name: overview.Name,
+      marketCap: toNumber(overview.MarketCapitalization),
+      trailingPE: toNumber(overview.PERatio),
+      epsTrailingTwelveMonths: toNumber(overview.EPS),
+      fiftyTwoWeekLow: toNumber(overview['52WeekLow']),
+      fiftyTwoWeekHigh: toNumber(overview['52WeekHigh']),
+    };
+  },
+};
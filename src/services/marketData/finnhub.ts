@@ -0,0 +1,124 @@
+import { getListingCurrency, parseSymbol } from '@/lib/symbols';
+import {
+  getQueryStart,
+  request,
+  toIsoDate,
+  toSeriesPoints,
+  type HistoryInterval,
+  type HistoryQuery,
+  type MarketDataProvider,
+  type PriceSeries,
+} from './provider';
+
+const FINNHUB_URL = 'https://finnhub.io/api/v1';
+const API_KEY = import.meta.env.VITE_FINNHUB_API_KEY || '';
+
+// Company news is requested for the last week
+const NEWS_DAYS = 7;
+
+const RESOLUTIONS: Record<HistoryInterval, string> = {
+  '5m': '5', '15m': '15', '1d': 'D', '1wk': 'W', '1mo': 'M',
+};
+
+// Finnhub security types to Yahoo quote types
+const SECURITY_TYPES: Record<string, string> = {
+  'Common Stock': 'EQUITY', 'ADR': 'EQUITY', 'REIT': 'EQUITY', 'ETP': 'ETF',
+};
+
+async function get(path: string, params: Record<string, string>) {
+  const response = await request(`${FINNHUB_URL}${path}?${new URLSearchParams({ ...params, token: API_KEY })}`);
+  return response ? await response.json() : null;
+}
+
+async function getHistory(symbol: string, query: HistoryQuery): Promise<PriceSeries | null> {
+  const data = await get('/stock/candle', {
+    symbol,
+    resolution: RESOLUTIONS[query.interval],
+    from: String(Math.floor(getQueryStart(query) / 1000)),
+    to: String(Math.floor((query.to ?? Date.now()) / 1000)),
+  });
+  if (data?.s !== 'ok') return null;
+
+  const times: number[] = data.t || [];
+  const closes: number[] = data.c || [];
+  const points = toSeriesPoints(times.map((time, i) => ({ time: time * 1000, close: closes[i] })), query);
+  if (points.length === 0) return null;
+
+  return { symbol, currency: getListingCurrency(symbol), points };
+}
+
+/**
+ * Finnhub (VITE_FINNHUB_API_KEY): quotes, candles, search, company news and
+ * basic financials. Uses Yahoo-style exchange suffixes.
+ */
+export const finnhubProvider: MarketDataProvider = {
+  id: 'finnhub',
+  name: 'Finnhub',
+  isConfigured: () => API_KEY !== '',
+  getQuote: async (symbol) => {
+    const quote = await get('/quote', { symbol });
+    // Unknown symbols answer with all zeros
+    if (!quote?.c) return null;
+
+    return {
+      symbol,
+      price: quote.c,
+      previousClose: quote.pc || undefined,
+      open: quote.o || undefined,
+      dayLow: quote.l || undefined,
+      dayHigh: quote.h || undefined,
+      currency: getListingCurrency(symbol),
+      timestamp: quote.t ? quote.t * 1000 : Date.now(),
+    };
+  },
+  getHistory,
+  search: async (query) => {
+    const data = await get('/search', { q: query });
+    const results: Record<string, string>[] = Array.isArray(data?.result) ? data.result : [];
+
+    return results.flatMap((result) => {
+      const symbol = parseSymbol(result.symbol)?.symbol;
+      const type = SECURITY_TYPES[result.type];
+      return symbol && type
+        ? [{ symbol, name: result.description || symbol, exchange: parseSymbol(symbol)?.exchange.name || '', type }]
+        : [];
+    });
+  },
+  getNews: async (symbol) => {
+    const now = Date.now();
+    const data = await get('/company-news', {
+      symbol,
+      from: toIsoDate(now - NEWS_DAYS * 24 * 60 * 60 * 1000),
+      to: toIsoDate(now),
+    });
+    const items: Record<string, unknown>[] = Array.isArray(data) ? data : [];
+
+    return items.map(item => ({
+      title: String(item.headline || ''),
+      link: String(item.url || ''),
+      publisher: String(item.source || 'Unknown'),
+      providerPublishTime: Number(item.datetime) || 0,
+      relatedTickers: String(item.related || '').split(',').filter(Boolean),
+    }));
+  },
+  getFundamentals: async (symbol) => {
+    const [metrics, profile] = await Promise.all([
+      get('/stock/metric', { symbol, metric: 'all' }),
+      get('/stock/profile2', { symbol }),
+    ]);
+    const metric = metrics?.metric;
+    if (!metric && !profile?.name) return null;
+
+    // Market cap and volumes are in millions
+    const millions = (value: unknown) => typeof value === 'number' ? value * 1e6 : undefined;
+    return {
+      name: profile?.name,
+      marketCap: millions(profile?.marketCapitalization ?? metric?.marketCapitalization),
+      trailingPE: metric?.peTTM ?? metric?.peBasicExclExtraTTM,
+      epsTrailingTwelveMonths: metric?.epsTTM ?? metric?.epsBasicExclExtraItemsTTM,
+      averageVolume: millions(metric?.['10DayAverageTradingVolume']),
+      fiftyTwoWeekLow: metric?.['52WeekLow'],
+      fiftyTwoWeekHigh: metric?.['52WeekHigh'],
+    };
+  },
+};
@@ -0,0 +1,168 @@
+import { getListingCurrency, parseSymbol } from '@/lib/symbols';
+import {
+  getQueryStart,
+  toSeriesPoints,
+  type HistoryInterval,
+  type MarketDataProvider,
+  type Quote,
+} from './provider';
+
+interface FixtureSecurity {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: 'EQUITY' | 'ETF';
+  price: number;
+}
+
+// Securities that search and news know about; any other valid symbol still gets a made-up price
+const FIXTURE_SECURITIES: FixtureSecurity[] = [
+  { symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', type: 'EQUITY', price: 189.5 },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', exchange: 'NASDAQ', type: 'EQUITY', price: 415.2 },
+  { symbol: 'NVDA', name: 'NVIDIA Corporation', exchange: 'NASDAQ', type: 'EQUITY', price: 121.4 },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', exchange: 'NASDAQ', type: 'EQUITY', price: 165.8 },
+  { symbol: 'AMZN', name: 'Amazon.com, Inc.', exchange: 'NASDAQ', type: 'EQUITY', price: 182.3 },
+  { symbol: 'TSLA', name: 'Tesla, Inc.', exchange: 'NASDAQ', type: 'EQUITY', price: 238.7 },
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF Trust', exchange: 'NYSE Arca', type: 'ETF', price: 545.1 },
+  { symbol: 'VWRL.L', name: 'Vanguard FTSE All-World UCITS ETF', exchange: 'London', type: 'ETF', price: 11250 },
+  { symbol: 'VOD.L', name: 'Vodafone Group Plc', exchange: 'London', type: 'EQUITY', price: 72.4 },
+  { symbol: 'SAP.DE', name: 'SAP SE', exchange: 'Xetra', type: 'EQUITY', price: 182.6 },
+  { symbol: 'ASML.AS', name: 'ASML Holding N.V.', exchange: 'Euronext Amsterdam', type: 'EQUITY', price: 905.4 },
+];
+
+// Units of each currency per US dollar, for FX pairs like "EURUSD=X"
+const USD_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, CHF: 0.89, CAD: 1.36, AUD: 1.52, JPY: 151.5,
+  SEK: 10.6, NOK: 10.8, DKK: 6.87, PLN: 3.98, HKD: 7.82, NZD: 1.66, SGD: 1.35,
+};
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1wk': 7 * 24 * 60 * 60 * 1000,
+  '1mo': 30 * 24 * 60 * 60 * 1000,
+};
+
+// Longest series returned, so a 'max' query stays small
+const MAX_POINTS = 2000;
+
+// 32-bit FNV-1a, to derive a stable price and walk from the symbol
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Price and currency of a symbol, or null for text that isn't a symbol
+ */
+function getFixturePrice(symbol: string): { price: number; currency: string } | null {
+  const upper = symbol.toUpperCase();
+  const pair = upper.match(/^([A-Z]{3})([A-Z]{3})=X$/);
+  if (pair) {
+    const [, from, to] = pair;
+    return USD_RATES[from] && USD_RATES[to] ? { price: USD_RATES[to] / USD_RATES[from], currency: to } : null;
+  }
+
+  const parsed = parseSymbol(upper);
+  if (!parsed) return null;
+  const known = FIXTURE_SECURITIES.find(s => s.symbol === parsed.symbol);
+  const currency = getListingCurrency(parsed.symbol);
+  return { price: known?.price ?? 10 + (hash(parsed.symbol) % 49000) / 100, currency: currency === 'GBX' ? 'GBp' : currency };
+}
+
+/**
+ * Price at a time: the fixture price plus two slow waves, the same on every run
+ */
+function priceAt(symbol: string, price: number, time: number): number {
+  const seed = hash(symbol) % 1000;
+  const days = time / INTERVAL_MS['1d'];
+  return price * (1 + 0.12 * Math.sin(days / 40 + seed) + 0.04 * Math.sin(days / 5 + seed * 2));
+}
+
+/**
+ * Offline data for development and tests: made-up but stable prices for any
+ * symbol, FX rates, a small search list and placeholder news. No network.
+ */
+export const fixtureProvider: MarketDataProvider = {
+  id: 'fixture',
+  name: 'Fixture data',
+  isConfigured: () => true,
+  getQuote: async (symbol): Promise<Quote | null> => {
+    const fixture = getFixturePrice(symbol);
+    if (!fixture) return null;
+
+    const now = Date.now();
+    const price = priceAt(symbol, fixture.price, now);
+    const previousClose = priceAt(symbol, fixture.price, now - INTERVAL_MS['1d']);
+    return {
+      symbol,
+      price,
+      previousClose,
+      open: previousClose,
+      dayLow: Math.min(price, previousClose),
+      dayHigh: Math.max(price, previousClose),
+      volume: 1_000_000 + hash(symbol) % 9_000_000,
+      currency: fixture.currency,
+      name: FIXTURE_SECURITIES.find(s => s.symbol === symbol.toUpperCase())?.name,
+      timestamp: now,
+    };
+  },
+  getHistory: async (symbol, query) => {
+    const fixture = getFixturePrice(symbol);
+    if (!fixture) return null;
+
+    const step = INTERVAL_MS[query.interval];
+    const now = Date.now();
+    const end = Math.min(query.to ?? now, now);
+    const start = Math.max(getQueryStart(query, now), end - step * (MAX_POINTS - 1));
+    // Points on whole intervals, so repeated queries line up
+    const points = [];
+    for (let time = Math.ceil(start / step) * step; time <= end; time += step) {
+      points.push({ time, close: priceAt(symbol, fixture.price, time) });
+    }
+
+    return {
+      symbol,
+      currency: fixture.currency,
+      price: priceAt(symbol, fixture.price, now),
+      previousClose: priceAt(symbol, fixture.price, start - step),
+      points: toSeriesPoints(points, { ...query, from: start, to: end }),
+    };
+  },
+  search: async (query) => {
+    const q = query.trim().toLowerCase();
+    return FIXTURE_SECURITIES
+      .filter(s => s.symbol.toLowerCase().startsWith(q) || s.name.toLowerCase().includes(q))
+      .map(({ symbol, name, exchange, type }) => ({ symbol, name, exchange, type }));
+  },
+  getNews: async (symbol) => {
+    const known = FIXTURE_SECURITIES.find(s => s.symbol === symbol.toUpperCase());
+    if (!known) return [];
+    return [
+      {
+        title: `${known.name} (${known.symbol}) shares move on sample news`,
+        link: `https://example.com/news/${encodeURIComponent(known.symbol)}`,
+        publisher: 'Fixture Wire',
+        providerPublishTime: Math.floor(Date.now() / 1000) - 3600,
+        relatedTickers: [known.symbol],
+      },
+    ];
+  },
+  getFundamentals: async (symbol) => {
+    const fixture = getFixturePrice(symbol);
+    if (!fixture) return null;
+    const known = FIXTURE_SECURITIES.find(s => s.symbol === symbol.toUpperCase());
+    return {
+      name: known?.name,
+      marketCap: fixture.price * (1e8 + hash(symbol) % 1e10),
+      trailingPE: 10 + hash(symbol) % 30,
+      epsTrailingTwelveMonths: fixture.price / (10 + hash(symbol) % 30),
+      fiftyTwoWeekLow: fixture.price * 0.75,
+      fiftyTwoWeekHigh: fixture.price * 1.2,
+    };
+  },
+};
@@ -0,0 +1,174 @@
+/**
+ * Market Data Provider Chain
+ * Asks providers in priority order and returns the first answer along with
+ * the provider that gave it. A provider that fails (network error, rate
+ * limit) is skipped for a minute; one without data just passes to the next.
+ */
+
+import type { MarketDataSource } from '@/types/portfolio';
+import type {
+  Fundamentals,
+  HistoryQuery,
+  MarketDataProvider,
+  NewsItem,
+  PriceSeries,
+  Quote,
+  SymbolMatch,
+} from './provider';
+import { getYahooQuotes, yahooProvider } from './yahoo';
+import { finnhubProvider } from './finnhub';
+import { alphaVantageProvider } from './alphaVantage';
+import { stooqProvider } from './stooq';
+import { fixtureProvider } from './fixture';
+
+export { API_BASE_URL } from './provider';
+export type {
+  Fundamentals,
+  HistoryInterval,
+  HistoryQuery,
+  HistoryRange,
+  MarketDataProvider,
+  NewsItem,
+  PriceSeries,
+  Quote,
+  SymbolMatch,
+} from './provider';
+
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [
+  yahooProvider,
+  finnhubProvider,
+  alphaVantageProvider,
+  stooqProvider,
+  fixtureProvider,
+];
+
+// Fixture data is only used when asked for (VITE_MARKET_DATA_PROVIDERS=fixture)
+const DEFAULT_CHAIN: MarketDataSource[] = ['yahoo', 'finnhub', 'alphavantage', 'stooq'];
+
+const FAILURE_COOLDOWN = 60 * 1000; // 1 minute
+
+let chain = parseChain(import.meta.env.VITE_MARKET_DATA_PROVIDERS);
+const failedUntil = new Map<MarketDataSource, number>();
+
+/**
+ * Provider ids from a comma-separated list ("finnhub,yahoo"), or the default
+ * order when the list names none
+ */
+function parseChain(value: string | undefined): MarketDataSource[] {
+  const ids = (value || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is MarketDataSource => MARKET_DATA_PROVIDERS.some(p => p.id === id));
+  return ids.length > 0 ? ids : DEFAULT_CHAIN;
+}
+
+/**
+ * Configured providers in the order they're asked
+ */
+export function getProviderChain(): MarketDataProvider[] {
+  return chain
+    .map(id => MARKET_DATA_PROVIDERS.find(p => p.id === id))
+    .filter((p): p is MarketDataProvider => !!p && p.isConfigured());
+}
+
+/**
+ * Change the provider order (e.g. ['fixture'] for offline use) and clear
+ * any failure cooldowns
+ */
+export function setProviderChain(ids: MarketDataSource[]): void {
+  chain = ids.length > 0 ? ids : DEFAULT_CHAIN;
+  failedUntil.clear();
+}
+
+/**
+ * First non-empty answer from the chain. `call` returns undefined for
+ * providers that don't offer the data.
+ */
+async function fromChain<T>(
+  call: (provider: MarketDataProvider) => Promise<T> | undefined,
+  isEmpty: (result: T) => boolean
+): Promise<{ result: T; source: MarketDataSource } | null> {
+  for (const provider of getProviderChain()) {
+    if ((failedUntil.get(provider.id) ?? 0) > Date.now()) continue;
+
+    const pending = call(provider);
+    if (!pending) continue;
+
+    try {
+      const result = await pending;
+      if (!isEmpty(result)) return { result, source: provider.id };
+    } catch (error) {
+      console.warn(`${provider.name} failed, trying the next provider:`, error);
+      failedUntil.set(provider.id, Date.now() + FAILURE_COOLDOWN);
+    }
+  }
+  return null;
+}
+
+/**
+ * Latest price of a Yahoo symbol
+ */
+export async function fetchQuote(symbol: string): Promise<(Quote & { source: MarketDataSource }) | null> {
+  const answer = await fromChain(p => p.getQuote?.(symbol), quote => !quote || !(quote.price > 0));
+  return answer?.result ? { ...answer.result, source: answer.source } : null;
+}
+
+/**
+ * Latest prices for many symbols in one request to the api/quotes route,
+ * keyed by symbol. The route serves Yahoo prices, so it's only asked while
+ * Yahoo leads the chain; symbols left out need fetchQuote.
+ */
+export async function fetchQuoteBatch(
+  symbols: string[]
+): Promise<Map<string, Quote & { source: MarketDataSource }>> {
+  const quotes = new Map<string, Quote & { source: MarketDataSource }>();
+  const [first] = getProviderChain();
+  if (symbols.length === 0 || first?.id !== 'yahoo' || (failedUntil.get('yahoo') ?? 0) > Date.now()) {
+    return quotes;
+  }
+
+  for (const [symbol, quote] of await getYahooQuotes(symbols)) {
+    if (quote.price > 0) quotes.set(symbol, { ...quote, source: 'yahoo' });
+  }
+  return quotes;
+}
+
+/**
+ * Closes of a Yahoo symbol (or FX pair such as "EURUSD=X")
+ */
+export async function fetchHistory(
+  symbol: string,
+  query: HistoryQuery
+): Promise<(PriceSeries & { source: MarketDataSource }) | null> {
+  const answer = await fromChain(
+    p => p.getHistory?.(symbol, query),
+    series => !series || (series.points.length === 0 && !series.price)
+  );
+  return answer?.result ? { ...answer.result, source: answer.source } : null;
+}
+
+/**
+ * Stocks and ETFs matching a ticker or company name
+ */
+export async function fetchSymbolMatches(query: string): Promise<SymbolMatch[]> {
+  const answer = await fromChain(p => p.search?.(query), matches => matches.length === 0);
+  return answer?.result || [];
+}
+
+/**
+ * Recent news about a Yahoo symbol
+ */
+export async function fetchNews(symbol: string): Promise<NewsItem[]> {
+  const answer = await fromChain(p => p.getNews?.(symbol), items => items.length === 0);
+  return answer?.result || [];
+}
+
+/**
+ * Market cap, P/E, EPS and 52-week range of a Yahoo symbol
+ */
+export async function fetchFundamentals(
+  symbol: string
+): Promise<(Fundamentals & { source: MarketDataSource }) | null> {
+  const answer = await fromChain(p => p.getFundamentals?.(symbol), fundamentals => !fundamentals);
+  return answer?.result ? { ...answer.result, source: answer.source } : null;
+}
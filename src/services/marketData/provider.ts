@@ -0,0 +1,159 @@
+/**
+ * Market Data Providers
+ * Each provider reads quotes, price history, symbol search, news and
+ * fundamentals from one vendor. A provider returns null (or []) when it has
+ * no data for a symbol and throws when the vendor can't be reached, so the
+ * chain in ./index can move on to the next provider.
+ */
+
+import type { MarketDataSource } from '@/types/portfolio';
+
+// The api/ routes, served from the same origin; VITE_API_BASE_URL points at another deployment
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// For vendors that don't send CORS headers; VITE_CORS_PROXY='' turns it off
+const CORS_PROXY = import.meta.env.VITE_CORS_PROXY ?? 'https://corsproxy.io/?';
+
+const REQUEST_TIMEOUT = 8000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  previousClose?: number;
+  open?: number;
+  dayLow?: number;
+  dayHigh?: number;
+  volume?: number;
+  currency?: string;            // As quoted (e.g. 'GBp' for pence)
+  name?: string;
+  timestamp: number;            // Time of the price, in ms
+}
+
+export type HistoryInterval = '5m' | '15m' | '1d' | '1wk' | '1mo';
+
+// Ranges counted back from the latest session (Yahoo's names)
+export type HistoryRange = '1d' | '5d' | '1mo' | '3mo' | '6mo' | 'ytd' | '1y' | '2y' | '5y' | '10y' | 'max';
+
+/**
+ * Closes to fetch: a range, or a start (and end) time in ms
+ */
+export interface HistoryQuery {
+  interval: HistoryInterval;
+  range?: HistoryRange;
+  from?: number;
+  to?: number;
+}
+
+export interface PriceSeries {
+  symbol: string;
+  currency: string;             // As quoted
+  price?: number;               // Latest price, when reported with the closes
+  previousClose?: number;       // Close before the first point
+  points: { time: number; close: number }[]; // Sorted ascending, time in ms
+}
+
+export interface SymbolMatch {
+  symbol: string;               // Yahoo symbol
+  name: string;
+  exchange: string;
+  type: string;                 // Yahoo quote type: EQUITY, ETF, MUTUALFUND or INDEX
+}
+
+export interface NewsItem {
+  title: string;
+  link: string;
+  publisher: string;
+  providerPublishTime: number;  // Seconds
+  relatedTickers?: string[];
+}
+
+export interface Fundamentals {
+  name?: string;
+  marketCap?: number;
+  trailingPE?: number;
+  epsTrailingTwelveMonths?: number;
+  averageVolume?: number;
+  fiftyTwoWeekLow?: number;
+  fiftyTwoWeekHigh?: number;
+}
+
+export interface MarketDataProvider {
+  id: MarketDataSource;
+  name: string;
+  /** False when the provider needs an API key that isn't set */
+  isConfigured: () => boolean;
+  // Missing methods are data the vendor doesn't offer
+  getQuote?: (symbol: string) => Promise<Quote | null>;
+  getHistory?: (symbol: string, query: HistoryQuery) => Promise<PriceSeries | null>;
+  search?: (query: string) => Promise<SymbolMatch[]>;
+  getNews?: (symbol: string) => Promise<NewsItem[]>;
+  getFundamentals?: (symbol: string) => Promise<Fundamentals | null>;
+}
+
+/**
+ * URL through the CORS proxy (unchanged when the proxy is turned off)
+ */
+export function withCorsProxy(url: string): string {
+  return CORS_PROXY ? `${CORS_PROXY}${encodeURIComponent(url)}` : url;
+}
+
+/**
+ * GET a vendor URL. Resolves null for 404 (no such symbol) and throws when
+ * the vendor is down, times out or rejects the request.
+ */
+export async function request(url: string): Promise<Response | null> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json, text/csv' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Start time of a history query, for vendors that only take dates
+ */
+export function getQueryStart(query: HistoryQuery, now = Date.now()): number {
+  if (query.from !== undefined) return query.from;
+
+  const date = new Date(now);
+  switch (query.range) {
+    case '1d': return now - MS_PER_DAY;
+    case '5d': return now - 7 * MS_PER_DAY;
+    case '1mo': return date.setMonth(date.getMonth() - 1);
+    case '3mo': return date.setMonth(date.getMonth() - 3);
+    case '6mo': return date.setMonth(date.getMonth() - 6);
+    case 'ytd': return new Date(date.getFullYear(), 0, 1).getTime();
+    case '2y': return date.setFullYear(date.getFullYear() - 2);
+    case '5y': return date.setFullYear(date.getFullYear() - 5);
+    case '10y': return date.setFullYear(date.getFullYear() - 10);
+    case 'max': return 0;
+    default: return date.setFullYear(date.getFullYear() - 1);
+  }
+}
+
+/**
+ * Closes within a query's time span, sorted ascending
+ */
+export function toSeriesPoints(
+  points: { time: number; close: number | null | undefined }[],
+  query: HistoryQuery
+): { time: number; close: number }[] {
+  const from = getQueryStart(query);
+  const to = query.to ?? Infinity;
+  return points
+    .filter((p): p is { time: number; close: number } =>
+      p.close != null && p.close > 0 && p.time >= from && p.time <= to)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * yyyy-mm-dd of a time in ms (UTC)
+ */
+export function toIsoDate(time: number): string {
+  return new Date(time).toISOString().substring(0, 10);
+}
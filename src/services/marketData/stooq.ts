@@ -0,0 +1,125 @@
+import { parseCSVRows } from '@/lib/csv';
+import { getListingCurrency, parseSymbol } from '@/lib/symbols';
+import {
+  getQueryStart,
+  request,
+  toSeriesPoints,
+  withCorsProxy,
+  type HistoryInterval,
+  type HistoryQuery,
+  type MarketDataProvider,
+  type PriceSeries,
+} from './provider';
+
+const STOOQ_QUOTE_URL = 'https://stooq.com/q/l/';
+const STOOQ_HISTORY_URL = 'https://stooq.com/q/d/l/';
+
+// Yahoo suffixes to Stooq market suffixes (Warsaw listings have none)
+const STOOQ_MARKETS: Record<string, string> = {
+  '': 'us', L: 'uk', DE: 'de', F: 'de', T: 'jp', HK: 'hk', WA: '',
+};
+
+// Yahoo index symbols Stooq lists under its own names
+const STOOQ_INDICES: Record<string, string> = {
+  '^GSPC': '^spx', '^IXIC': '^ndq', '^DJI': '^dji', '^FTSE': '^ukx', '^GDAXI': '^dax', '^N225': '^nkx',
+};
+
+const STOOQ_INTERVALS: Partial<Record<HistoryInterval, string>> = { '1d': 'd', '1wk': 'w', '1mo': 'm' };
+
+/**
+ * Stooq symbol for a Yahoo symbol ("AAPL" -> "aapl.us", "EURUSD=X" -> "eurusd"),
+ * or null for markets Stooq doesn't cover
+ */
+function toStooqSymbol(symbol: string): string | null {
+  const upper = symbol.toUpperCase();
+  if (STOOQ_INDICES[upper]) return STOOQ_INDICES[upper];
+
+  const pair = upper.match(/^([A-Z]{6})=X$/);
+  if (pair) return pair[1].toLowerCase();
+
+  const parsed = parseSymbol(upper);
+  const market = parsed ? STOOQ_MARKETS[parsed.exchange.suffix] : undefined;
+  if (!parsed || market === undefined) return null;
+  return (market ? `${parsed.base}.${market}` : parsed.base).toLowerCase();
+}
+
+// Currency of a Stooq price: the quote currency for FX pairs, else the listing's
+function getStooqCurrency(symbol: string): string {
+  const pair = symbol.toUpperCase().match(/^[A-Z]{3}([A-Z]{3})=X$/);
+  return pair ? pair[1] : getListingCurrency(symbol);
+}
+
+/**
+ * Rows of a Stooq CSV keyed by its lowercase header, or [] for "No data"
+ */
+async function fetchCsv(url: string): Promise<Record<string, string>[]> {
+  const response = await request(withCorsProxy(url));
+  if (!response) return [];
+
+  const [header, ...rows] = parseCSVRows(await response.text());
+  if (!header || header.length < 2) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows
+    .filter(row => row.length === keys.length)
+    .map(row => Object.fromEntries(keys.map((key, i) => [key, row[i].trim()])));
+}
+
+const toNumber = (value: string | undefined) => {
+  const number = Number(value);
+  return value && value !== 'N/D' && isFinite(number) ? number : undefined;
+};
+
+// Stooq dates are yyyymmdd in queries and yyyy-mm-dd in results
+const toStooqDate = (time: number) => new Date(time).toISOString().substring(0, 10).replace(/-/g, '');
+
+async function getHistory(symbol: string, query: HistoryQuery): Promise<PriceSeries | null> {
+  const stooqSymbol = toStooqSymbol(symbol);
+  const interval = STOOQ_INTERVALS[query.interval];
+  if (!stooqSymbol || !interval) return null;
+
+  const from = getQueryStart(query);
+  const params = new URLSearchParams({ s: stooqSymbol, i: interval, d2: toStooqDate(query.to ?? Date.now()) });
+  if (from > 0) params.set('d1', toStooqDate(from));
+
+  const rows = await fetchCsv(`${STOOQ_HISTORY_URL}?${params}`);
+  const points = toSeriesPoints(
+    rows.map(row => ({ time: new Date(`${row.date}T00:00:00Z`).getTime(), close: toNumber(row.close) })),
+    query
+  );
+  if (points.length === 0) return null;
+
+  return { symbol, currency: getStooqCurrency(symbol), points };
+}
+
+/**
+ * Stooq CSV downloads: daily, weekly and monthly closes for US, UK, German,
+ * Japanese, Hong Kong and Polish listings, FX pairs and major indices
+ * (no key; needs the CORS proxy in the browser)
+ */
+export const stooqProvider: MarketDataProvider = {
+  id: 'stooq',
+  name: 'Stooq',
+  isConfigured: () => true,
+  getQuote: async (symbol) => {
+    const stooqSymbol = toStooqSymbol(symbol);
+    if (!stooqSymbol) return null;
+
+    const [row] = await fetchCsv(`${STOOQ_QUOTE_URL}?s=${encodeURIComponent(stooqSymbol)}&f=sd2t2ohlcvn&h&e=csv`);
+    const price = toNumber(row?.close);
+    if (!price) return null;
+
+    const time = new Date(`${row.date}T${row.time || '00:00:00'}Z`).getTime();
+    return {
+      symbol,
+      price,
+      open: toNumber(row.open),
+      dayLow: toNumber(row.low),
+      dayHigh: toNumber(row.high),
+      volume: toNumber(row.volume),
+      currency: getStooqCurrency(symbol),
+      name: row.name && row.name !== 'N/D' ? row.name : undefined,
+      timestamp: isNaN(time) ? Date.now() : time,
+    };
+  },
+  getHistory,
+};
@@ -0,0 +1,194 @@
+import {
+  API_BASE_URL,
+  request,
+  withCorsProxy,
+  type Fundamentals,
+  type HistoryQuery,
+  type MarketDataProvider,
+  type NewsItem,
+  type PriceSeries,
+  type Quote,
+  type SymbolMatch,
+} from './provider';
+import type { LivePrice } from '@/types/portfolio';
+
+const YAHOO_CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+const YAHOO_SEARCH_URL = 'https://query1.finance.yahoo.com/v1/finance/search';
+const YAHOO_QUOTE_URL = 'https://query1.finance.yahoo.com/v6/finance/quote';
+
+// Most symbols the api/quotes route takes per request
+const QUOTE_BATCH_SIZE = 100;
+
+/**
+ * JSON from an api/ route, or null when the route fails or isn't deployed
+ * (a dev server answers unknown paths with index.html)
+ */
+async function fetchFromApi(path: string) {
+  try {
+    const response = await request(`${API_BASE_URL}/${path}`);
+    if (!response?.headers.get('content-type')?.includes('application/json')) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chart JSON for a symbol, from the api/ route or through the CORS proxy
+ */
+async function fetchChart(symbol: string, query: HistoryQuery) {
+  const params = new URLSearchParams({ interval: query.interval });
+  if (query.range) {
+    params.set('range', query.range);
+  } else {
+    params.set('period1', String(Math.floor((query.from ?? 0) / 1000)));
+    params.set('period2', String(Math.floor((query.to ?? Date.now()) / 1000)));
+  }
+
+  const fromApi = await fetchFromApi(`yahoo-price?symbol=${encodeURIComponent(symbol)}&${params}`);
+  if (fromApi?.chart) return fromApi;
+
+  const response = await request(withCorsProxy(`${YAHOO_CHART_URL}/${encodeURIComponent(symbol)}?${params}`));
+  return response ? await response.json() : null;
+}
+
+/**
+ * Latest prices from the api/quotes batch route, keyed by symbol. Symbols it
+ * couldn't price (or every symbol, when the route is down) are left out.
+ */
+export async function getYahooQuotes(symbols: string[]): Promise<Map<string, Quote>> {
+  const quotes = new Map<string, Quote>();
+
+  for (let i = 0; i < symbols.length; i += QUOTE_BATCH_SIZE) {
+    const batch = symbols.slice(i, i + QUOTE_BATCH_SIZE);
+    const data = await fetchFromApi(`quotes?symbols=${encodeURIComponent(batch.join(','))}`);
+    const prices: LivePrice[] = Array.isArray(data?.quotes) ? data.quotes : [];
+
+    for (const price of prices) {
+      quotes.set(price.ticker, {
+        symbol: price.ticker,
+        price: price.price,
+        previousClose: price.previousClose,
+        currency: price.currency,
+        timestamp: price.timestamp,
+      });
+    }
+    if (Array.isArray(data?.errors) && data.errors.length > 0) {
+      console.warn('Batch quotes missing symbols:', data.errors);
+    }
+  }
+  return quotes;
+}
+
+async function getHistory(symbol: string, query: HistoryQuery): Promise<PriceSeries | null> {
+  const data = await fetchChart(symbol, query);
+  const result = data?.chart?.result?.[0];
+  if (!result?.meta) return null;
+
+  const timestamps: number[] = result.timestamp || [];
+  const closes: (number | null)[] = result.indicators?.quote?.[0]?.close || [];
+
+  return {
+    symbol,
+    currency: result.meta.currency || 'USD',
+    price: result.meta.regularMarketPrice,
+    previousClose: result.meta.chartPreviousClose ?? result.meta.previousClose,
+    points: timestamps
+      .map((time, i) => ({ time: time * 1000, close: closes[i] }))
+      .filter((p): p is { time: number; close: number } => p.close != null && p.close > 0),
+  };
+}
+
+// Quote types search returns; other results (currencies, futures, ...) are dropped
+const SEARCH_TYPES = ['EQUITY', 'ETF', 'MUTUALFUND', 'INDEX'];
+
+async function search(query: string): Promise<SymbolMatch[]> {
+  const fromApi = await fetchFromApi(`search?q=${encodeURIComponent(query)}`);
+  if (Array.isArray(fromApi?.results)) return fromApi.results;
+
+  const url = `${YAHOO_SEARCH_URL}?q=${encodeURIComponent(query)}&quotesCount=10&newsCount=0`;
+  const response = await request(withCorsProxy(url));
+  if (!response) return [];
+
+  const data = await response.json();
+  const quotes: unknown[] = Array.isArray(data?.quotes) ? data.quotes : [];
+
+  return quotes
+    .map((item) => {
+      const quote = item as Record<string, string | undefined>;
+      return {
+        symbol: quote.symbol || '',
+        name: quote.longname || quote.shortname || quote.symbol || '',
+        exchange: quote.exchDisp || quote.exchange || '',
+        type: quote.quoteType || '',
+      };
+    })
+    .filter(result => result.symbol && SEARCH_TYPES.includes(result.type));
+}
+
+async function getNews(symbol: string): Promise<NewsItem[]> {
+  let rawNews = await fetchFromApi(`yahoo-news?symbol=${encodeURIComponent(symbol)}`);
+
+  if (!Array.isArray(rawNews) || rawNews.length === 0) {
+    const url = `${YAHOO_SEARCH_URL}?q=${encodeURIComponent(symbol)}&newsCount=10`;
+    const response = await request(withCorsProxy(url));
+    rawNews = response ? (await response.json())?.news : [];
+  }
+  if (!Array.isArray(rawNews)) return [];
+
+  return rawNews.map((item: Record<string, unknown>) => ({
+    title: String(item.title || ''),
+    link: String(item.link || ''),
+    publisher: String(item.publisher || 'Unknown'),
+    providerPublishTime: Number(item.providerPublishTime) || 0,
+    relatedTickers: Array.isArray(item.relatedTickers) ? item.relatedTickers.map(String) : [],
+  }));
+}
+
+async function getFundamentals(symbol: string): Promise<Fundamentals | null> {
+  const response = await request(withCorsProxy(`${YAHOO_QUOTE_URL}?symbols=${encodeURIComponent(symbol)}`));
+  const result = response ? (await response.json())?.quoteResponse?.result?.[0] : null;
+  if (!result) return null;
+
+  return {
+    name: result.longName || result.shortName,
+    marketCap: result.marketCap,
+    trailingPE: result.trailingPE,
+    epsTrailingTwelveMonths: result.epsTrailingTwelveMonths,
+    averageVolume: result.averageDailyVolume3Month || result.averageDailyVolume10Day,
+    fiftyTwoWeekLow: result.fiftyTwoWeekLow,
+    fiftyTwoWeekHigh: result.fiftyTwoWeekHigh,
+  };
+}
+
+/**
+ * Yahoo Finance chart, search and quote endpoints (no key; needs the api/
+ * routes or the CORS proxy in the browser)
+ */
+export const yahooProvider: MarketDataProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  isConfigured: () => true,
+  getQuote: async (symbol) => {
+    const data = await fetchChart(symbol, { range: '1d', interval: '1d' });
+    const meta = data?.chart?.result?.[0]?.meta;
+    if (!meta?.regularMarketPrice) return null;
+
+    return {
+      symbol,
+      price: meta.regularMarketPrice,
+      previousClose: meta.chartPreviousClose || meta.previousClose,
+      open: meta.regularMarketOpen,
+      dayLow: meta.regularMarketDayLow,
+      dayHigh: meta.regularMarketDayHigh,
+      volume: meta.regularMarketVolume,
+      currency: meta.currency,
+      name: meta.longName || meta.shortName,
+      timestamp: meta.regularMarketTime ? meta.regularMarketTime * 1000 : Date.now(),
+    };
+  },
+  getHistory,
+  search,
+  getNews,
+  getFundamentals,
+};
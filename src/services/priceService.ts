@@ -1,15 +1,21 @@
 /**
  * Stock Price Service
- * Fetches live stock prices from Yahoo Finance
+ * Fetches live stock prices in one batch from the api/quotes route, falling
+ * back to the market data provider chain one ticker at a time, and keeps
+ * them fresh from the api/stream route or by polling
  * STOCKS ONLY - no crypto
  */
 
 import type { LivePrice } from '@/types/portfolio';
+import { parseSymbol } from '@/lib/symbols';
+import { fetchQuote, fetchQuoteBatch, type Quote } from '@/services/marketData';
+import { isStreamingSupported, openPriceStream } from '@/services/priceStream';
+import { getMarketState } from '@/services/yahooService';
 
 // Configuration
 const CACHE_TTL = 30000; // 30 seconds
-const CORS_PROXY = 'https://corsproxy.io/?';
-const YAHOO_CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+const EXTENDED_HOURS_SLOWDOWN = 4; // Pre/post-market polls 4x less often
+const MARKET_CHECK_INTERVAL = 5 * 60 * 1000; // How often a paused refresh checks the market state
 
 // Price cache
 interface CacheEntry {
@@ -57,62 +63,48 @@ const companyToTickerMap: Record<string, string> = {
 };
 
 /**
- * Resolve a symbol to Yahoo Finance ticker
+ * Resolve a symbol to Yahoo Finance ticker (exchange suffix included)
  */
 export function resolveStockTicker(symbol: string): string {
   const upper = symbol.toUpperCase().trim();
   
-  // If it looks like a ticker, use it
-  if (/^[A-Z]{1,5}(-[A-Z])?$/.test(upper)) {
-    return upper;
+  if (companyToTickerMap[upper]) {
+    return companyToTickerMap[upper];
   }
   
-  return companyToTickerMap[upper] || upper;
+  // If it looks like a ticker, use its Yahoo form
+  return parseSymbol(upper)?.symbol || upper;
 }
 
 /**
- * Fetch stock price from Yahoo Finance v8 chart endpoint
+ * Live price of a ticker from a provider's quote
  */
-async function fetchYahooChartPrice(ticker: string): Promise<{
-  price: number;
-  previousClose?: number;
-  change?: number;
-  changePercent?: number;
-} | null> {
+function toLivePrice(ticker: string, quote: Quote & { source: LivePrice['source'] }): LivePrice {
+  const { price, previousClose } = quote;
+  return {
+    ticker,
+    price,
+    previousClose,
+    change: previousClose ? price - previousClose : undefined,
+    changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : undefined,
+    currency: quote.currency,
+    timestamp: Date.now(),
+    source: quote.source,
+  };
+}
+
+/**
+ * Fetch a live price from the first provider that has one
+ */
+async function fetchLivePrice(ticker: string): Promise<LivePrice | null> {
   const resolvedTicker = resolveStockTicker(ticker);
-  
-  try {
-    const url = `${CORS_PROXY}${encodeURIComponent(`${YAHOO_CHART_URL}/${resolvedTicker}?interval=1d&range=1d`)}`;
-    const response = await fetch(url, {
-      headers: { 'Accept': 'application/json' },
-    });
-    
-    if (!response.ok) {
-      console.warn(`Yahoo chart error for ${resolvedTicker}: ${response.status}`);
-      return null;
-    }
-    
-    const data = await response.json();
-    const meta = data?.chart?.result?.[0]?.meta;
-    
-    if (!meta?.regularMarketPrice) {
-      console.warn(`No price data for ${resolvedTicker}`);
-      return null;
-    }
-    
-    const price = meta.regularMarketPrice;
-    const previousClose = meta.chartPreviousClose || meta.previousClose;
-    
-    return {
-      price,
-      previousClose,
-      change: previousClose ? price - previousClose : undefined,
-      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : undefined,
-    };
-  } catch (error) {
-    console.warn(`Chart endpoint failed for ${resolvedTicker}:`, error);
+  const quote = await fetchQuote(resolvedTicker);
+
+  if (!quote) {
+    console.warn(`No price data for ${resolvedTicker}`);
     return null;
   }
+  return toLivePrice(ticker, quote);
 }
 
 /**
@@ -134,22 +126,15 @@ export async function fetchStockPrices(tickers: string[]): Promise<Map<string, L
     }
   }
   
-  // Fetch missing prices in parallel
+  // Fetch missing prices in one batch, then one by one for what the batch missed
   if (toFetch.length > 0) {
+    const batch = await fetchQuoteBatch([...new Set(toFetch.map(resolveStockTicker))]);
+
     const promises = toFetch.map(async (ticker) => {
-      const result = await fetchYahooChartPrice(ticker);
+      const batchQuote = batch.get(resolveStockTicker(ticker));
+      const livePrice = batchQuote ? toLivePrice(ticker, batchQuote) : await fetchLivePrice(ticker);
       
-      if (result && result.price > 0) {
-        const livePrice: LivePrice = {
-          ticker,
-          price: result.price,
-          previousClose: result.previousClose,
-          change: result.change,
-          changePercent: result.changePercent,
-          timestamp: now,
-          source: 'yahoo',
-        };
-        
+      if (livePrice) {
         results.set(ticker, livePrice);
         priceCache.set(ticker, { price: livePrice, timestamp: now });
       } else {
@@ -176,7 +161,12 @@ export async function fetchStockPrice(ticker: string): Promise<LivePrice | null>
 }
 
 /**
- * Start auto-refresh for stock prices
+ * Start auto-refresh for stock prices.
+ * Prices stream from api/stream where it's deployed; otherwise they're polled
+ * every `interval` while any watched exchange is in regular hours and less
+ * often when the only open ones are pre/post-market. Nothing refreshes while
+ * the tab is hidden or every watched exchange is closed.
+ * onUpdate may get only the tickers that changed.
  */
 export function startPriceRefresh(
   tickers: string[],
@@ -184,14 +174,90 @@ export function startPriceRefresh(
   onUpdate: (prices: Map<string, LivePrice>) => void,
   interval: number = 30000
 ): () => void {
-  // Initial fetch
-  fetchStockPrices(tickers).then(onUpdate);
-  
-  // Set up interval
-  const intervalId = setInterval(() => {
-    fetchStockPrices(tickers).then(onUpdate);
-  }, interval);
-  
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closeStream: (() => void) | null = null;
+  let canStream = isStreamingSupported() && tickers.length > 0;
+
+  // Streamed prices come keyed by Yahoo symbol
+  const tickersBySymbol = new Map<string, string[]>();
+  for (const ticker of tickers) {
+    const symbol = resolveStockTicker(ticker);
+    tickersBySymbol.set(symbol, [...(tickersBySymbol.get(symbol) || []), ticker]);
+  }
+
+  const refresh = async () => {
+    const prices = await fetchStockPrices(tickers);
+    if (!stopped) onUpdate(prices);
+  };
+
+  // A failed refresh is retried on the next tick rather than ending the refresh loop
+  const logRefreshError = (error: unknown) => console.warn('Price refresh failed:', error);
+
+  const handleTick = (price: LivePrice) => {
+    const now = Date.now();
+    const updates = new Map<string, LivePrice>();
+    for (const ticker of tickersBySymbol.get(price.ticker) || []) {
+      const livePrice = { ...price, ticker, timestamp: now };
+      priceCache.set(ticker, { price: livePrice, timestamp: now });
+      updates.set(ticker, livePrice);
+    }
+    if (updates.size > 0 && !stopped) onUpdate(updates);
+  };
+
+  // Busiest session across the watched symbols' exchanges
+  const getWatchedMarketState = () => {
+    const states = [...tickersBySymbol.keys()].map(symbol => getMarketState(symbol));
+    if (states.includes('REGULAR')) return 'REGULAR';
+    return states.find(state => state !== 'CLOSED') ?? 'CLOSED';
+  };
+
+  const stopStream = () => {
+    closeStream?.();
+    closeStream = null;
+  };
+
+  // Stream, poll or pause, depending on the tab and the market session
+  const schedule = () => {
+    clearTimeout(timer);
+    if (stopped) return;
+
+    const state = getWatchedMarketState();
+    if (document.hidden || state === 'CLOSED') {
+      stopStream();
+      // Showing the tab again reschedules straight away
+      if (!document.hidden) timer = setTimeout(schedule, MARKET_CHECK_INTERVAL);
+      return;
+    }
+
+    if (canStream) {
+      closeStream ??= openPriceStream([...tickersBySymbol.keys()], handleTick, () => {
+        closeStream = null;
+        canStream = false;
+        schedule();
+      });
+      timer = setTimeout(schedule, MARKET_CHECK_INTERVAL);
+      return;
+    }
+
+    const delay = state === 'REGULAR' ? interval : interval * EXTENDED_HOURS_SLOWDOWN;
+    timer = setTimeout(() => refresh().catch(logRefreshError).finally(schedule), delay);
+  };
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) refresh().catch(logRefreshError);
+    schedule();
+  };
+
+  refresh().catch(logRefreshError);
+  schedule();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
   // Return cleanup function
-  return () => clearInterval(intervalId);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    stopStream();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
 }
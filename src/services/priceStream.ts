@@ -0,0 +1,55 @@
+/**
+ * Price Stream
+ * Live price ticks pushed by the api/stream route as server-sent events
+ */
+
+import type { LivePrice } from '@/types/portfolio';
+import { API_BASE_URL } from '@/services/marketData';
+
+// Errors in a row (without a price between them) before giving up on the stream
+const MAX_STREAM_ERRORS = 3;
+
+export function isStreamingSupported(): boolean {
+  return typeof EventSource !== 'undefined';
+}
+
+/**
+ * Stream prices for Yahoo symbols. onPrice gets each changed price (keyed by
+ * symbol in `ticker`). onFail is called once when the stream can't be kept
+ * open, e.g. the route isn't deployed, and the stream is closed.
+ * Returns a function that closes the stream.
+ */
+export function openPriceStream(
+  symbols: string[],
+  onPrice: (price: LivePrice) => void,
+  onFail: () => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/stream?symbols=${encodeURIComponent(symbols.join(','))}`);
+  let errors = 0;
+
+  source.addEventListener('price', (event) => {
+    errors = 0;
+    try {
+      onPrice(JSON.parse((event as MessageEvent<string>).data));
+    } catch (error) {
+      console.warn('Could not read price event:', error);
+    }
+  });
+
+  source.addEventListener('quote-error', (event) => {
+    console.warn('No streamed price:', (event as MessageEvent<string>).data);
+  });
+
+  // The server ends the stream every minute or so and EventSource reconnects;
+  // a CLOSED source (not an event stream) or repeated errors mean it won't work
+  source.onerror = () => {
+    errors += 1;
+    if (source.readyState === EventSource.CLOSED || errors >= MAX_STREAM_ERRORS) {
+      source.close();
+      source.onerror = null;
+      onFail();
+    }
+  };
+
+  return () => source.close();
+}
@@ -1,11 +1,18 @@
-// Yahoo Finance API service
+// Stock detail service (quotes in Yahoo's shape, from the market data provider chain)
 // STOCKS ONLY - no crypto
 
-const VERCEL_API_BASE = 'https://portfolio-hub-tau.vercel.app/api';
-const CORS_PROXY = 'https://corsproxy.io/?';
-const YAHOO_CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
-const YAHOO_SEARCH_URL = 'https://query1.finance.yahoo.com/v1/finance/search';
-const YAHOO_QUOTE_URL = 'https://query1.finance.yahoo.com/v6/finance/quote';
+import type { MarketDataSource } from '@/types/portfolio';
+import { getMarketSession, parseSymbol, type MarketState } from '@/lib/symbols';
+import {
+  fetchFundamentals,
+  fetchHistory,
+  fetchNews,
+  fetchQuote,
+  fetchSymbolMatches,
+  type HistoryInterval,
+  type HistoryRange,
+  type SymbolMatch,
+} from '@/services/marketData';
 
 export interface YahooQuote {
   symbol: string;
@@ -26,6 +33,7 @@ export interface YahooQuote {
   trailingPE?: number;
   epsTrailingTwelveMonths?: number;
   earningsDate?: string;
+  currency: string;
   marketState: 'PRE' | 'REGULAR' | 'POST' | 'CLOSED';
 }
 
@@ -42,9 +50,11 @@ export interface YahooNews {
   providerPublishTime: number;
 }
 
+export type SymbolSearchResult = SymbolMatch;
+
 type TimeRange = '1D' | '5D' | '1M' | '3M' | '6M' | 'YTD' | '1Y' | 'MAX';
 
-const RANGE_CONFIG: Record<TimeRange, { range: string; interval: string }> = {
+const RANGE_CONFIG: Record<TimeRange, { range: HistoryRange; interval: HistoryInterval }> = {
   '1D': { range: '1d', interval: '5m' },
   '5D': { range: '5d', interval: '15m' },
   '1M': { range: '1mo', interval: '1d' },
@@ -60,7 +70,8 @@ const RANGE_CONFIG: Record<TimeRange, { range: string; interval: string }> = {
  * - Trimming whitespace
  * - Extracting the ticker from formats like "NVDA · STOCK" or "NVIDIA NVDA"
  * - Converting to uppercase
- * - Validating it looks like a valid ticker (1-5 uppercase letters)
+ * - Validating it against the symbol model (exchange suffixes like "VOW3.DE" and
+ *   share classes like "BRK-B" included) and returning the Yahoo symbol
  */
 export function sanitizeSymbol(rawSymbol: string | undefined): string | null {
   if (!rawSymbol) return null;
@@ -73,17 +84,16 @@ export function sanitizeSymbol(rawSymbol: string | undefined): string | null {
     symbol = symbol.split('·')[0].trim();
   }
   
-  // Handle "TICKER - DESCRIPTION" format
-  if (symbol.includes('-')) {
-    symbol = symbol.split('-')[0].trim();
+  // Handle "TICKER - DESCRIPTION" format (a dash without spaces is a share class)
+  if (symbol.includes(' - ')) {
+    symbol = symbol.split(' - ')[0].trim();
   }
   
   // Handle "Company Name TICKER" - take the last word if it looks like a ticker
   const parts = symbol.split(/\s+/);
   if (parts.length > 1) {
-    // Check if last part is a valid ticker (1-5 uppercase letters)
     const lastPart = parts[parts.length - 1];
-    if (/^[A-Z]{1,5}$/.test(lastPart)) {
+    if (parseSymbol(lastPart)) {
       symbol = lastPart;
     } else {
       // Try first part
@@ -91,12 +101,7 @@ export function sanitizeSymbol(rawSymbol: string | undefined): string | null {
     }
   }
   
-  // Validate: must be 1-5 uppercase letters (standard US stock tickers)
-  if (!/^[A-Z]{1,5}$/.test(symbol)) {
-    return null;
-  }
-  
-  return symbol;
+  return parseSymbol(symbol)?.symbol || null;
 }
 
 /**
@@ -143,6 +148,7 @@ function formatVolume(value: number): string {
 
 export interface StockData {
   quote: YahooQuote;
+  source: MarketDataSource;     // Provider of the price
   chartData: ChartDataPoint[];
   stats: {
     prevClose: string;
@@ -157,42 +163,6 @@ export interface StockData {
   };
 }
 
-/**
- * Fetch additional fundamentals from v6/quote endpoint
- */
-async function fetchQuoteFundamentals(symbol: string): Promise<{
-  marketCap?: number;
-  trailingPE?: number;
-  epsTrailingTwelveMonths?: number;
-  averageVolume?: number;
-  fiftyTwoWeekLow?: number;
-  fiftyTwoWeekHigh?: number;
-} | null> {
-  try {
-    const yahooUrl = `${YAHOO_QUOTE_URL}?symbols=${encodeURIComponent(symbol)}`;
-    const corsUrl = `${CORS_PROXY}${encodeURIComponent(yahooUrl)}`;
-    
-    const response = await fetch(corsUrl, { signal: AbortSignal.timeout(5000) });
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    const result = data?.quoteResponse?.result?.[0];
-    if (!result) return null;
-    
-    return {
-      marketCap: result.marketCap,
-      trailingPE: result.trailingPE,
-      epsTrailingTwelveMonths: result.epsTrailingTwelveMonths,
-      averageVolume: result.averageDailyVolume3Month || result.averageDailyVolume10Day,
-      fiftyTwoWeekLow: result.fiftyTwoWeekLow,
-      fiftyTwoWeekHigh: result.fiftyTwoWeekHigh,
-    };
-  } catch (error) {
-    console.warn('Quote fundamentals fetch failed, using chart data only:', error);
-    return null;
-  }
-}
-
 export async function fetchStockData(rawSymbol: string, timeRange: TimeRange = '1Y'): Promise<StockData | null> {
   // Sanitize the symbol first
   const symbol = sanitizeSymbol(rawSymbol);
@@ -202,112 +172,61 @@ export async function fetchStockData(rawSymbol: string, timeRange: TimeRange = '
   }
   
   try {
-    const { range, interval } = RANGE_CONFIG[timeRange];
-    
-    // Fetch chart data and quote fundamentals in parallel
-    let chartData: any = null;
-    let summaryData: Awaited<ReturnType<typeof fetchQuoteFundamentals>> = null;
-    
-    const [chartResult, fundamentalsResult] = await Promise.allSettled([
-      (async () => {
-        // Try Vercel API first, fallback to CORS proxy
-        try {
-          const vercelUrl = `${VERCEL_API_BASE}/yahoo-price?symbol=${encodeURIComponent(symbol)}&range=${range}&interval=${interval}`;
-          const response = await fetch(vercelUrl, { signal: AbortSignal.timeout(5000) });
-          if (response.ok) {
-            return await response.json();
-          }
-        } catch {
-          // Vercel API failed
-        }
-        
-        const yahooUrl = `${YAHOO_CHART_URL}/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`;
-        const corsUrl = `${CORS_PROXY}${encodeURIComponent(yahooUrl)}`;
-        const response = await fetch(corsUrl);
-        if (!response.ok) {
-          throw new Error(`Yahoo price API error: ${response.status}`);
-        }
-        return await response.json();
-      })(),
-      fetchQuoteFundamentals(symbol)
+    // Fetch closes, the live quote and fundamentals in parallel
+    const [series, liveQuote, fundamentals] = await Promise.all([
+      fetchHistory(symbol, RANGE_CONFIG[timeRange]),
+      fetchQuote(symbol),
+      fetchFundamentals(symbol),
     ]);
     
-    if (chartResult.status === 'fulfilled') {
-      chartData = chartResult.value;
-    }
-    if (fundamentalsResult.status === 'fulfilled') {
-      summaryData = fundamentalsResult.value;
-    }
-    
-    if (!chartData) {
+    if (!series && !liveQuote) {
       console.error('Failed to fetch chart data');
       return null;
     }
     
-    // Handle API response structure - be lenient with partial data
-    const result = chartData?.chart?.result?.[0];
-    if (!result?.meta) {
-      console.error('Invalid Yahoo response structure');
-      return null;
-    }
-    
-    const meta = result.meta;
-    const timestamps = result.timestamp || [];
-    const quotes = result.indicators?.quote?.[0] || {};
-    const closes = quotes.close || [];
+    const points = series?.points || [];
+    const closes = points.map(p => p.close);
     
     // Get price with fallbacks
-    const regularMarketPrice = meta.regularMarketPrice ?? 
-                               closes[closes.length - 1] ?? 
-                               meta.chartPreviousClose ?? 
-                               meta.previousClose ?? 0;
-    
-    const previousClose = meta.chartPreviousClose ?? meta.previousClose ?? regularMarketPrice;
+    const regularMarketPrice = liveQuote?.price ??
+                               series?.price ??
+                               closes[closes.length - 1] ??
+                               series?.previousClose ?? 0;
     
-    // Merge fundamentals: prefer quote endpoint, fallback to chart meta
-    const marketCap = summaryData?.marketCap || meta.marketCap || 0;
-    const trailingPE = summaryData?.trailingPE || meta.trailingPE;
-    const epsTrailingTwelveMonths = summaryData?.epsTrailingTwelveMonths || meta.epsTrailingTwelveMonths;
-    const averageVolume = summaryData?.averageVolume || meta.averageDailyVolume10Day || 0;
-    const fiftyTwoWeekLow = summaryData?.fiftyTwoWeekLow || meta.fiftyTwoWeekLow || 0;
-    const fiftyTwoWeekHigh = summaryData?.fiftyTwoWeekHigh || meta.fiftyTwoWeekHigh || 0;
+    const previousClose = liveQuote?.previousClose ?? series?.previousClose ?? regularMarketPrice;
+    const name = fundamentals?.name || liveQuote?.name || symbol;
     
     // Build quote data with safe fallbacks
     const quote: YahooQuote = {
-      symbol: meta.symbol || symbol,
-      shortName: meta.shortName || symbol,
-      longName: meta.longName || meta.shortName || symbol,
+      symbol,
+      shortName: name,
+      longName: name,
       regularMarketPrice,
       regularMarketChange: regularMarketPrice - previousClose,
       regularMarketChangePercent: previousClose > 0 
         ? ((regularMarketPrice - previousClose) / previousClose) * 100 
         : 0,
       regularMarketPreviousClose: previousClose,
-      regularMarketOpen: meta.regularMarketOpen ?? quotes.open?.[0] ?? regularMarketPrice,
-      regularMarketDayLow: meta.regularMarketDayLow ?? (closes.length > 0 ? Math.min(...closes.filter(Boolean)) : regularMarketPrice),
-      regularMarketDayHigh: meta.regularMarketDayHigh ?? (closes.length > 0 ? Math.max(...closes.filter(Boolean)) : regularMarketPrice),
-      fiftyTwoWeekLow,
-      fiftyTwoWeekHigh,
-      marketCap,
-      regularMarketVolume: meta.regularMarketVolume ?? 0,
-      averageDailyVolume10Day: averageVolume,
-      trailingPE,
-      epsTrailingTwelveMonths,
-      marketState: getMarketState(),
+      regularMarketOpen: liveQuote?.open ?? closes[0] ?? regularMarketPrice,
+      regularMarketDayLow: liveQuote?.dayLow ?? (closes.length > 0 ? Math.min(...closes) : regularMarketPrice),
+      regularMarketDayHigh: liveQuote?.dayHigh ?? (closes.length > 0 ? Math.max(...closes) : regularMarketPrice),
+      fiftyTwoWeekLow: fundamentals?.fiftyTwoWeekLow || 0,
+      fiftyTwoWeekHigh: fundamentals?.fiftyTwoWeekHigh || 0,
+      marketCap: fundamentals?.marketCap || 0,
+      regularMarketVolume: liveQuote?.volume ?? 0,
+      averageDailyVolume10Day: fundamentals?.averageVolume || 0,
+      trailingPE: fundamentals?.trailingPE,
+      epsTrailingTwelveMonths: fundamentals?.epsTrailingTwelveMonths,
+      currency: liveQuote?.currency || series?.currency || 'USD',
+      marketState: getMarketState(symbol),
     };
     
     // Build chart data - filter out invalid points
-    const chartPoints: ChartDataPoint[] = timestamps
-      .map((time: number, i: number) => {
-        const value = closes[i];
-        if (value == null || isNaN(value) || value <= 0) return null;
-        return {
-          time,
-          value,
-          label: formatTimeLabel(time, timeRange),
-        };
-      })
-      .filter(Boolean) as ChartDataPoint[];
+    const chartPoints: ChartDataPoint[] = points.map(({ time, close }) => ({
+      time: Math.floor(time / 1000),
+      value: close,
+      label: formatTimeLabel(Math.floor(time / 1000), timeRange),
+    }));
     
     // Build stats with safe formatting
     const formatPrice = (val: number) => val > 0 ? `$${val.toFixed(2)}` : 'N/A';
@@ -328,7 +247,7 @@ export async function fetchStockData(rawSymbol: string, timeRange: TimeRange = '
       eps: quote.epsTrailingTwelveMonths ? `$${quote.epsTrailingTwelveMonths.toFixed(2)}` : 'N/A',
     };
     
-    return { quote, chartData: chartPoints, stats };
+    return { quote, source: liveQuote?.source ?? series?.source ?? 'yahoo', chartData: chartPoints, stats };
   } catch (error) {
     console.error('Error fetching stock data:', error);
     return null;
@@ -343,49 +262,13 @@ export async function fetchStockNews(rawSymbol: string, companyName?: string): P
   }
   
   try {
-    let rawNews: any[] = [];
-    
-    // Try Vercel API first, fallback to CORS proxy
-    try {
-      const vercelUrl = `${VERCEL_API_BASE}/yahoo-news?symbol=${encodeURIComponent(symbol)}`;
-      const response = await fetch(vercelUrl, { signal: AbortSignal.timeout(5000) });
-      if (response.ok) {
-        const data = await response.json();
-        rawNews = Array.isArray(data) ? data : [];
-      }
-    } catch {
-      // Vercel API failed, try CORS proxy
-    }
-    
-    if (rawNews.length === 0) {
-      const yahooUrl = `${YAHOO_SEARCH_URL}?q=${encodeURIComponent(symbol)}&newsCount=10`;
-      const corsUrl = `${CORS_PROXY}${encodeURIComponent(yahooUrl)}`;
-      const response = await fetch(corsUrl);
-      if (!response.ok) {
-        console.error('Yahoo news API error:', response.status);
-        return [];
-      }
-      const data = await response.json();
-      rawNews = data?.news || [];
-    }
-    
-    if (!Array.isArray(rawNews)) {
-      return [];
-    }
+    const rawNews = await fetchNews(symbol);
     
     // Filter for stock-specific news
     const symbolUpper = symbol.toUpperCase();
     const companyNameLower = companyName?.toLowerCase() || '';
     
-    // Parse and filter news
     const filteredNews = rawNews
-      .map((item: any) => ({
-        title: item.title || '',
-        link: item.link || '',
-        publisher: item.publisher || 'Unknown',
-        providerPublishTime: item.providerPublishTime || 0,
-        relatedTickers: item.relatedTickers || [],
-      }))
       .filter((item) => {
         if (!item.title || !item.link) return false;
         
@@ -417,27 +300,29 @@ export async function fetchStockNews(rawSymbol: string, companyName?: string): P
   }
 }
 
-function getMarketState(): 'PRE' | 'REGULAR' | 'POST' | 'CLOSED' {
-  const now = new Date();
-  const nyTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  const day = nyTime.getDay();
-  const hour = nyTime.getHours();
-  const minute = nyTime.getMinutes();
-  const time = hour * 60 + minute;
-  
-  // Weekend
-  if (day === 0 || day === 6) return 'CLOSED';
-  
-  // Pre-market: 4:00 AM - 9:30 AM
-  if (time >= 240 && time < 570) return 'PRE';
-  
-  // Regular: 9:30 AM - 4:00 PM
-  if (time >= 570 && time < 960) return 'REGULAR';
-  
-  // Post-market: 4:00 PM - 8:00 PM
-  if (time >= 960 && time < 1200) return 'POST';
+// Quote types a trade can be recorded in
+export const TRADEABLE_TYPES = ['EQUITY', 'ETF'];
+
+/**
+ * Search for securities matching a ticker or company name (stocks and ETFs
+ * unless other quote types are asked for)
+ */
+export async function searchSymbols(
+  query: string,
+  types: string[] = TRADEABLE_TYPES
+): Promise<SymbolSearchResult[]> {
+  const q = query.trim();
+  if (!q) return [];
   
-  return 'CLOSED';
+  const matches = await fetchSymbolMatches(q);
+  return matches.filter(match => types.includes(match.type));
+}
+
+/**
+ * Market session right now on the exchange listing a symbol (US when none is given)
+ */
+export function getMarketState(symbol = ''): MarketState {
+  return getMarketSession(parseSymbol(symbol)?.exchange.mic || 'XNYS');
 }
 
 export function formatTimeAgo(timestamp: number): string {
@@ -2,11 +2,24 @@
 // STOCKS ONLY - no crypto
 
 // Trade source types
-export type TradeSource = 'csv' | 'manual' | 'trading212' | 'ibkr';
+export type TradeSource =
+  | 'csv' | 'manual' | 'trading212' | 'ibkr'
+  | 'degiro' | 'revolut' | 'etoro' | 'schwab' | 'fidelity' | 'vanguard' | 'freetrade';
 
 // Trade action types (matching broker CSV)
 export type TradeAction = 'BUY' | 'SELL';
 
+// Lot matching method used when a sell has no explicit lot selection
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO';
+
+/**
+ * Explicit lot selection for a SELL (specific identification)
+ */
+export interface LotSelection {
+  lotId: string;                // ID of the BUY trade that opened the lot
+  shares: number;
+}
+
 /**
  * Trade interface for local state and Firestore
  * Exactly matches the broker CSV structure
@@ -15,8 +28,9 @@ export interface Trade {
   // Firestore document ID (auto-generated)
   id: string;
   
-  // User scoping
+  // User and portfolio scoping
   userId: string;
+  portfolioId: string;
   
   // Broker identifiers
   brokerTransactionId: string;  // CSV: ID (for duplicate detection)
@@ -40,11 +54,168 @@ export interface Trade {
   totalCurrency: string;        // CSV: Currency (Total)
   exchangeRate: number;         // CSV: Exchange rate
   
+  // Costs on top of the price (optional, part of cost basis and sale proceeds)
+  fees?: number;                // Commissions, currency conversion and other broker fees
+  feesCurrency?: string;
+  taxes?: number;               // Stamp duty, financial transaction taxes
+  taxesCurrency?: string;
+  
+  // Specific lot identification (SELL only, optional)
+  lotSelection?: LotSelection[];
+  
   // Metadata
   source: TradeSource;
   createdAt: Date | null;       // Firestore serverTimestamp()
 }
 
+/**
+ * Named portfolio (e.g. one per broker account). Trades, cash events and
+ * corporate actions belong to one portfolio and are deleted with it.
+ */
+export interface Portfolio {
+  id: string;
+  userId: string;
+  name: string;
+  archived: boolean;            // Hidden from the switcher and the "All portfolios" view
+  createdAt: Date | null;
+}
+
+// Cash event types (non-trade broker rows)
+export type CashEventType = 'DIVIDEND' | 'WITHHOLDING_TAX' | 'INTEREST' | 'FEE';
+
+/**
+ * Dividend, withholding tax, interest or standalone fee row from a broker export
+ */
+export interface CashEvent {
+  // Firestore document ID (auto-generated)
+  id: string;
+  
+  // User and portfolio scoping
+  userId: string;
+  portfolioId: string;
+  
+  // Broker identifiers
+  brokerTransactionId: string;
+  
+  type: CashEventType;
+  timestamp: string;            // ISO string
+  
+  // Security info (empty for interest and account fees)
+  isin: string;
+  ticker: string;
+  name: string;
+  
+  // Positive cash amount. For WITHHOLDING_TAX this is the tax withheld, for FEE the fee charged.
+  // Negative for reversals, tax refunds and fee rebates (IBKR reports these as separate rows).
+  amount: number;
+  currency: string;
+  
+  // Tax withheld on this dividend when the broker reports it on the same row
+  // (Trading212). Brokers that report it separately (IBKR) use WITHHOLDING_TAX events.
+  withholdingTax: number;
+  withholdingTaxCurrency: string;
+  
+  // Metadata
+  source: TradeSource;
+  createdAt: Date | null;
+}
+
+// Corporate action types applied on top of trades
+export type CorporateActionType = 'SPLIT' | 'TICKER_CHANGE' | 'SPINOFF' | 'MERGER';
+
+/**
+ * Corporate action stored alongside trades. Trades are never rewritten;
+ * actions are applied to tax lots when holdings are calculated.
+ */
+export interface CorporateAction {
+  // Firestore document ID (auto-generated)
+  id: string;
+  
+  // User and portfolio scoping (no portfolio for actions saved before
+  // portfolios had their own, which apply to every portfolio)
+  userId: string;
+  portfolioId: string;
+  
+  // Broker identifiers (empty for manual entries)
+  brokerTransactionId: string;
+  
+  type: CorporateActionType;
+  effectiveDate: string;        // ISO string; trades at or after this already reflect the action
+  
+  // Affected security
+  ticker: string;
+  
+  // SPLIT: new shares per old share (2 for 2-for-1, 0.1 for 1-for-10 reverse)
+  // SPINOFF: new shares per parent share
+  // MERGER: acquirer shares per share (0 for cash mergers)
+  ratio: number;
+  
+  // Resulting security (TICKER_CHANGE, SPINOFF, stock MERGER)
+  newTicker?: string;
+  newName?: string;
+  newIsin?: string;
+  
+  // SPINOFF: fraction of the parent cost basis moved to the new shares (0-1)
+  costAllocation?: number;
+  
+  // MERGER: cash paid per share (cash mergers)
+  cashPerShare?: number;
+  currency?: string;
+  
+  // Metadata
+  source: TradeSource;
+  createdAt: Date | null;
+}
+
+/**
+ * Tax lot opened by a BUY trade
+ */
+export interface TaxLot {
+  id: string;                   // Opening trade ID (spinoff lots: "<trade id>:<action id>")
+  ticker: string;               // Current ticker after renames and mergers
+  openedAt: string;             // ISO timestamp of the opening trade
+  shares: number;               // Shares originally acquired
+  remainingShares: number;      // Shares still open after matched sells
+  currency: string;             // Trade price currency
+  costPerShare: number;         // In trade price currency
+  fxRate: number;               // Price currency → base currency on the trade date
+  costBasis: number;            // remainingShares * costPerShare * fxRate (base currency)
+}
+
+/**
+ * Portion of a lot closed by a SELL trade
+ */
+export interface LotMatch {
+  lotId: string;
+  sellTradeId: string;          // SELL trade ID, or corporate action ID for cash mergers
+  ticker: string;
+  shares: number;
+  openedAt: string;
+  closedAt: string;
+  costPerShare: number;         // In lot currency
+  costBasis: number;            // Base currency, at the acquisition FX rate
+  proceedsPerShare: number;     // In sell price currency
+  proceeds: number;             // Base currency, at the sale FX rate
+}
+
+/**
+ * SELL trade that closes more shares than were held at the time
+ */
+export interface ShortSale {
+  sellTradeId: string;
+  shares: number;               // Shares sold without an open lot to match
+}
+
+/**
+ * Result of replaying a ticker's trades against its lots
+ */
+export interface LotLedger {
+  openLots: TaxLot[];
+  matches: LotMatch[];
+  unmatchedSellShares: number;  // Shares sold without an open lot to match
+  shortSales: ShortSale[];      // The sells those shares belong to
+}
+
 /**
  * Holding representation for UI
  */
@@ -53,17 +224,101 @@ export interface Holding {
   name: string;
   isin?: string;
   logoUrl?: string;
+  currency: string;             // Listing currency of averageBuyPrice/currentPrice
   shares: number;
   averageBuyPrice: number;
-  investedAmount: number;
+  investedAmount: number;       // Base currency
   currentPrice: number;
-  currentValue: number;
-  unrealizedPL: number;
+  currentValue: number;         // Base currency
+  unrealizedPL: number;         // Base currency
   unrealizedPLPercent: number;
+  priceReturn: number;          // Part of unrealizedPL from the asset price
+  currencyReturn: number;       // Part of unrealizedPL from FX moves
   holdingPeriodDays: number;
   allocationPercent: number;
+  realizedPL: number;
+  lots: TaxLot[];
 }
 
+/**
+ * A position as the broker reports it (e.g. IBKR "Open Positions"),
+ * to check computed holdings against
+ */
+export interface BrokerPosition {
+  ticker: string;
+  isin: string;
+  name: string;
+  shares: number;
+  costBasis: number | null;     // Total cost in `currency`, when reported
+  currency: string;
+}
+
+// How a computed holding compares with the broker's position
+export type ReconciliationStatus = 'matched' | 'different' | 'missing' | 'not-at-broker';
+
+// Likely reason for a difference: trades not recorded, an unrecorded split, or only the cost differs
+export type ReconciliationIssue = 'missing-trades' | 'split' | 'average-cost';
+
+export interface PositionDifference {
+  ticker: string;
+  name: string;
+  status: ReconciliationStatus;
+  issue: ReconciliationIssue | null;    // null when matched
+  computedShares: number;
+  brokerShares: number;
+  computedAverageCost: number | null;   // In `currency`; null when the holding is in another currency
+  brokerAverageCost: number | null;     // null when the broker reports no cost
+  currency: string;
+  splitRatio: number | null;            // Broker shares per computed share, when the difference looks like a split
+}
+
+// Tax treatment of a realized gain (long-term = held more than one year)
+export type GainTerm = 'short' | 'long' | 'mixed';
+
+/**
+ * Realized result of a single SELL trade
+ */
+export interface RealizedSale {
+  sellTradeId: string;
+  ticker: string;
+  closedAt: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  term: GainTerm;
+}
+
+/**
+ * Realized P/L for a ticker (fully closed or partially sold)
+ */
+export interface RealizedPosition {
+  ticker: string;
+  name: string;
+  isin?: string;
+  sharesSold: number;
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  realizedGainPercent: number;
+  shortTermGain: number;
+  longTermGain: number;
+  term: GainTerm;
+  openedAt: string;             // First matched lot
+  closedAt: string;             // Last sell
+  holdingPeriodDays: number;
+  isClosed: boolean;            // No open lots remain
+  sales: RealizedSale[];
+}
+
+// Market data vendors (see services/marketData)
+export type MarketDataSource = 'yahoo' | 'finnhub' | 'alphavantage' | 'stooq' | 'fixture';
+
+// Where a price came from: a market data provider, the demo prices, or the last trade
+export type PriceSource = MarketDataSource | 'mock' | 'trade';
+
 /**
  * Live price data
  */
@@ -73,8 +328,114 @@ export interface LivePrice {
   previousClose?: number;
   change?: number;
   changePercent?: number;
+  currency?: string;            // As quoted by the source (e.g. 'GBp' for pence)
   timestamp: number;
-  source: string;
+  source: PriceSource;          // The provider that actually answered
+}
+
+/**
+ * Time ranges offered by the portfolio chart
+ */
+export type ChartRange = '1D' | '5D' | '1M' | '3M' | '6M' | 'YTD' | '1Y' | '5Y' | 'All';
+
+/**
+ * Historical closes for one ticker (split-adjusted, as Yahoo reports them)
+ */
+export interface PriceHistory {
+  ticker: string;
+  currency: string;             // As quoted by the source
+  previousClose?: number;       // Close before the first point
+  points: { time: number; close: number }[]; // Sorted ascending, time in ms
+}
+
+/**
+ * Portfolio market value at a point in time (base currency)
+ */
+export interface PortfolioValuePoint {
+  time: number;                 // ms
+  value: number;
+}
+
+/**
+ * Money moving into (positive) or out of (negative) the portfolio, base currency
+ */
+export interface CashFlow {
+  time: number;                 // ms
+  amount: number;
+}
+
+/**
+ * Time- and money-weighted returns over a period, in percent.
+ * Annualized values are null for periods shorter than a year.
+ */
+export interface ReturnMetrics {
+  from: number;                 // ms
+  to: number;                   // ms
+  timeWeighted: number | null;
+  timeWeightedAnnualized: number | null;
+  moneyWeighted: number | null;
+  moneyWeightedAnnualized: number | null;
+}
+
+/**
+ * Portfolio against a benchmark that received the same cash flows, in percent
+ */
+export interface BenchmarkMetrics {
+  symbol: string;
+  portfolioReturn: number;      // Time-weighted
+  benchmarkReturn: number;      // Time-weighted, in the base currency
+  excessReturn: number;         // Ending value over the simulated benchmark value
+  trackingDifference: number;   // portfolioReturn - benchmarkReturn (percentage points)
+  alpha: number | null;         // Jensen's alpha over the range
+  beta: number | null;
+}
+
+/**
+ * Currency conversion into the user's base currency
+ */
+export interface FxConverter {
+  baseCurrency: string;
+  // Rate converting one unit of `currency` into the base currency.
+  // Uses the close on or before `date` when given, otherwise the live rate.
+  rate: (currency: string, date?: string) => number;
+}
+
+/**
+ * Dividend income for a ticker (base currency)
+ */
+export interface DividendSummary {
+  ticker: string;
+  name: string;
+  grossIncome: number;
+  withholdingTax: number;
+  netIncome: number;
+  trailingNetIncome: number;    // Last 12 months
+  yieldOnCost: number;          // Trailing net income / open cost basis, in percent
+  paymentCount: number;
+  lastPaymentAt: string;
+}
+
+/**
+ * Income received in a calendar month (base currency)
+ */
+export interface MonthlyIncome {
+  month: string;                // YYYY-MM
+  netIncome: number;
+  withholdingTax: number;
+  paymentCount: number;
+}
+
+/**
+ * Trading costs for a broker or year (base currency)
+ */
+export interface FeeBreakdown {
+  key: string;                  // Trade source or year
+  fees: number;                 // Trade fees plus standalone fee rows
+  taxes: number;
+  total: number;
+  tradedValue: number;          // Buys and sells before costs
+  drag: number;                 // Total costs / traded value, in percent
+  tradeCount: number;
 }
 
 /**
@@ -82,6 +443,8 @@ export interface LivePrice {
  */
 export interface ImportResult {
   trades: Trade[];
+  cashEvents: CashEvent[];
+  corporateActions: CorporateAction[];
   errors: string[];
   diagnostics: ImportDiagnostics;
 }
@@ -89,6 +452,8 @@ export interface ImportResult {
 export interface ImportDiagnostics {
   totalRows: number;
   tradesImported: number;
+  cashEventsImported: number;
+  corporateActionsImported: number;
   rowsSkipped: number;
   skipReasons: Record<string, number>;
   warnings: string[];
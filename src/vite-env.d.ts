@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Market data (see services/marketData)
+  readonly VITE_MARKET_DATA_PROVIDERS?: string;   // Provider order, e.g. "yahoo,finnhub" or "fixture" offline
+  readonly VITE_API_BASE_URL?: string;            // Base of the api/ routes (default: same origin)
+  readonly VITE_CORS_PROXY?: string;              // Prefix for providers without CORS headers ('' to disable)
+  readonly VITE_FINNHUB_API_KEY?: string;
+  readonly VITE_ALPHA_VANTAGE_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,28 @@
+/**
+ * Import Worker
+ * Parses a broker export posted as an ImportFileRequest and answers with
+ * progress messages, then the parse result (see importFileService).
+ */
+
+import { parseFile, type ImportFileRequest, type ImportWorkerMessage } from '@/services/importFileService';
+
+// Progress is posted at most once per percent
+const PROGRESS_STEP = 0.01;
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ImportFileRequest>) => {
+  let lastProgress = 0;
+
+  try {
+    const { source, result } = await parseFile(event.data, (progress) => {
+      if (progress - lastProgress < PROGRESS_STEP && progress < 1) return;
+      lastProgress = progress;
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'done', source, result });
+  } catch (error) {
+    console.error('Error parsing import file:', error);
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Could not read file' });
+  }
+};